@@ -0,0 +1,74 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import { config } from '../utils/config';
+import { LATEST_SCHEMA_VERSION, dryRunMigrations, formatMigration, getSchemaVersion, runMigrations } from './migrator';
+import { migrations } from './migrations';
+import { PostgresStorage } from './postgresStorage';
+
+/**
+ * Schema migrations from the command line, without starting the bot:
+ *
+ *   npm run migrate                    apply pending migrations
+ *   npm run migrate -- --dry-run       list them and check they apply, changing nothing
+ *   npm run migrate -- <path>          use another database than DATABASE_PATH
+ *
+ * With STORAGE_BACKEND=postgres the PostgreSQL schema at DATABASE_URL is
+ * checked or migrated too. The bot applies pending migrations itself on
+ * startup; this is for checking what an upgrade will do first, e.g.
+ * against a copy of the database.
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const dbPath = args.find(arg => !arg.startsWith('--')) || config.database.path;
+
+  migrateSqlite(dbPath, dryRun);
+
+  if (config.database.backend === 'postgres' && config.database.url) {
+    await migratePostgres(config.database.url, dryRun);
+  }
+}
+
+function migrateSqlite(dbPath: string, dryRun: boolean): void {
+  if (!fs.existsSync(dbPath)) {
+    if (dryRun) {
+      console.log(`No database at ${dbPath}; all ${migrations.length} migrations would run on first start:`);
+      migrations.forEach(migration => console.log(`  ${formatMigration(migration)}`));
+      return;
+    }
+    throw new Error(`No database at ${dbPath}`);
+  }
+
+  const db = new Database(dbPath);
+  try {
+    console.log(`Database ${dbPath} is at schema version ${getSchemaVersion(db)} (latest is ${LATEST_SCHEMA_VERSION})`);
+    logMigrations(dryRun ? dryRunMigrations(db) : runMigrations(db), dryRun);
+  } finally {
+    db.close();
+  }
+}
+
+async function migratePostgres(url: string, dryRun: boolean): Promise<void> {
+  const storage = PostgresStorage.open(url);
+  try {
+    console.log('PostgreSQL storage:');
+    logMigrations(await storage.migrate(dryRun), dryRun);
+  } finally {
+    await storage.close();
+  }
+}
+
+function logMigrations(pending: { version: number; name: string }[], dryRun: boolean): void {
+  if (pending.length === 0) {
+    console.log('Schema is up to date');
+    return;
+  }
+
+  console.log(dryRun ? `${pending.length} migration(s) would apply cleanly:` : `Applied ${pending.length} migration(s):`);
+  pending.forEach(migration => console.log(`  ${formatMigration(migration)}`));
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,245 @@
+import Database from 'better-sqlite3';
+import { Migration } from './index';
+
+/**
+ * The schema as it stood when versioned migrations were introduced. Databases
+ * created before then are at version 0 with any subset of these tables and
+ * columns, so unlike later migrations this one has to be idempotent.
+ */
+export const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+  up(db) {
+    // Main launches table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS launches (
+        pair_address TEXT PRIMARY KEY,
+        token_address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        dex_id TEXT,
+        price_usd REAL,
+        market_cap REAL,
+        volume_24h REAL,
+        liquidity_usd REAL,
+        price_change_24h REAL,
+        pair_created_at INTEGER,
+        dexscreener_url TEXT,
+        last_updated INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_created_at ON launches(pair_created_at);
+      CREATE INDEX IF NOT EXISTS idx_volume ON launches(volume_24h);
+      CREATE INDEX IF NOT EXISTS idx_market_cap ON launches(market_cap);
+      CREATE INDEX IF NOT EXISTS idx_token_address ON launches(token_address);
+    `);
+
+    // Latest market data for watched/alerted tokens, refreshed independently
+    // of the launch feed so they stay current after leaving it
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tracked_tokens (
+        token_address TEXT PRIMARY KEY,
+        pair_address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        dex_id TEXT,
+        price_usd REAL,
+        market_cap REAL,
+        volume_24h REAL,
+        liquidity_usd REAL,
+        price_change_24h REAL,
+        pair_created_at INTEGER,
+        dexscreener_url TEXT,
+        last_updated INTEGER
+      );
+    `);
+
+    // Snapshot history table (one row per pair per poll)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS launch_snapshots (
+        pair_address TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        price_usd REAL,
+        market_cap REAL,
+        volume_24h REAL,
+        liquidity_usd REAL,
+        PRIMARY KEY (pair_address, timestamp)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_snapshots_timestamp ON launch_snapshots(timestamp);
+    `);
+
+    // Watchlist table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS watchlist (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        added_at INTEGER,
+        UNIQUE(user_id, token_address)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_watchlist_user ON watchlist(user_id);
+    `);
+
+    // Alerts table
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        condition_type TEXT NOT NULL,
+        operator TEXT NOT NULL,
+        threshold REAL NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'absolute',
+        window_minutes INTEGER,
+        baseline_value REAL,
+        expression TEXT,
+        mode TEXT NOT NULL DEFAULT 'once',
+        cooldown_minutes INTEGER,
+        hysteresis_percent REAL,
+        armed INTEGER NOT NULL DEFAULT 1,
+        delivery_type TEXT NOT NULL DEFAULT 'dm',
+        delivery_target TEXT,
+        delivery_failures INTEGER NOT NULL DEFAULT 0,
+        triggered INTEGER DEFAULT 0,
+        trigger_count INTEGER NOT NULL DEFAULT 0,
+        last_triggered_at INTEGER,
+        created_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_alerts_user ON alerts(user_id);
+      CREATE INDEX IF NOT EXISTS idx_alerts_token ON alerts(token_address);
+      CREATE INDEX IF NOT EXISTS idx_alerts_triggered ON alerts(triggered);
+    `);
+
+    // New-launch feed configuration and posted pairs (for dedupe across restarts)
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS feed_settings (
+        guild_id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        min_liquidity_usd REAL NOT NULL DEFAULT 0,
+        min_volume_usd REAL NOT NULL DEFAULT 0,
+        max_age_minutes INTEGER,
+        dex_ids TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS feed_posts (
+        guild_id TEXT NOT NULL,
+        pair_address TEXT NOT NULL,
+        posted_at INTEGER NOT NULL,
+        PRIMARY KEY (guild_id, pair_address)
+      );
+    `);
+
+    // Alert fire history
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS alert_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        alert_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        fired_at INTEGER NOT NULL,
+        expression TEXT NOT NULL,
+        condition_values TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        sink TEXT NOT NULL DEFAULT 'dm',
+        attempts INTEGER NOT NULL DEFAULT 1,
+        delivered INTEGER NOT NULL,
+        failure_reason TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_alert_events_user ON alert_events(user_id, fired_at);
+      CREATE INDEX IF NOT EXISTS idx_alert_events_alert ON alert_events(alert_id, fired_at);
+    `);
+
+    // On-chain discovery: pairs from factory events awaiting market data,
+    // and how far each log poller has scanned
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS discovered_pairs (
+        pair_address TEXT PRIMARY KEY,
+        token_address TEXT NOT NULL,
+        quote_address TEXT NOT NULL,
+        factory TEXT NOT NULL,
+        block_number INTEGER NOT NULL,
+        discovered_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_check_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_discovered_pairs_next_check ON discovered_pairs(next_check_at);
+
+      CREATE TABLE IF NOT EXISTS chain_cursors (
+        name TEXT PRIMARY KEY,
+        block_number INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+
+    // Weighted pool of discovery search terms
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS search_terms (
+        term TEXT PRIMARY KEY,
+        status TEXT NOT NULL DEFAULT 'active',
+        origin TEXT NOT NULL,
+        weight REAL NOT NULL DEFAULT 1,
+        runs INTEGER NOT NULL DEFAULT 0,
+        empty_runs INTEGER NOT NULL DEFAULT 0,
+        new_pairs INTEGER NOT NULL DEFAULT 0,
+        last_used_at INTEGER,
+        created_at INTEGER NOT NULL
+      );
+    `);
+
+    // Liquidity pulls and price collapses caught by the rug detector
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS rug_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pair_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        detected_at INTEGER NOT NULL,
+        peak_value REAL NOT NULL,
+        current_value REAL NOT NULL,
+        drop_percent REAL NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_rug_events_pair ON rug_events(pair_address, kind, detected_at);
+      CREATE INDEX IF NOT EXISTS idx_rug_events_token ON rug_events(token_address, detected_at);
+    `);
+
+    // Columns added after the initial release, before schema versions were tracked
+    addColumnIfMissing(db, 'alerts', 'kind', "TEXT NOT NULL DEFAULT 'absolute'");
+    addColumnIfMissing(db, 'alerts', 'window_minutes', 'INTEGER');
+    addColumnIfMissing(db, 'alerts', 'baseline_value', 'REAL');
+    addColumnIfMissing(db, 'alerts', 'expression', 'TEXT');
+    addColumnIfMissing(db, 'alerts', 'mode', "TEXT NOT NULL DEFAULT 'once'");
+    addColumnIfMissing(db, 'alerts', 'cooldown_minutes', 'INTEGER');
+    addColumnIfMissing(db, 'alerts', 'hysteresis_percent', 'REAL');
+    addColumnIfMissing(db, 'alerts', 'armed', 'INTEGER NOT NULL DEFAULT 1');
+    addColumnIfMissing(db, 'alerts', 'trigger_count', 'INTEGER NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'alerts', 'last_triggered_at', 'INTEGER');
+    addColumnIfMissing(db, 'alerts', 'delivery_type', "TEXT NOT NULL DEFAULT 'dm'");
+    addColumnIfMissing(db, 'alerts', 'delivery_target', 'TEXT');
+    addColumnIfMissing(db, 'alerts', 'delivery_failures', 'INTEGER NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'launches', 'risk_score', 'INTEGER');
+    addColumnIfMissing(db, 'launches', 'risk_factors', 'TEXT');
+    addColumnIfMissing(db, 'tracked_tokens', 'risk_score', 'INTEGER');
+    addColumnIfMissing(db, 'tracked_tokens', 'risk_factors', 'TEXT');
+    addColumnIfMissing(db, 'launches', 'trend_score', 'REAL');
+    addColumnIfMissing(db, 'launches', 'trend_reasons', 'TEXT');
+    for (const table of ['launches', 'tracked_tokens']) {
+      addColumnIfMissing(db, table, 'quote_token_address', 'TEXT');
+      addColumnIfMissing(db, table, 'quote_token_symbol', 'TEXT');
+      addColumnIfMissing(db, table, 'details', 'TEXT');
+    }
+  },
+};
+
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { Migration } from './index';
+
+// Final state of pairs moved out of `launches` by the retention policy
+export const migration: Migration = {
+  version: 2,
+  name: 'launch_archive',
+  up(db) {
+    db.exec(`
+      CREATE TABLE launch_archive (
+        pair_address TEXT PRIMARY KEY,
+        token_address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        dex_id TEXT,
+        price_usd REAL,
+        market_cap REAL,
+        volume_24h REAL,
+        liquidity_usd REAL,
+        price_change_24h REAL,
+        pair_created_at INTEGER,
+        dexscreener_url TEXT,
+        last_updated INTEGER,
+        risk_score INTEGER,
+        archived_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX idx_archive_token ON launch_archive(token_address);
+      CREATE INDEX idx_archive_archived_at ON launch_archive(archived_at);
+    `);
+  },
+};
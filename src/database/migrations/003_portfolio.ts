@@ -0,0 +1,28 @@
+import { Migration } from './index';
+
+// Per-user holdings for !portfolio, and who wants the daily PnL summary
+export const migration: Migration = {
+  version: 3,
+  name: 'portfolio',
+  up(db) {
+    db.exec(`
+      CREATE TABLE portfolio_positions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        amount REAL NOT NULL,
+        entry_price REAL NOT NULL,
+        added_at INTEGER NOT NULL,
+        UNIQUE(user_id, token_address)
+      );
+
+      CREATE INDEX idx_portfolio_token ON portfolio_positions(token_address);
+
+      CREATE TABLE portfolio_settings (
+        user_id TEXT PRIMARY KEY,
+        daily_summary INTEGER NOT NULL DEFAULT 0,
+        last_summary_at INTEGER
+      );
+    `);
+  },
+};
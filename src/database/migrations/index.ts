@@ -0,0 +1,23 @@
+import Database from 'better-sqlite3';
+import { migration as baseline } from './001_baseline';
+import { migration as launchArchive } from './002_launch_archive';
+import { migration as portfolio } from './003_portfolio';
+
+/**
+ * One step of the schema. `version` is what the database's `user_version`
+ * is set to once `up` has run, so versions must increase by one, in the
+ * order listed below. Never edit a migration that has shipped; add a new
+ * one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+// Every migration, oldest first
+export const migrations: Migration[] = [
+  baseline,
+  launchArchive,
+  portfolio,
+];
@@ -0,0 +1,79 @@
+import Database from 'better-sqlite3';
+import { Migration, migrations } from './migrations';
+
+/**
+ * The database was migrated by a newer release than this one. Its schema may
+ * have changed in ways this code doesn't understand, so refuse to touch it.
+ */
+export class SchemaTooNewError extends Error {
+  constructor(public readonly databaseVersion: number, public readonly codeVersion: number) {
+    super(
+      `Database schema is at version ${databaseVersion}, but this release only knows up to version ${codeVersion}. ` +
+      'Upgrade the bot, or restore a backup made before the newer release ran.'
+    );
+    this.name = 'SchemaTooNewError';
+  }
+}
+
+export const LATEST_SCHEMA_VERSION = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+// Migrations the database hasn't had yet, oldest first
+export function getPendingMigrations(db: Database.Database): Migration[] {
+  const version = getSchemaVersion(db);
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new SchemaTooNewError(version, LATEST_SCHEMA_VERSION);
+  }
+  return migrations.filter(migration => migration.version > version);
+}
+
+/**
+ * Brings the database up to the latest schema. Each migration runs in its
+ * own transaction together with the `user_version` bump, so a failure leaves
+ * the database at the last version that applied cleanly. Returns the
+ * migrations that ran.
+ */
+export function runMigrations(db: Database.Database): Migration[] {
+  const pending = getPendingMigrations(db);
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+
+  return pending;
+}
+
+/**
+ * Runs the pending migrations inside a transaction that is always rolled
+ * back, to check they apply cleanly without changing anything. Throws the
+ * first migration's error, if any. Returns the migrations that would run.
+ */
+export function dryRunMigrations(db: Database.Database): Migration[] {
+  const pending = getPendingMigrations(db);
+
+  db.exec('BEGIN');
+  try {
+    for (const migration of pending) {
+      try {
+        migration.up(db);
+      } catch (error) {
+        throw new Error(`Migration ${formatMigration(migration)} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  } finally {
+    db.exec('ROLLBACK');
+  }
+
+  return pending;
+}
+
+// e.g. "001_baseline"
+export function formatMigration(migration: Pick<Migration, 'version' | 'name'>): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+}
@@ -0,0 +1,209 @@
+/**
+ * Schema steps for the PostgreSQL backend, oldest first. Versions increase by
+ * one and are recorded in `schema_migrations`; like the SQLite migrations,
+ * never edit one that has shipped. Columns mirror the SQLite tables (JSON in
+ * text columns, 0/1 flags, Unix ms timestamps) so both map rows the same way.
+ */
+export interface PostgresMigration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export const postgresMigrations: PostgresMigration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    sql: `
+      CREATE TABLE launches (
+        pair_address TEXT PRIMARY KEY,
+        token_address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        dex_id TEXT,
+        price_usd DOUBLE PRECISION,
+        market_cap DOUBLE PRECISION,
+        volume_24h DOUBLE PRECISION,
+        liquidity_usd DOUBLE PRECISION,
+        price_change_24h DOUBLE PRECISION,
+        pair_created_at BIGINT,
+        dexscreener_url TEXT,
+        last_updated BIGINT,
+        quote_token_address TEXT,
+        quote_token_symbol TEXT,
+        details TEXT,
+        risk_score INTEGER,
+        risk_factors TEXT,
+        trend_score DOUBLE PRECISION,
+        trend_reasons TEXT
+      );
+
+      CREATE INDEX idx_created_at ON launches(pair_created_at);
+      CREATE INDEX idx_volume ON launches(volume_24h);
+      CREATE INDEX idx_market_cap ON launches(market_cap);
+      CREATE INDEX idx_token_address ON launches(token_address);
+
+      CREATE TABLE tracked_tokens (
+        token_address TEXT PRIMARY KEY,
+        pair_address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        dex_id TEXT,
+        price_usd DOUBLE PRECISION,
+        market_cap DOUBLE PRECISION,
+        volume_24h DOUBLE PRECISION,
+        liquidity_usd DOUBLE PRECISION,
+        price_change_24h DOUBLE PRECISION,
+        pair_created_at BIGINT,
+        dexscreener_url TEXT,
+        last_updated BIGINT,
+        quote_token_address TEXT,
+        quote_token_symbol TEXT,
+        details TEXT,
+        risk_score INTEGER,
+        risk_factors TEXT
+      );
+
+      CREATE TABLE watchlist (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        added_at BIGINT,
+        UNIQUE(user_id, token_address)
+      );
+
+      CREATE INDEX idx_watchlist_user ON watchlist(user_id);
+
+      CREATE TABLE alerts (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        condition_type TEXT NOT NULL,
+        operator TEXT NOT NULL,
+        threshold DOUBLE PRECISION NOT NULL,
+        kind TEXT NOT NULL DEFAULT 'absolute',
+        window_minutes INTEGER,
+        baseline_value DOUBLE PRECISION,
+        expression TEXT,
+        mode TEXT NOT NULL DEFAULT 'once',
+        cooldown_minutes INTEGER,
+        hysteresis_percent DOUBLE PRECISION,
+        armed INTEGER NOT NULL DEFAULT 1,
+        delivery_type TEXT NOT NULL DEFAULT 'dm',
+        delivery_target TEXT,
+        delivery_failures INTEGER NOT NULL DEFAULT 0,
+        triggered INTEGER DEFAULT 0,
+        trigger_count INTEGER NOT NULL DEFAULT 0,
+        last_triggered_at BIGINT,
+        created_at BIGINT
+      );
+
+      CREATE INDEX idx_alerts_user ON alerts(user_id);
+      CREATE INDEX idx_alerts_token ON alerts(token_address);
+      CREATE INDEX idx_alerts_triggered ON alerts(triggered);
+
+      CREATE TABLE alert_events (
+        id SERIAL PRIMARY KEY,
+        alert_id INTEGER NOT NULL,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        fired_at BIGINT NOT NULL,
+        expression TEXT NOT NULL,
+        condition_values TEXT NOT NULL,
+        snapshot TEXT NOT NULL,
+        sink TEXT NOT NULL DEFAULT 'dm',
+        attempts INTEGER NOT NULL DEFAULT 1,
+        delivered INTEGER NOT NULL,
+        failure_reason TEXT
+      );
+
+      CREATE INDEX idx_alert_events_user ON alert_events(user_id, fired_at);
+      CREATE INDEX idx_alert_events_alert ON alert_events(alert_id, fired_at);
+    `,
+  },
+  {
+    version: 2,
+    name: 'launch_archive',
+    sql: `
+      CREATE TABLE launch_archive (
+        pair_address TEXT PRIMARY KEY,
+        token_address TEXT NOT NULL,
+        name TEXT,
+        symbol TEXT,
+        dex_id TEXT,
+        price_usd DOUBLE PRECISION,
+        market_cap DOUBLE PRECISION,
+        volume_24h DOUBLE PRECISION,
+        liquidity_usd DOUBLE PRECISION,
+        price_change_24h DOUBLE PRECISION,
+        pair_created_at BIGINT,
+        dexscreener_url TEXT,
+        last_updated BIGINT,
+        risk_score INTEGER,
+        archived_at BIGINT NOT NULL
+      );
+
+      CREATE INDEX idx_archive_token ON launch_archive(token_address);
+      CREATE INDEX idx_archive_archived_at ON launch_archive(archived_at);
+    `,
+  },
+  {
+    version: 3,
+    name: 'portfolio',
+    sql: `
+      CREATE TABLE portfolio_positions (
+        id SERIAL PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        amount DOUBLE PRECISION NOT NULL,
+        entry_price DOUBLE PRECISION NOT NULL,
+        added_at BIGINT NOT NULL,
+        UNIQUE(user_id, token_address)
+      );
+
+      CREATE INDEX idx_portfolio_token ON portfolio_positions(token_address);
+
+      CREATE TABLE portfolio_settings (
+        user_id TEXT PRIMARY KEY,
+        daily_summary INTEGER NOT NULL DEFAULT 0,
+        last_summary_at BIGINT
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: 'feeds_and_rug_events',
+    sql: `
+      CREATE TABLE feed_settings (
+        guild_id TEXT PRIMARY KEY,
+        channel_id TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        min_liquidity_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+        min_volume_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+        max_age_minutes INTEGER,
+        dex_ids TEXT
+      );
+
+      CREATE TABLE feed_posts (
+        guild_id TEXT NOT NULL,
+        pair_address TEXT NOT NULL,
+        posted_at BIGINT NOT NULL,
+        PRIMARY KEY (guild_id, pair_address)
+      );
+
+      CREATE TABLE rug_events (
+        id SERIAL PRIMARY KEY,
+        pair_address TEXT NOT NULL,
+        token_address TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        detected_at BIGINT NOT NULL,
+        peak_value DOUBLE PRECISION NOT NULL,
+        current_value DOUBLE PRECISION NOT NULL,
+        drop_percent DOUBLE PRECISION NOT NULL
+      );
+
+      CREATE INDEX idx_rug_events_pair ON rug_events(pair_address, kind, detected_at);
+      CREATE INDEX idx_rug_events_token ON rug_events(token_address, detected_at);
+    `,
+  },
+];
@@ -0,0 +1,833 @@
+import { Pool, PoolClient, types } from 'pg';
+import {
+  TokenLaunch,
+  ArchivedLaunch,
+  WatchlistEntry,
+  PortfolioPosition,
+  PortfolioSubscriber,
+  Alert,
+  AlertEvent,
+  AlertExpression,
+  AlertMode,
+  AlertSettings,
+  FeedSettings,
+  RugEvent,
+  SortOption,
+  TrendingSort,
+} from '../types';
+import { LaunchStorage } from './storage';
+import { SchemaTooNewError, formatMigration } from './migrator';
+import { PostgresMigration, postgresMigrations } from './postgresMigrations';
+import {
+  AlertEventRow,
+  AlertRow,
+  ArchivedLaunchRow,
+  FeedSettingsRow,
+  LaunchRow,
+  RugEventRow,
+  firstCondition,
+  launchParams,
+  rowToAlert,
+  rowToAlertEvent,
+  rowToArchivedLaunch,
+  rowToFeedSettings,
+  rowToLaunch,
+  rowToRugEvent,
+} from './rows';
+
+// Timestamps and counts are BIGINT, which pg returns as strings by default;
+// Unix ms and row counts fit comfortably in a double
+types.setTypeParser(types.builtins.INT8, value => parseInt(value, 10));
+
+// Held while migrating so instances starting together don't race
+const MIGRATION_LOCK_ID = 0x6c61756e; // "laun"
+
+// Held per pair and kind while recording a rug event, with the key's hash as the second half
+const RUG_EVENT_LOCK_ID = 0x72756773; // "rugs"
+
+const LAUNCH_COLUMNS = `
+  pair_address AS "pairAddress",
+  token_address AS "tokenAddress",
+  name,
+  symbol,
+  dex_id AS "dexId",
+  price_usd AS "priceUsd",
+  market_cap AS "marketCap",
+  volume_24h AS "volume24h",
+  liquidity_usd AS "liquidityUsd",
+  price_change_24h AS "priceChange24h",
+  pair_created_at AS "pairCreatedAt",
+  dexscreener_url AS "dexscreenerUrl",
+  last_updated AS "lastUpdated",
+  quote_token_address AS "quoteTokenAddress",
+  quote_token_symbol AS "quoteTokenSymbol",
+  details,
+  risk_score AS "riskScore",
+  risk_factors AS "riskFactors"
+`;
+
+const UPSERT_LAUNCH = `
+  INSERT INTO launches (
+    pair_address, token_address, name, symbol, dex_id,
+    price_usd, market_cap, volume_24h, liquidity_usd,
+    price_change_24h, pair_created_at, dexscreener_url, last_updated,
+    quote_token_address, quote_token_symbol, details,
+    risk_score, risk_factors, trend_score, trend_reasons
+  ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+  ON CONFLICT (pair_address) DO UPDATE SET
+    price_usd = EXCLUDED.price_usd,
+    market_cap = EXCLUDED.market_cap,
+    volume_24h = EXCLUDED.volume_24h,
+    liquidity_usd = EXCLUDED.liquidity_usd,
+    price_change_24h = EXCLUDED.price_change_24h,
+    last_updated = EXCLUDED.last_updated,
+    quote_token_address = COALESCE(EXCLUDED.quote_token_address, launches.quote_token_address),
+    quote_token_symbol = COALESCE(EXCLUDED.quote_token_symbol, launches.quote_token_symbol),
+    details = COALESCE(EXCLUDED.details, launches.details),
+    risk_score = COALESCE(EXCLUDED.risk_score, launches.risk_score),
+    risk_factors = COALESCE(EXCLUDED.risk_factors, launches.risk_factors),
+    trend_score = COALESCE(EXCLUDED.trend_score, launches.trend_score),
+    trend_reasons = COALESCE(EXCLUDED.trend_reasons, launches.trend_reasons)
+  RETURNING (xmax = 0) AS inserted
+`;
+
+const ACTIVE_OR_WATCHED_TOKENS = `
+  SELECT token_address FROM alerts WHERE triggered = 0
+  UNION
+  SELECT token_address FROM watchlist
+  UNION
+  SELECT token_address FROM portfolio_positions
+`;
+
+/**
+ * Storage in a shared PostgreSQL database, so several bot instances see the
+ * same launches, watchlists and alerts. Selected with STORAGE_BACKEND=postgres
+ * and DATABASE_URL; the schema is migrated on connect.
+ */
+export class PostgresStorage implements LaunchStorage {
+  private pool: Pool;
+
+  private constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  // Connects and brings the schema up to date
+  static async connect(connectionString: string): Promise<PostgresStorage> {
+    const storage = PostgresStorage.open(connectionString);
+    try {
+      for (const migration of await storage.migrate()) {
+        console.log(`Applied PostgreSQL migration ${formatMigration(migration)}`);
+      }
+    } catch (error) {
+      await storage.close();
+      throw error;
+    }
+    return storage;
+  }
+
+  // Connects without migrating, e.g. to check pending migrations
+  static open(connectionString: string): PostgresStorage {
+    const pool = new Pool({ connectionString });
+    // An idle client losing its connection shouldn't take the bot down
+    pool.on('error', err => console.error('PostgreSQL pool error:', err.message));
+    return new PostgresStorage(pool);
+  }
+
+  /**
+   * Applies pending migrations in one transaction, or with `dryRun` applies
+   * them and rolls back. Returns the migrations that ran (or would run).
+   */
+  async migrate(dryRun: boolean = false): Promise<PostgresMigration[]> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_ID]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at BIGINT NOT NULL
+        )
+      `);
+
+      const result = await client.query<{ version: number | null }>('SELECT MAX(version) AS version FROM schema_migrations');
+      const version = result.rows[0].version ?? 0;
+      const latest = postgresMigrations.length > 0 ? postgresMigrations[postgresMigrations.length - 1].version : 0;
+      if (version > latest) {
+        throw new SchemaTooNewError(version, latest);
+      }
+
+      const pending = postgresMigrations.filter(migration => migration.version > version);
+      for (const migration of pending) {
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, Date.now()]
+        );
+      }
+
+      await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+      return pending;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Launch methods
+  async upsertLaunch(launch: TokenLaunch): Promise<void> {
+    await this.pool.query(UPSERT_LAUNCH, upsertLaunchValues(launch));
+  }
+
+  // Returns the launches whose pair wasn't in the table before this call
+  async upsertLaunches(launches: TokenLaunch[]): Promise<TokenLaunch[]> {
+    // Rows are locked in key order, so two instances upserting overlapping
+    // batches wait on each other instead of deadlocking
+    const ordered = [...launches].sort((a, b) => a.pairAddress.localeCompare(b.pairAddress));
+
+    const inserted = await this.transaction(async client => {
+      const insertedLaunches = new Set<TokenLaunch>();
+      for (const launch of ordered) {
+        const result = await client.query<{ inserted: boolean }>(UPSERT_LAUNCH, upsertLaunchValues(launch));
+        if (result.rows[0].inserted) {
+          insertedLaunches.add(launch);
+        }
+      }
+      return insertedLaunches;
+    });
+
+    // Back in the caller's order, as SqliteStorage returns them
+    return launches.filter(launch => inserted.has(launch));
+  }
+
+  async getLaunches(timeframeHours: number, sortBy: SortOption, limit: number = 15, offset: number = 0): Promise<TokenLaunch[]> {
+    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
+
+    let orderClause: string;
+    switch (sortBy) {
+      case 'mcap':
+        orderClause = 'market_cap DESC NULLS LAST';
+        break;
+      case 'age':
+        orderClause = 'pair_created_at DESC NULLS LAST';
+        break;
+      case 'volume':
+      default:
+        orderClause = 'volume_24h DESC NULLS LAST';
+        break;
+    }
+
+    const result = await this.pool.query<LaunchRow>(`
+      SELECT ${LAUNCH_COLUMNS}, trend_score AS "trendScore", trend_reasons AS "trendReasons"
+      FROM launches
+      WHERE pair_created_at >= $1
+      ORDER BY ${orderClause}
+      LIMIT $2 OFFSET $3
+    `, [cutoffTime, limit, offset]);
+
+    return result.rows.map(rowToLaunch);
+  }
+
+  async countLaunches(timeframeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
+    const result = await this.pool.query<{ count: number }>('SELECT COUNT(*) AS count FROM launches WHERE pair_created_at >= $1', [cutoffTime]);
+    return result.rows[0].count;
+  }
+
+  async getLaunchByToken(tokenAddress: string): Promise<TokenLaunch | undefined> {
+    const result = await this.pool.query<LaunchRow>(`
+      SELECT ${LAUNCH_COLUMNS}, trend_score AS "trendScore", trend_reasons AS "trendReasons"
+      FROM launches
+      WHERE token_address = $1
+      ORDER BY volume_24h DESC NULLS LAST
+      LIMIT 1
+    `, [tokenAddress.toLowerCase()]);
+
+    return result.rows[0] ? rowToLaunch(result.rows[0]) : undefined;
+  }
+
+  async getTrendingLaunches(
+    timeframeHours: number,
+    sortBy: TrendingSort,
+    limit: number = 10,
+    offset: number = 0,
+    halfLifeMinutes: number = 30
+  ): Promise<TokenLaunch[]> {
+    const now = Date.now();
+    const cutoffTime = now - timeframeHours * 60 * 60 * 1000;
+
+    let orderClause: string;
+    switch (sortBy) {
+      case 'volume':
+        orderClause = 'volume_24h DESC';
+        break;
+      case 'change':
+        orderClause = 'price_change_24h DESC NULLS LAST';
+        break;
+      case 'score':
+      default:
+        // Momentum score, halved for every half-life since the pair was last polled
+        orderClause = `COALESCE(trend_score, 0) * power(0.5, (${now} - last_updated)::double precision / ${halfLifeMinutes * 60 * 1000}) DESC, volume_24h DESC`;
+        break;
+    }
+
+    const result = await this.pool.query<LaunchRow>(`
+      SELECT ${LAUNCH_COLUMNS}, trend_score AS "trendScore", trend_reasons AS "trendReasons"
+      FROM launches
+      WHERE pair_created_at >= $1
+        AND volume_24h > 0
+        AND liquidity_usd > 0
+      ORDER BY ${orderClause}
+      LIMIT $2 OFFSET $3
+    `, [cutoffTime, limit, offset]);
+
+    return result.rows.map(rowToLaunch);
+  }
+
+  async countTrendingLaunches(timeframeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
+    const result = await this.pool.query<{ count: number }>(`
+      SELECT COUNT(*) AS count FROM launches
+      WHERE pair_created_at >= $1 AND volume_24h > 0 AND liquidity_usd > 0
+    `, [cutoffTime]);
+    return result.rows[0].count;
+  }
+
+  async archiveOldLaunches(maxAgeHours: number): Promise<number> {
+    const now = Date.now();
+    const cutoffTime = now - maxAgeHours * 60 * 60 * 1000;
+
+    // One statement, so a pair can't be watched between archiving and deleting it
+    const result = await this.pool.query(`
+      WITH expired AS (
+        DELETE FROM launches
+        WHERE pair_created_at < $1
+          AND token_address NOT IN (${ACTIVE_OR_WATCHED_TOKENS})
+        RETURNING *
+      )
+      INSERT INTO launch_archive (
+        pair_address, token_address, name, symbol, dex_id,
+        price_usd, market_cap, volume_24h, liquidity_usd,
+        price_change_24h, pair_created_at, dexscreener_url, last_updated,
+        risk_score, archived_at
+      )
+      SELECT
+        pair_address, token_address, name, symbol, dex_id,
+        price_usd, market_cap, volume_24h, liquidity_usd,
+        price_change_24h, pair_created_at, dexscreener_url, last_updated,
+        risk_score, $2
+      FROM expired
+      ON CONFLICT (pair_address) DO UPDATE SET
+        name = EXCLUDED.name,
+        symbol = EXCLUDED.symbol,
+        dex_id = EXCLUDED.dex_id,
+        price_usd = EXCLUDED.price_usd,
+        market_cap = EXCLUDED.market_cap,
+        volume_24h = EXCLUDED.volume_24h,
+        liquidity_usd = EXCLUDED.liquidity_usd,
+        price_change_24h = EXCLUDED.price_change_24h,
+        dexscreener_url = EXCLUDED.dexscreener_url,
+        last_updated = EXCLUDED.last_updated,
+        risk_score = EXCLUDED.risk_score,
+        archived_at = EXCLUDED.archived_at
+    `, [cutoffTime, now]);
+    return result.rowCount ?? 0;
+  }
+
+  // Archive methods
+  async getArchivedLaunches(query: string, limit: number = 10): Promise<ArchivedLaunch[]> {
+    const exact = query.trim().toLowerCase();
+    const escaped = exact.replace(/[\\%_]/g, '\\$&');
+
+    const result = await this.pool.query<ArchivedLaunchRow>(`
+      SELECT
+        pair_address AS "pairAddress",
+        token_address AS "tokenAddress",
+        name,
+        symbol,
+        dex_id AS "dexId",
+        price_usd AS "priceUsd",
+        market_cap AS "marketCap",
+        volume_24h AS "volume24h",
+        liquidity_usd AS "liquidityUsd",
+        price_change_24h AS "priceChange24h",
+        pair_created_at AS "pairCreatedAt",
+        dexscreener_url AS "dexscreenerUrl",
+        last_updated AS "lastUpdated",
+        risk_score AS "riskScore",
+        archived_at AS "archivedAt"
+      FROM launch_archive
+      WHERE token_address = $1
+        OR pair_address = $1
+        OR LOWER(symbol) = $1
+        OR name ILIKE $2
+      ORDER BY last_updated DESC NULLS LAST
+      LIMIT $3
+    `, [exact, `%${escaped}%`, limit]);
+
+    return result.rows.map(row => rowToArchivedLaunch(row));
+  }
+
+  async pruneArchive(maxAgeDays: number): Promise<number> {
+    const cutoffTime = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const result = await this.pool.query('DELETE FROM launch_archive WHERE archived_at < $1', [cutoffTime]);
+    return result.rowCount ?? 0;
+  }
+
+  // Tracked token methods
+  async upsertTrackedTokens(launches: TokenLaunch[]): Promise<void> {
+    // Key order, like upsertLaunches, so overlapping batches can't deadlock
+    const ordered = [...launches].sort((a, b) => a.tokenAddress.localeCompare(b.tokenAddress));
+
+    await this.transaction(async client => {
+      for (const launch of ordered) {
+        const params = launchParams(launch);
+        await client.query(`
+          INSERT INTO tracked_tokens (
+            token_address, pair_address, name, symbol, dex_id,
+            price_usd, market_cap, volume_24h, liquidity_usd,
+            price_change_24h, pair_created_at, dexscreener_url, last_updated,
+            quote_token_address, quote_token_symbol, details,
+            risk_score, risk_factors
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+          ON CONFLICT (token_address) DO UPDATE SET
+            pair_address = EXCLUDED.pair_address,
+            name = EXCLUDED.name,
+            symbol = EXCLUDED.symbol,
+            dex_id = EXCLUDED.dex_id,
+            price_usd = EXCLUDED.price_usd,
+            market_cap = EXCLUDED.market_cap,
+            volume_24h = EXCLUDED.volume_24h,
+            liquidity_usd = EXCLUDED.liquidity_usd,
+            price_change_24h = EXCLUDED.price_change_24h,
+            pair_created_at = EXCLUDED.pair_created_at,
+            dexscreener_url = EXCLUDED.dexscreener_url,
+            last_updated = EXCLUDED.last_updated,
+            quote_token_address = EXCLUDED.quote_token_address,
+            quote_token_symbol = EXCLUDED.quote_token_symbol,
+            details = EXCLUDED.details,
+            risk_score = EXCLUDED.risk_score,
+            risk_factors = EXCLUDED.risk_factors
+        `, [
+          params.tokenAddress, params.pairAddress, params.name, params.symbol, params.dexId,
+          params.priceUsd, params.marketCap, params.volume24h, params.liquidityUsd,
+          params.priceChange24h, params.pairCreatedAt, params.dexscreenerUrl, params.lastUpdated,
+          params.quoteTokenAddress, params.quoteTokenSymbol, params.details,
+          params.riskScore, params.riskFactors,
+        ]);
+      }
+    });
+  }
+
+  async getTrackedToken(tokenAddress: string): Promise<TokenLaunch | undefined> {
+    const result = await this.pool.query<LaunchRow>(`
+      SELECT ${LAUNCH_COLUMNS}
+      FROM tracked_tokens
+      WHERE token_address = $1
+    `, [tokenAddress.toLowerCase()]);
+
+    return result.rows[0] ? rowToLaunch(result.rows[0]) : undefined;
+  }
+
+  // Freshest data for a token from either the launch feed or tracked tokens
+  async getLatestTokenData(tokenAddress: string): Promise<TokenLaunch | undefined> {
+    const [launch, tracked] = await Promise.all([this.getLaunchByToken(tokenAddress), this.getTrackedToken(tokenAddress)]);
+
+    if (launch && tracked) {
+      return tracked.lastUpdated > launch.lastUpdated ? tracked : launch;
+    }
+    return launch || tracked;
+  }
+
+  // Launched or tracked tokens whose symbol or address starts with, or whose name contains, the query
+  async searchTokens(query: string, limit: number = 25): Promise<Pick<TokenLaunch, 'tokenAddress' | 'name' | 'symbol'>[]> {
+    const escaped = query.trim().toLowerCase().replace(/[\\%_]/g, '\\$&');
+
+    // Each token's highest-volume row, then exact symbol matches first
+    const result = await this.pool.query<Pick<TokenLaunch, 'tokenAddress' | 'name' | 'symbol'>>(`
+      SELECT token_address AS "tokenAddress", name, symbol
+      FROM (
+        SELECT DISTINCT ON (token_address) token_address, name, symbol, volume_24h
+        FROM (
+          SELECT token_address, name, symbol, volume_24h FROM launches
+          UNION ALL
+          SELECT token_address, name, symbol, volume_24h FROM tracked_tokens
+        ) tokens
+        WHERE token_address LIKE $1 OR symbol ILIKE $1 OR name ILIKE $2
+        ORDER BY token_address, volume_24h DESC NULLS LAST
+      ) matches
+      ORDER BY LOWER(symbol) = $3 DESC, volume_24h DESC NULLS LAST
+      LIMIT $4
+    `, [`${escaped}%`, `%${escaped}%`, query.trim().toLowerCase(), limit]);
+
+    return result.rows;
+  }
+
+  // Tokens with an active alert, or on anyone's watchlist or portfolio
+  async getWatchedTokenAddresses(): Promise<string[]> {
+    const result = await this.pool.query<{ token_address: string }>(ACTIVE_OR_WATCHED_TOKENS);
+    return result.rows.map(row => row.token_address);
+  }
+
+  async pruneUnwatchedTokens(): Promise<number> {
+    const result = await this.pool.query(`
+      DELETE FROM tracked_tokens
+      WHERE token_address NOT IN (${ACTIVE_OR_WATCHED_TOKENS})
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  // Watchlist methods
+  async addToWatchlist(userId: string, tokenAddress: string): Promise<boolean> {
+    const result = await this.pool.query(`
+      INSERT INTO watchlist (user_id, token_address, added_at)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, token_address) DO NOTHING
+    `, [userId, tokenAddress.toLowerCase(), Date.now()]);
+    return (result.rowCount ?? 0) > 0; // 0 when already on the list
+  }
+
+  async removeFromWatchlist(userId: string, tokenAddress: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM watchlist WHERE user_id = $1 AND token_address = $2',
+      [userId, tokenAddress.toLowerCase()]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getWatchlist(userId: string): Promise<WatchlistEntry[]> {
+    const result = await this.pool.query<WatchlistEntry>(`
+      SELECT id, user_id AS "userId", token_address AS "tokenAddress", added_at AS "addedAt"
+      FROM watchlist
+      WHERE user_id = $1
+      ORDER BY added_at DESC
+    `, [userId]);
+    return result.rows;
+  }
+
+  // Users with the token on their watchlist
+  async getTokenWatchers(tokenAddress: string): Promise<string[]> {
+    const result = await this.pool.query<{ user_id: string }>(
+      'SELECT user_id FROM watchlist WHERE token_address = $1',
+      [tokenAddress.toLowerCase()]
+    );
+    return result.rows.map(row => row.user_id);
+  }
+
+  // Portfolio methods
+  async addPosition(userId: string, tokenAddress: string, amount: number, entryPrice: number): Promise<PortfolioPosition> {
+    // SET expressions see the row as it was, so the average uses the old amount
+    const result = await this.pool.query<PortfolioPosition>(`
+      INSERT INTO portfolio_positions (user_id, token_address, amount, entry_price, added_at)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (user_id, token_address) DO UPDATE SET
+        entry_price = (portfolio_positions.amount * portfolio_positions.entry_price + EXCLUDED.amount * EXCLUDED.entry_price)
+          / (portfolio_positions.amount + EXCLUDED.amount),
+        amount = portfolio_positions.amount + EXCLUDED.amount
+      RETURNING id, user_id AS "userId", token_address AS "tokenAddress", amount, entry_price AS "entryPrice", added_at AS "addedAt"
+    `, [userId, tokenAddress.toLowerCase(), amount, entryPrice, Date.now()]);
+    return result.rows[0];
+  }
+
+  async removePosition(userId: string, tokenAddress: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM portfolio_positions WHERE user_id = $1 AND token_address = $2',
+      [userId, tokenAddress.toLowerCase()]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getPortfolio(userId: string): Promise<PortfolioPosition[]> {
+    const result = await this.pool.query<PortfolioPosition>(`
+      SELECT id, user_id AS "userId", token_address AS "tokenAddress", amount, entry_price AS "entryPrice", added_at AS "addedAt"
+      FROM portfolio_positions
+      WHERE user_id = $1
+      ORDER BY added_at ASC
+    `, [userId]);
+    return result.rows;
+  }
+
+  async setDailySummary(userId: string, enabled: boolean, since: number): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO portfolio_settings (user_id, daily_summary, last_summary_at) VALUES ($1, $2, $3)
+      ON CONFLICT (user_id) DO UPDATE SET
+        daily_summary = EXCLUDED.daily_summary,
+        last_summary_at = CASE
+          WHEN EXCLUDED.daily_summary = 1 THEN GREATEST(COALESCE(portfolio_settings.last_summary_at, 0), EXCLUDED.last_summary_at)
+          ELSE portfolio_settings.last_summary_at
+        END
+    `, [userId, enabled ? 1 : 0, enabled ? since : null]);
+  }
+
+  async getDailySummaryEnabled(userId: string): Promise<boolean> {
+    const result = await this.pool.query<{ daily_summary: number }>(
+      'SELECT daily_summary FROM portfolio_settings WHERE user_id = $1',
+      [userId]
+    );
+    return result.rows[0]?.daily_summary === 1;
+  }
+
+  async getDailySummarySubscribers(): Promise<PortfolioSubscriber[]> {
+    const result = await this.pool.query<PortfolioSubscriber>(`
+      SELECT user_id AS "userId", last_summary_at AS "lastSummaryAt"
+      FROM portfolio_settings
+      WHERE daily_summary = 1
+    `);
+    return result.rows;
+  }
+
+  async claimDailySummary(userId: string, lastSummaryAt: number | null, sentAt: number): Promise<boolean> {
+    const result = await this.pool.query(`
+      UPDATE portfolio_settings SET last_summary_at = $1
+      WHERE user_id = $2 AND last_summary_at IS NOT DISTINCT FROM $3::bigint
+    `, [sentAt, userId, lastSummaryAt]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Alert methods
+  async createAlert(userId: string, tokenAddress: string, settings: AlertSettings): Promise<number> {
+    const { expression, mode, cooldownMinutes, hysteresisPercent, delivery } = settings;
+    const { conditionType, operator, threshold, kind, windowMinutes, baselineValue } = firstCondition(expression);
+
+    const result = await this.pool.query<{ id: number }>(`
+      INSERT INTO alerts (
+        user_id, token_address, condition_type, operator, threshold,
+        kind, window_minutes, baseline_value, expression,
+        mode, cooldown_minutes, hysteresis_percent,
+        delivery_type, delivery_target, created_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING id
+    `, [
+      userId,
+      tokenAddress.toLowerCase(),
+      conditionType,
+      operator,
+      threshold,
+      kind,
+      windowMinutes,
+      baselineValue,
+      JSON.stringify(expression),
+      mode,
+      cooldownMinutes,
+      hysteresisPercent,
+      delivery.type,
+      delivery.target,
+      Date.now(),
+    ]);
+    return result.rows[0].id;
+  }
+
+  async deleteAlert(alertId: number, userId: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM alerts WHERE id = $1 AND user_id = $2', [alertId, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getUserAlerts(userId: string): Promise<Alert[]> {
+    const result = await this.pool.query<AlertRow>('SELECT * FROM alerts WHERE user_id = $1 ORDER BY created_at DESC', [userId]);
+    return result.rows.map(rowToAlert);
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    const result = await this.pool.query<AlertRow>('SELECT * FROM alerts WHERE triggered = 0');
+    return result.rows.map(rowToAlert);
+  }
+
+  // Persist changes made to an alert's conditions, e.g. captured baselines
+  async updateAlertExpression(alertId: number, expression: AlertExpression): Promise<void> {
+    await this.pool.query('UPDATE alerts SET expression = $1 WHERE id = $2', [JSON.stringify(expression), alertId]);
+  }
+
+  // Record a fire; "once" alerts are deactivated and "cross" alerts disarmed
+  async markAlertTriggered(alertId: number, mode: AlertMode, lastTriggeredAt: number | null): Promise<boolean> {
+    const result = await this.pool.query(`
+      UPDATE alerts SET
+        trigger_count = trigger_count + 1,
+        last_triggered_at = $1,
+        triggered = CASE WHEN $2::text = 'once' THEN 1 ELSE triggered END,
+        armed = CASE WHEN $2::text = 'cross' THEN 0 ELSE armed END
+      WHERE id = $3 AND last_triggered_at IS NOT DISTINCT FROM $4::bigint
+    `, [Date.now(), mode, alertId, lastTriggeredAt]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Consecutive failure count, reset by the next successful delivery
+  async recordAlertDelivery(alertId: number, delivered: boolean): Promise<void> {
+    await this.pool.query(`
+      UPDATE alerts SET delivery_failures = CASE WHEN $1::boolean THEN 0 ELSE delivery_failures + 1 END
+      WHERE id = $2
+    `, [delivered, alertId]);
+  }
+
+  async setAlertArmed(alertId: number, armed: boolean): Promise<void> {
+    await this.pool.query('UPDATE alerts SET armed = $1 WHERE id = $2', [armed ? 1 : 0, alertId]);
+  }
+
+  // Alert event methods
+  async recordAlertEvent(event: Omit<AlertEvent, 'id'>): Promise<number> {
+    const result = await this.pool.query<{ id: number }>(`
+      INSERT INTO alert_events (
+        alert_id, user_id, token_address, fired_at, expression,
+        condition_values, snapshot, sink, attempts, delivered, failure_reason
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      RETURNING id
+    `, [
+      event.alertId,
+      event.userId,
+      event.tokenAddress.toLowerCase(),
+      event.firedAt,
+      JSON.stringify(event.expression),
+      JSON.stringify(event.values),
+      JSON.stringify(event.snapshot),
+      event.sink,
+      event.attempts,
+      event.delivered ? 1 : 0,
+      event.failureReason,
+    ]);
+    return result.rows[0].id;
+  }
+
+  // Most recent events first; events outlive their alert so history stays browsable
+  async getAlertEvents(userId: string, alertId?: number, limit: number = 10): Promise<AlertEvent[]> {
+    const result = await this.pool.query<AlertEventRow>(`
+      SELECT * FROM alert_events
+      WHERE user_id = $1 AND ($2::integer IS NULL OR alert_id = $2)
+      ORDER BY fired_at DESC
+      LIMIT $3
+    `, [userId, alertId ?? null, limit]);
+
+    return result.rows.map(rowToAlertEvent);
+  }
+
+  // Feed methods
+  async getFeedSettings(guildId: string): Promise<FeedSettings | undefined> {
+    const result = await this.pool.query<FeedSettingsRow>('SELECT * FROM feed_settings WHERE guild_id = $1', [guildId]);
+    return result.rows[0] ? rowToFeedSettings(result.rows[0]) : undefined;
+  }
+
+  async getEnabledFeeds(): Promise<FeedSettings[]> {
+    const result = await this.pool.query<FeedSettingsRow>('SELECT * FROM feed_settings WHERE enabled = 1');
+    return result.rows.map(rowToFeedSettings);
+  }
+
+  async saveFeedSettings(settings: FeedSettings): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO feed_settings (
+        guild_id, channel_id, enabled, min_liquidity_usd, min_volume_usd, max_age_minutes, dex_ids
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (guild_id) DO UPDATE SET
+        channel_id = EXCLUDED.channel_id,
+        enabled = EXCLUDED.enabled,
+        min_liquidity_usd = EXCLUDED.min_liquidity_usd,
+        min_volume_usd = EXCLUDED.min_volume_usd,
+        max_age_minutes = EXCLUDED.max_age_minutes,
+        dex_ids = EXCLUDED.dex_ids
+    `, [
+      settings.guildId,
+      settings.channelId,
+      settings.enabled ? 1 : 0,
+      settings.minLiquidityUsd,
+      settings.minVolumeUsd,
+      settings.maxAgeMinutes,
+      settings.dexIds ? settings.dexIds.join(',') : null,
+    ]);
+  }
+
+  // Atomically claim a pair for posting in a guild; false if it was already posted
+  async claimFeedPost(guildId: string, pairAddress: string): Promise<boolean> {
+    const result = await this.pool.query(`
+      INSERT INTO feed_posts (guild_id, pair_address, posted_at) VALUES ($1, $2, $3)
+      ON CONFLICT DO NOTHING
+    `, [guildId, pairAddress.toLowerCase(), Date.now()]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async pruneFeedPosts(maxAgeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
+    const result = await this.pool.query('DELETE FROM feed_posts WHERE posted_at < $1', [cutoffTime]);
+    return result.rowCount ?? 0;
+  }
+
+  // Rug event methods
+  // Two instances checking the cooldown at once would both see no event, so
+  // the check and insert run under a lock for the pair and kind
+  async recordRugEvent(event: Omit<RugEvent, 'id'>, since: number): Promise<RugEvent | undefined> {
+    const pairAddress = event.pairAddress.toLowerCase();
+
+    return this.transaction(async client => {
+      await client.query('SELECT pg_advisory_xact_lock($1, hashtext($2))', [RUG_EVENT_LOCK_ID, `${pairAddress}:${event.kind}`]);
+
+      const result = await client.query<{ id: number }>(`
+        INSERT INTO rug_events (
+          pair_address, token_address, kind, detected_at, peak_value, current_value, drop_percent
+        )
+        SELECT $1, $2, $3, $4, $5, $6, $7
+        WHERE NOT EXISTS (
+          SELECT 1 FROM rug_events WHERE pair_address = $1 AND kind = $3 AND detected_at >= $8
+        )
+        RETURNING id
+      `, [
+        pairAddress,
+        event.tokenAddress.toLowerCase(),
+        event.kind,
+        event.detectedAt,
+        event.peakValue,
+        event.currentValue,
+        event.dropPercent,
+        since,
+      ]);
+      return result.rows[0] ? { ...event, id: result.rows[0].id } : undefined;
+    });
+  }
+
+  async getRugEvents(tokenAddress: string, limit: number = 5): Promise<RugEvent[]> {
+    const result = await this.pool.query<RugEventRow>(`
+      SELECT * FROM rug_events
+      WHERE token_address = $1
+      ORDER BY detected_at DESC, id DESC
+      LIMIT $2
+    `, [tokenAddress.toLowerCase(), limit]);
+    return result.rows.map(rowToRugEvent);
+  }
+
+  async pruneRugEvents(maxAgeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
+    const result = await this.pool.query('DELETE FROM rug_events WHERE detected_at < $1', [cutoffTime]);
+    return result.rowCount ?? 0;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+
+  // Runs `work` in a transaction on one pooled connection
+  private async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
+
+// Positional values for UPSERT_LAUNCH
+function upsertLaunchValues(launch: TokenLaunch): unknown[] {
+  const params = launchParams(launch);
+  return [
+    params.pairAddress, params.tokenAddress, params.name, params.symbol, params.dexId,
+    params.priceUsd, params.marketCap, params.volume24h, params.liquidityUsd,
+    params.priceChange24h, params.pairCreatedAt, params.dexscreenerUrl, params.lastUpdated,
+    params.quoteTokenAddress, params.quoteTokenSymbol, params.details,
+    params.riskScore, params.riskFactors, params.trendScore, params.trendReasons,
+  ];
+}
@@ -0,0 +1,211 @@
+import {
+  TokenLaunch,
+  ArchivedLaunch,
+  Alert,
+  AlertCondition,
+  AlertDeliveryType,
+  AlertEvent,
+  AlertExpression,
+  AlertMode,
+  FeedSettings,
+  RugEvent,
+  RugEventKind,
+} from '../types';
+
+// Row shapes and mappers shared by the storage backends, which keep the same
+// columns (JSON in text columns, 0/1 flags) so rows map the same way
+
+// Launch and tracked token rows, selected with TokenLaunch's field names
+export interface LaunchRow extends Omit<TokenLaunch, 'quoteTokenAddress' | 'quoteTokenSymbol' | 'details' | 'riskScore' | 'riskFactors' | 'trendScore' | 'trendReasons'> {
+  quoteTokenAddress: string | null;
+  quoteTokenSymbol: string | null;
+  details: string | null;
+  riskScore: number | null;
+  riskFactors: string | null;
+  // Launches only; tracked tokens aren't ranked
+  trendScore?: number | null;
+  trendReasons?: string | null;
+}
+
+export interface ArchivedLaunchRow extends Omit<ArchivedLaunch, 'riskScore'> {
+  riskScore: number | null;
+}
+
+export interface AlertRow {
+  id: number;
+  user_id: string;
+  token_address: string;
+  condition_type: AlertCondition['conditionType'];
+  operator: AlertCondition['operator'];
+  threshold: number;
+  kind: AlertCondition['kind'] | null;
+  window_minutes: number | null;
+  baseline_value: number | null;
+  expression: string | null;
+  mode: AlertMode | null;
+  cooldown_minutes: number | null;
+  hysteresis_percent: number | null;
+  armed: number | null;
+  delivery_type: AlertDeliveryType | null;
+  delivery_target: string | null;
+  delivery_failures: number | null;
+  triggered: number;
+  trigger_count: number | null;
+  last_triggered_at: number | null;
+  created_at: number;
+}
+
+export interface AlertEventRow {
+  id: number;
+  alert_id: number;
+  user_id: string;
+  token_address: string;
+  fired_at: number;
+  expression: string;
+  condition_values: string;
+  snapshot: string;
+  sink: AlertDeliveryType | null;
+  attempts: number | null;
+  delivered: number;
+  failure_reason: string | null;
+}
+
+export interface FeedSettingsRow {
+  guild_id: string;
+  channel_id: string;
+  enabled: number;
+  min_liquidity_usd: number;
+  min_volume_usd: number;
+  max_age_minutes: number | null;
+  dex_ids: string | null;
+}
+
+export interface RugEventRow {
+  id: number;
+  pair_address: string;
+  token_address: string;
+  kind: RugEventKind;
+  detected_at: number;
+  peak_value: number;
+  current_value: number;
+  drop_percent: number;
+}
+
+// Launch fields as column values; launches without details or scores leave those columns alone
+export function launchParams(launch: TokenLaunch): Record<string, unknown> {
+  return {
+    ...launch,
+    quoteTokenAddress: launch.quoteTokenAddress ?? null,
+    quoteTokenSymbol: launch.quoteTokenSymbol ?? null,
+    details: launch.details ? JSON.stringify(launch.details) : null,
+    riskScore: launch.riskScore ?? null,
+    riskFactors: launch.riskFactors ? JSON.stringify(launch.riskFactors) : null,
+    trendScore: launch.trendScore ?? null,
+    trendReasons: launch.trendReasons ? JSON.stringify(launch.trendReasons) : null,
+  };
+}
+
+export function rowToArchivedLaunch(row: ArchivedLaunchRow): ArchivedLaunch {
+  const { riskScore, ...archived } = row;
+  return riskScore === null ? archived : { ...archived, riskScore };
+}
+
+export function rowToLaunch(row: LaunchRow): TokenLaunch {
+  const { quoteTokenAddress, quoteTokenSymbol, details, riskScore, riskFactors, trendScore, trendReasons, ...launch } = row;
+  return {
+    ...launch,
+    quoteTokenAddress: quoteTokenAddress ?? undefined,
+    quoteTokenSymbol: quoteTokenSymbol ?? undefined,
+    details: details ? JSON.parse(details) : undefined,
+    riskScore: riskScore ?? undefined,
+    riskFactors: riskFactors ? JSON.parse(riskFactors) : undefined,
+    trendScore: trendScore ?? undefined,
+    trendReasons: trendReasons ? JSON.parse(trendReasons) : undefined,
+  };
+}
+
+export function rowToAlert(row: AlertRow): Alert {
+  // Alerts created before compound expressions only have the flat columns
+  const expression: AlertExpression = row.expression
+    ? JSON.parse(row.expression)
+    : {
+        type: 'condition',
+        condition: {
+          conditionType: row.condition_type,
+          operator: row.operator,
+          threshold: row.threshold,
+          kind: row.kind || 'absolute',
+          windowMinutes: row.window_minutes,
+          baselineValue: row.baseline_value,
+        },
+      };
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    tokenAddress: row.token_address,
+    expression,
+    mode: row.mode || 'once',
+    cooldownMinutes: row.cooldown_minutes,
+    hysteresisPercent: row.hysteresis_percent,
+    armed: row.armed !== 0,
+    delivery: { type: row.delivery_type || 'dm', target: row.delivery_target },
+    deliveryFailures: row.delivery_failures || 0,
+    triggered: row.triggered === 1,
+    triggerCount: row.trigger_count || 0,
+    lastTriggeredAt: row.last_triggered_at,
+    createdAt: row.created_at,
+  };
+}
+
+export function rowToAlertEvent(row: AlertEventRow): AlertEvent {
+  return {
+    id: row.id,
+    alertId: row.alert_id,
+    userId: row.user_id,
+    tokenAddress: row.token_address,
+    firedAt: row.fired_at,
+    expression: JSON.parse(row.expression),
+    values: JSON.parse(row.condition_values),
+    snapshot: JSON.parse(row.snapshot),
+    sink: row.sink || 'dm',
+    attempts: row.attempts || 1,
+    delivered: row.delivered === 1,
+    failureReason: row.failure_reason,
+  };
+}
+
+export function rowToFeedSettings(row: FeedSettingsRow): FeedSettings {
+  return {
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    enabled: row.enabled === 1,
+    minLiquidityUsd: row.min_liquidity_usd,
+    minVolumeUsd: row.min_volume_usd,
+    maxAgeMinutes: row.max_age_minutes,
+    dexIds: row.dex_ids ? row.dex_ids.split(',') : null,
+  };
+}
+
+export function rowToRugEvent(row: RugEventRow): RugEvent {
+  return {
+    id: row.id,
+    pairAddress: row.pair_address,
+    tokenAddress: row.token_address,
+    kind: row.kind,
+    detectedAt: row.detected_at,
+    peakValue: row.peak_value,
+    currentValue: row.current_value,
+    dropPercent: row.drop_percent,
+  };
+}
+
+// The flat condition columns hold an alert's first condition so older builds
+// reading the table still see a sensible alert
+export function firstCondition(expression: AlertExpression): AlertCondition {
+  let first = expression;
+  while (first.type !== 'condition') {
+    first = first.children[0];
+  }
+  return first.condition;
+}
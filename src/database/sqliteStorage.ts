@@ -0,0 +1,776 @@
+import Database from 'better-sqlite3';
+import {
+  TokenLaunch,
+  ArchivedLaunch,
+  WatchlistEntry,
+  PortfolioPosition,
+  PortfolioSubscriber,
+  Alert,
+  AlertEvent,
+  AlertExpression,
+  AlertMode,
+  AlertSettings,
+  FeedSettings,
+  RugEvent,
+  SortOption,
+  TrendingSort,
+} from '../types';
+import { LaunchStorage } from './storage';
+import {
+  AlertEventRow,
+  AlertRow,
+  ArchivedLaunchRow,
+  FeedSettingsRow,
+  LaunchRow,
+  RugEventRow,
+  firstCondition,
+  launchParams,
+  rowToAlert,
+  rowToAlertEvent,
+  rowToArchivedLaunch,
+  rowToFeedSettings,
+  rowToLaunch,
+  rowToRugEvent,
+} from './rows';
+
+// Tokens whose data is kept fresh and never pruned
+const ACTIVE_OR_WATCHED_TOKENS = `
+  SELECT token_address FROM alerts WHERE triggered = 0
+  UNION
+  SELECT token_address FROM watchlist
+  UNION
+  SELECT token_address FROM portfolio_positions
+`;
+
+/**
+ * The default storage backend: the same SQLite file as the local
+ * `LaunchStore`, which owns the connection and its migrations.
+ */
+export class SqliteStorage implements LaunchStorage {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  // Launch methods
+  async upsertLaunch(launch: TokenLaunch): Promise<void> {
+    this.upsertLaunchStatement().run(launchParams(launch));
+  }
+
+  // Returns the launches whose pair wasn't in the table before this call
+  async upsertLaunches(launches: TokenLaunch[]): Promise<TokenLaunch[]> {
+    const exists = this.db.prepare('SELECT 1 FROM launches WHERE pair_address = ?');
+    const upsertStmt = this.upsertLaunchStatement();
+
+    const upsert = this.db.transaction((items: TokenLaunch[]) => {
+      const inserted: TokenLaunch[] = [];
+      for (const launch of items) {
+        if (!exists.get(launch.pairAddress)) {
+          inserted.push(launch);
+        }
+        upsertStmt.run(launchParams(launch));
+      }
+      return inserted;
+    });
+    return upsert(launches);
+  }
+
+  async getLaunches(timeframeHours: number, sortBy: SortOption, limit: number = 15, offset: number = 0): Promise<TokenLaunch[]> {
+    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
+
+    let orderClause: string;
+    switch (sortBy) {
+      case 'mcap':
+        orderClause = 'market_cap DESC NULLS LAST';
+        break;
+      case 'age':
+        orderClause = 'pair_created_at DESC';
+        break;
+      case 'volume':
+      default:
+        orderClause = 'volume_24h DESC NULLS LAST';
+        break;
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT
+        pair_address as pairAddress,
+        token_address as tokenAddress,
+        name,
+        symbol,
+        dex_id as dexId,
+        price_usd as priceUsd,
+        market_cap as marketCap,
+        volume_24h as volume24h,
+        liquidity_usd as liquidityUsd,
+        price_change_24h as priceChange24h,
+        pair_created_at as pairCreatedAt,
+        dexscreener_url as dexscreenerUrl,
+        last_updated as lastUpdated,
+        quote_token_address as quoteTokenAddress,
+        quote_token_symbol as quoteTokenSymbol,
+        details,
+        risk_score as riskScore,
+        risk_factors as riskFactors,
+        trend_score as trendScore,
+        trend_reasons as trendReasons
+      FROM launches
+      WHERE pair_created_at >= ?
+      ORDER BY ${orderClause}
+      LIMIT ? OFFSET ?
+    `);
+
+    return (stmt.all(cutoffTime, limit, offset) as LaunchRow[]).map(row => rowToLaunch(row));
+  }
+
+  async countLaunches(timeframeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
+    const stmt = this.db.prepare('SELECT COUNT(*) as count FROM launches WHERE pair_created_at >= ?');
+    return (stmt.get(cutoffTime) as { count: number }).count;
+  }
+
+  async getLaunchByToken(tokenAddress: string): Promise<TokenLaunch | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT
+        pair_address as pairAddress,
+        token_address as tokenAddress,
+        name,
+        symbol,
+        dex_id as dexId,
+        price_usd as priceUsd,
+        market_cap as marketCap,
+        volume_24h as volume24h,
+        liquidity_usd as liquidityUsd,
+        price_change_24h as priceChange24h,
+        pair_created_at as pairCreatedAt,
+        dexscreener_url as dexscreenerUrl,
+        last_updated as lastUpdated,
+        quote_token_address as quoteTokenAddress,
+        quote_token_symbol as quoteTokenSymbol,
+        details,
+        risk_score as riskScore,
+        risk_factors as riskFactors,
+        trend_score as trendScore,
+        trend_reasons as trendReasons
+      FROM launches
+      WHERE token_address = ?
+      ORDER BY volume_24h DESC
+      LIMIT 1
+    `);
+
+    const row = stmt.get(tokenAddress.toLowerCase()) as LaunchRow | undefined;
+    return row ? rowToLaunch(row) : undefined;
+  }
+
+  async getTrendingLaunches(
+    timeframeHours: number,
+    sortBy: TrendingSort,
+    limit: number = 10,
+    offset: number = 0,
+    halfLifeMinutes: number = 30
+  ): Promise<TokenLaunch[]> {
+    const now = Date.now();
+    const cutoffTime = now - timeframeHours * 60 * 60 * 1000;
+
+    let orderClause: string;
+    switch (sortBy) {
+      case 'volume':
+        orderClause = 'volume_24h DESC';
+        break;
+      case 'change':
+        orderClause = 'price_change_24h DESC NULLS LAST';
+        break;
+      case 'score':
+      default:
+        // Momentum score, halved for every half-life since the pair was last polled
+        orderClause = `COALESCE(trend_score, 0) * pow(0.5, CAST(${now} - last_updated AS REAL) / ${halfLifeMinutes * 60 * 1000}) DESC, volume_24h DESC`;
+        break;
+    }
+
+    const stmt = this.db.prepare(`
+      SELECT
+        pair_address as pairAddress,
+        token_address as tokenAddress,
+        name,
+        symbol,
+        dex_id as dexId,
+        price_usd as priceUsd,
+        market_cap as marketCap,
+        volume_24h as volume24h,
+        liquidity_usd as liquidityUsd,
+        price_change_24h as priceChange24h,
+        pair_created_at as pairCreatedAt,
+        dexscreener_url as dexscreenerUrl,
+        last_updated as lastUpdated,
+        quote_token_address as quoteTokenAddress,
+        quote_token_symbol as quoteTokenSymbol,
+        details,
+        risk_score as riskScore,
+        risk_factors as riskFactors,
+        trend_score as trendScore,
+        trend_reasons as trendReasons
+      FROM launches
+      WHERE pair_created_at >= ?
+        AND volume_24h > 0
+        AND liquidity_usd > 0
+      ORDER BY ${orderClause}
+      LIMIT ? OFFSET ?
+    `);
+
+    return (stmt.all(cutoffTime, limit, offset) as LaunchRow[]).map(row => rowToLaunch(row));
+  }
+
+  async countTrendingLaunches(timeframeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
+    const stmt = this.db.prepare(`
+      SELECT COUNT(*) as count FROM launches
+      WHERE pair_created_at >= ? AND volume_24h > 0 AND liquidity_usd > 0
+    `);
+    return (stmt.get(cutoffTime) as { count: number }).count;
+  }
+
+  async archiveOldLaunches(maxAgeHours: number): Promise<number> {
+    const now = Date.now();
+    const cutoffTime = now - maxAgeHours * 60 * 60 * 1000;
+    const expired = `
+      pair_created_at < @cutoffTime
+      AND token_address NOT IN (${ACTIVE_OR_WATCHED_TOKENS})
+    `;
+
+    // A pair archived before and stored again since is archived with its newer state
+    const archiveStmt = this.db.prepare(`
+      INSERT OR REPLACE INTO launch_archive (
+        pair_address, token_address, name, symbol, dex_id,
+        price_usd, market_cap, volume_24h, liquidity_usd,
+        price_change_24h, pair_created_at, dexscreener_url, last_updated,
+        risk_score, archived_at
+      )
+      SELECT
+        pair_address, token_address, name, symbol, dex_id,
+        price_usd, market_cap, volume_24h, liquidity_usd,
+        price_change_24h, pair_created_at, dexscreener_url, last_updated,
+        risk_score, @now
+      FROM launches
+      WHERE ${expired}
+    `);
+    const deleteStmt = this.db.prepare(`DELETE FROM launches WHERE ${expired}`);
+
+    const archive = this.db.transaction(() => {
+      archiveStmt.run({ cutoffTime, now });
+      return deleteStmt.run({ cutoffTime }).changes;
+    });
+    return archive();
+  }
+
+  // Archive methods
+  async getArchivedLaunches(query: string, limit: number = 10): Promise<ArchivedLaunch[]> {
+    const exact = query.trim().toLowerCase();
+    const escaped = exact.replace(/[\\%_]/g, '\\$&');
+
+    const stmt = this.db.prepare(`
+      SELECT
+        pair_address as pairAddress,
+        token_address as tokenAddress,
+        name,
+        symbol,
+        dex_id as dexId,
+        price_usd as priceUsd,
+        market_cap as marketCap,
+        volume_24h as volume24h,
+        liquidity_usd as liquidityUsd,
+        price_change_24h as priceChange24h,
+        pair_created_at as pairCreatedAt,
+        dexscreener_url as dexscreenerUrl,
+        last_updated as lastUpdated,
+        risk_score as riskScore,
+        archived_at as archivedAt
+      FROM launch_archive
+      WHERE token_address = @exact
+        OR pair_address = @exact
+        OR LOWER(symbol) = @exact
+        OR name LIKE @contains ESCAPE '\\'
+      ORDER BY last_updated DESC
+      LIMIT @limit
+    `);
+
+    return (stmt.all({ exact, contains: `%${escaped}%`, limit }) as ArchivedLaunchRow[]).map(row => rowToArchivedLaunch(row));
+  }
+
+  async pruneArchive(maxAgeDays: number): Promise<number> {
+    const cutoffTime = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    return this.db.prepare('DELETE FROM launch_archive WHERE archived_at < ?').run(cutoffTime).changes;
+  }
+
+  // Tracked token methods
+  async upsertTrackedTokens(launches: TokenLaunch[]): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO tracked_tokens (
+        token_address, pair_address, name, symbol, dex_id,
+        price_usd, market_cap, volume_24h, liquidity_usd,
+        price_change_24h, pair_created_at, dexscreener_url, last_updated,
+        quote_token_address, quote_token_symbol, details,
+        risk_score, risk_factors
+      ) VALUES (
+        @tokenAddress, @pairAddress, @name, @symbol, @dexId,
+        @priceUsd, @marketCap, @volume24h, @liquidityUsd,
+        @priceChange24h, @pairCreatedAt, @dexscreenerUrl, @lastUpdated,
+        @quoteTokenAddress, @quoteTokenSymbol, @details,
+        @riskScore, @riskFactors
+      )
+    `);
+
+    const upsert = this.db.transaction((items: TokenLaunch[]) => {
+      for (const launch of items) {
+        stmt.run(launchParams(launch));
+      }
+    });
+    upsert(launches);
+  }
+
+  async getTrackedToken(tokenAddress: string): Promise<TokenLaunch | undefined> {
+    const stmt = this.db.prepare(`
+      SELECT
+        pair_address as pairAddress,
+        token_address as tokenAddress,
+        name,
+        symbol,
+        dex_id as dexId,
+        price_usd as priceUsd,
+        market_cap as marketCap,
+        volume_24h as volume24h,
+        liquidity_usd as liquidityUsd,
+        price_change_24h as priceChange24h,
+        pair_created_at as pairCreatedAt,
+        dexscreener_url as dexscreenerUrl,
+        last_updated as lastUpdated,
+        quote_token_address as quoteTokenAddress,
+        quote_token_symbol as quoteTokenSymbol,
+        details,
+        risk_score as riskScore,
+        risk_factors as riskFactors
+      FROM tracked_tokens
+      WHERE token_address = ?
+    `);
+
+    const row = stmt.get(tokenAddress.toLowerCase()) as LaunchRow | undefined;
+    return row ? rowToLaunch(row) : undefined;
+  }
+
+  // Freshest data for a token from either the launch feed or tracked tokens
+  async getLatestTokenData(tokenAddress: string): Promise<TokenLaunch | undefined> {
+    const launch = await this.getLaunchByToken(tokenAddress);
+    const tracked = await this.getTrackedToken(tokenAddress);
+
+    if (launch && tracked) {
+      return tracked.lastUpdated > launch.lastUpdated ? tracked : launch;
+    }
+    return launch || tracked;
+  }
+
+  // Launched or tracked tokens whose symbol or address starts with, or whose name contains, the query
+  async searchTokens(query: string, limit: number = 25): Promise<Pick<TokenLaunch, 'tokenAddress' | 'name' | 'symbol'>[]> {
+    const escaped = query.trim().toLowerCase().replace(/[\\%_]/g, '\\$&');
+
+    const stmt = this.db.prepare(`
+      SELECT token_address as tokenAddress, name, symbol, MAX(volume_24h) as volume24h
+      FROM (
+        SELECT token_address, name, symbol, volume_24h FROM launches
+        UNION ALL
+        SELECT token_address, name, symbol, volume_24h FROM tracked_tokens
+      )
+      WHERE token_address LIKE @prefix ESCAPE '\\'
+        OR symbol LIKE @prefix ESCAPE '\\'
+        OR name LIKE @contains ESCAPE '\\'
+      GROUP BY token_address
+      ORDER BY LOWER(symbol) = @exact DESC, volume24h DESC
+      LIMIT @limit
+    `);
+
+    const rows = stmt.all({
+      prefix: `${escaped}%`,
+      contains: `%${escaped}%`,
+      exact: query.trim().toLowerCase(),
+      limit,
+    }) as (Pick<TokenLaunch, 'tokenAddress' | 'name' | 'symbol'> & { volume24h: number })[];
+
+    return rows.map(({ tokenAddress, name, symbol }) => ({ tokenAddress, name, symbol }));
+  }
+
+  // Tokens with an active alert, or on anyone's watchlist or portfolio
+  async getWatchedTokenAddresses(): Promise<string[]> {
+    const stmt = this.db.prepare(ACTIVE_OR_WATCHED_TOKENS);
+    return (stmt.all() as { token_address: string }[]).map(row => row.token_address);
+  }
+
+  async pruneUnwatchedTokens(): Promise<number> {
+    const stmt = this.db.prepare(`
+      DELETE FROM tracked_tokens
+      WHERE token_address NOT IN (${ACTIVE_OR_WATCHED_TOKENS})
+    `);
+    return stmt.run().changes;
+  }
+
+  // Watchlist methods
+  async addToWatchlist(userId: string, tokenAddress: string): Promise<boolean> {
+    try {
+      const stmt = this.db.prepare(`
+        INSERT INTO watchlist (user_id, token_address, added_at)
+        VALUES (?, ?, ?)
+      `);
+      stmt.run(userId, tokenAddress.toLowerCase(), Date.now());
+      return true;
+    } catch (error: any) {
+      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        return false; // Already exists
+      }
+      throw error;
+    }
+  }
+
+  async removeFromWatchlist(userId: string, tokenAddress: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      DELETE FROM watchlist WHERE user_id = ? AND token_address = ?
+    `);
+    const result = stmt.run(userId, tokenAddress.toLowerCase());
+    return result.changes > 0;
+  }
+
+  async getWatchlist(userId: string): Promise<WatchlistEntry[]> {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id as userId, token_address as tokenAddress, added_at as addedAt
+      FROM watchlist
+      WHERE user_id = ?
+      ORDER BY added_at DESC
+    `);
+    return stmt.all(userId) as WatchlistEntry[];
+  }
+
+  // Users with the token on their watchlist
+  async getTokenWatchers(tokenAddress: string): Promise<string[]> {
+    const stmt = this.db.prepare('SELECT user_id FROM watchlist WHERE token_address = ?');
+    return (stmt.all(tokenAddress.toLowerCase()) as { user_id: string }[]).map(row => row.user_id);
+  }
+
+  // Portfolio methods
+  async addPosition(userId: string, tokenAddress: string, amount: number, entryPrice: number): Promise<PortfolioPosition> {
+    // SET expressions see the row as it was, so the average uses the old amount
+    const upsertStmt = this.db.prepare(`
+      INSERT INTO portfolio_positions (user_id, token_address, amount, entry_price, added_at)
+      VALUES (@userId, @tokenAddress, @amount, @entryPrice, @now)
+      ON CONFLICT(user_id, token_address) DO UPDATE SET
+        entry_price = (amount * entry_price + excluded.amount * excluded.entry_price) / (amount + excluded.amount),
+        amount = amount + excluded.amount
+    `);
+    const selectStmt = this.db.prepare(`
+      SELECT id, user_id as userId, token_address as tokenAddress, amount, entry_price as entryPrice, added_at as addedAt
+      FROM portfolio_positions
+      WHERE user_id = ? AND token_address = ?
+    `);
+
+    const add = this.db.transaction(() => {
+      upsertStmt.run({ userId, tokenAddress: tokenAddress.toLowerCase(), amount, entryPrice, now: Date.now() });
+      return selectStmt.get(userId, tokenAddress.toLowerCase()) as PortfolioPosition;
+    });
+    return add();
+  }
+
+  async removePosition(userId: string, tokenAddress: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM portfolio_positions WHERE user_id = ? AND token_address = ?');
+    return stmt.run(userId, tokenAddress.toLowerCase()).changes > 0;
+  }
+
+  async getPortfolio(userId: string): Promise<PortfolioPosition[]> {
+    const stmt = this.db.prepare(`
+      SELECT id, user_id as userId, token_address as tokenAddress, amount, entry_price as entryPrice, added_at as addedAt
+      FROM portfolio_positions
+      WHERE user_id = ?
+      ORDER BY added_at ASC
+    `);
+    return stmt.all(userId) as PortfolioPosition[];
+  }
+
+  async setDailySummary(userId: string, enabled: boolean, since: number): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO portfolio_settings (user_id, daily_summary, last_summary_at) VALUES (@userId, @enabled, @since)
+      ON CONFLICT(user_id) DO UPDATE SET
+        daily_summary = excluded.daily_summary,
+        last_summary_at = CASE
+          WHEN excluded.daily_summary = 1 THEN MAX(COALESCE(last_summary_at, 0), excluded.last_summary_at)
+          ELSE last_summary_at
+        END
+    `).run({ userId, enabled: enabled ? 1 : 0, since: enabled ? since : null });
+  }
+
+  async getDailySummaryEnabled(userId: string): Promise<boolean> {
+    const row = this.db.prepare('SELECT daily_summary FROM portfolio_settings WHERE user_id = ?')
+      .get(userId) as { daily_summary: number } | undefined;
+    return row?.daily_summary === 1;
+  }
+
+  async getDailySummarySubscribers(): Promise<PortfolioSubscriber[]> {
+    const stmt = this.db.prepare(`
+      SELECT user_id as userId, last_summary_at as lastSummaryAt
+      FROM portfolio_settings
+      WHERE daily_summary = 1
+    `);
+    return stmt.all() as PortfolioSubscriber[];
+  }
+
+  async claimDailySummary(userId: string, lastSummaryAt: number | null, sentAt: number): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE portfolio_settings SET last_summary_at = ?
+      WHERE user_id = ? AND last_summary_at IS ?
+    `);
+    return stmt.run(sentAt, userId, lastSummaryAt).changes > 0;
+  }
+
+  // Alert methods
+  async createAlert(userId: string, tokenAddress: string, settings: AlertSettings): Promise<number> {
+    const { expression, mode, cooldownMinutes, hysteresisPercent, delivery } = settings;
+
+    const { conditionType, operator, threshold, kind, windowMinutes, baselineValue } = firstCondition(expression);
+
+    const stmt = this.db.prepare(`
+      INSERT INTO alerts (
+        user_id, token_address, condition_type, operator, threshold,
+        kind, window_minutes, baseline_value, expression,
+        mode, cooldown_minutes, hysteresis_percent,
+        delivery_type, delivery_target, created_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      userId,
+      tokenAddress.toLowerCase(),
+      conditionType,
+      operator,
+      threshold,
+      kind,
+      windowMinutes,
+      baselineValue,
+      JSON.stringify(expression),
+      mode,
+      cooldownMinutes,
+      hysteresisPercent,
+      delivery.type,
+      delivery.target,
+      Date.now()
+    );
+    return result.lastInsertRowid as number;
+  }
+
+  async deleteAlert(alertId: number, userId: string): Promise<boolean> {
+    const stmt = this.db.prepare('DELETE FROM alerts WHERE id = ? AND user_id = ?');
+    const result = stmt.run(alertId, userId);
+    return result.changes > 0;
+  }
+
+  async getUserAlerts(userId: string): Promise<Alert[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM alerts
+      WHERE user_id = ?
+      ORDER BY created_at DESC
+    `);
+    return (stmt.all(userId) as AlertRow[]).map(row => rowToAlert(row));
+  }
+
+  async getActiveAlerts(): Promise<Alert[]> {
+    const stmt = this.db.prepare('SELECT * FROM alerts WHERE triggered = 0');
+    return (stmt.all() as AlertRow[]).map(row => rowToAlert(row));
+  }
+
+  // Persist changes made to an alert's conditions, e.g. captured baselines
+  async updateAlertExpression(alertId: number, expression: AlertExpression): Promise<void> {
+    const stmt = this.db.prepare('UPDATE alerts SET expression = ? WHERE id = ?');
+    stmt.run(JSON.stringify(expression), alertId);
+  }
+
+  // Record a fire; "once" alerts are deactivated and "cross" alerts disarmed
+  async markAlertTriggered(alertId: number, mode: AlertMode, lastTriggeredAt: number | null): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      UPDATE alerts SET
+        trigger_count = trigger_count + 1,
+        last_triggered_at = ?,
+        triggered = CASE WHEN ? = 'once' THEN 1 ELSE triggered END,
+        armed = CASE WHEN ? = 'cross' THEN 0 ELSE armed END
+      WHERE id = ? AND last_triggered_at IS ?
+    `);
+    return stmt.run(Date.now(), mode, mode, alertId, lastTriggeredAt).changes > 0;
+  }
+
+  // Consecutive failure count, reset by the next successful delivery
+  async recordAlertDelivery(alertId: number, delivered: boolean): Promise<void> {
+    const stmt = this.db.prepare(`
+      UPDATE alerts SET delivery_failures = CASE WHEN ? THEN 0 ELSE delivery_failures + 1 END
+      WHERE id = ?
+    `);
+    stmt.run(delivered ? 1 : 0, alertId);
+  }
+
+  async setAlertArmed(alertId: number, armed: boolean): Promise<void> {
+    const stmt = this.db.prepare('UPDATE alerts SET armed = ? WHERE id = ?');
+    stmt.run(armed ? 1 : 0, alertId);
+  }
+
+  // Alert event methods
+  async recordAlertEvent(event: Omit<AlertEvent, 'id'>): Promise<number> {
+    const stmt = this.db.prepare(`
+      INSERT INTO alert_events (
+        alert_id, user_id, token_address, fired_at, expression,
+        condition_values, snapshot, sink, attempts, delivered, failure_reason
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      event.alertId,
+      event.userId,
+      event.tokenAddress.toLowerCase(),
+      event.firedAt,
+      JSON.stringify(event.expression),
+      JSON.stringify(event.values),
+      JSON.stringify(event.snapshot),
+      event.sink,
+      event.attempts,
+      event.delivered ? 1 : 0,
+      event.failureReason
+    );
+    return result.lastInsertRowid as number;
+  }
+
+  // Most recent events first; events outlive their alert so history stays browsable
+  async getAlertEvents(userId: string, alertId?: number, limit: number = 10): Promise<AlertEvent[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM alert_events
+      WHERE user_id = ? AND (? IS NULL OR alert_id = ?)
+      ORDER BY fired_at DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(userId, alertId ?? null, alertId ?? null, limit) as AlertEventRow[];
+
+    return rows.map(rowToAlertEvent);
+  }
+
+  // Feed methods
+  async getFeedSettings(guildId: string): Promise<FeedSettings | undefined> {
+    const stmt = this.db.prepare('SELECT * FROM feed_settings WHERE guild_id = ?');
+    const row = stmt.get(guildId) as FeedSettingsRow | undefined;
+    return row ? rowToFeedSettings(row) : undefined;
+  }
+
+  async getEnabledFeeds(): Promise<FeedSettings[]> {
+    const stmt = this.db.prepare('SELECT * FROM feed_settings WHERE enabled = 1');
+    return (stmt.all() as FeedSettingsRow[]).map(rowToFeedSettings);
+  }
+
+  async saveFeedSettings(settings: FeedSettings): Promise<void> {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO feed_settings (
+        guild_id, channel_id, enabled, min_liquidity_usd, min_volume_usd, max_age_minutes, dex_ids
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    stmt.run(
+      settings.guildId,
+      settings.channelId,
+      settings.enabled ? 1 : 0,
+      settings.minLiquidityUsd,
+      settings.minVolumeUsd,
+      settings.maxAgeMinutes,
+      settings.dexIds ? settings.dexIds.join(',') : null
+    );
+  }
+
+  // Atomically claim a pair for posting in a guild; false if it was already posted
+  async claimFeedPost(guildId: string, pairAddress: string): Promise<boolean> {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO feed_posts (guild_id, pair_address, posted_at) VALUES (?, ?, ?)
+    `);
+    return stmt.run(guildId, pairAddress.toLowerCase(), Date.now()).changes > 0;
+  }
+
+  async pruneFeedPosts(maxAgeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
+    const stmt = this.db.prepare('DELETE FROM feed_posts WHERE posted_at < ?');
+    return stmt.run(cutoffTime).changes;
+  }
+
+  // Rug event methods
+  // The cooldown check and the insert are one statement, so they can't interleave
+  async recordRugEvent(event: Omit<RugEvent, 'id'>, since: number): Promise<RugEvent | undefined> {
+    const pairAddress = event.pairAddress.toLowerCase();
+    const stmt = this.db.prepare(`
+      INSERT INTO rug_events (
+        pair_address, token_address, kind, detected_at, peak_value, current_value, drop_percent
+      )
+      SELECT ?, ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (
+        SELECT 1 FROM rug_events WHERE pair_address = ? AND kind = ? AND detected_at >= ?
+      )
+    `);
+    const result = stmt.run(
+      pairAddress,
+      event.tokenAddress.toLowerCase(),
+      event.kind,
+      event.detectedAt,
+      event.peakValue,
+      event.currentValue,
+      event.dropPercent,
+      pairAddress,
+      event.kind,
+      since
+    );
+    return result.changes > 0 ? { ...event, id: result.lastInsertRowid as number } : undefined;
+  }
+
+  async getRugEvents(tokenAddress: string, limit: number = 5): Promise<RugEvent[]> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM rug_events
+      WHERE token_address = ?
+      ORDER BY detected_at DESC, id DESC
+      LIMIT ?
+    `);
+    const rows = stmt.all(tokenAddress.toLowerCase(), limit) as RugEventRow[];
+    return rows.map(rowToRugEvent);
+  }
+
+  async pruneRugEvents(maxAgeHours: number): Promise<number> {
+    const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
+    const stmt = this.db.prepare('DELETE FROM rug_events WHERE detected_at < ?');
+    return stmt.run(cutoffTime).changes;
+  }
+
+  // The connection belongs to the LaunchStore, which closes it
+  async close(): Promise<void> {}
+
+  private upsertLaunchStatement(): Database.Statement {
+    return this.db.prepare(`
+      INSERT INTO launches (
+        pair_address, token_address, name, symbol, dex_id,
+        price_usd, market_cap, volume_24h, liquidity_usd,
+        price_change_24h, pair_created_at, dexscreener_url, last_updated,
+        quote_token_address, quote_token_symbol, details,
+        risk_score, risk_factors, trend_score, trend_reasons
+      ) VALUES (
+        @pairAddress, @tokenAddress, @name, @symbol, @dexId,
+        @priceUsd, @marketCap, @volume24h, @liquidityUsd,
+        @priceChange24h, @pairCreatedAt, @dexscreenerUrl, @lastUpdated,
+        @quoteTokenAddress, @quoteTokenSymbol, @details,
+        @riskScore, @riskFactors, @trendScore, @trendReasons
+      )
+      ON CONFLICT(pair_address) DO UPDATE SET
+        price_usd = @priceUsd,
+        market_cap = @marketCap,
+        volume_24h = @volume24h,
+        liquidity_usd = @liquidityUsd,
+        price_change_24h = @priceChange24h,
+        last_updated = @lastUpdated,
+        quote_token_address = COALESCE(@quoteTokenAddress, quote_token_address),
+        quote_token_symbol = COALESCE(@quoteTokenSymbol, quote_token_symbol),
+        details = COALESCE(@details, details),
+        risk_score = COALESCE(@riskScore, risk_score),
+        risk_factors = COALESCE(@riskFactors, risk_factors),
+        trend_score = COALESCE(@trendScore, trend_score),
+        trend_reasons = COALESCE(@trendReasons, trend_reasons)
+    `);
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  TokenLaunch,
+  ArchivedLaunch,
+  WatchlistEntry,
+  PortfolioPosition,
+  PortfolioSubscriber,
+  Alert,
+  AlertEvent,
+  AlertExpression,
+  AlertMode,
+  AlertSettings,
+  FeedSettings,
+  RugEvent,
+  SortOption,
+  TrendingSort,
+} from '../types';
+import { config } from '../utils/config';
+import { LaunchStore } from './store';
+import { PostgresStorage } from './postgresStorage';
+
+/**
+ * Launches, tracked tokens, watchlists, alerts, feeds and rug events: the
+ * data users see and own, which several bot instances can share through one
+ * network database. Methods are async so a network-backed store fits behind it.
+ *
+ * Everything else (snapshots, discovery state) is per-instance working data
+ * kept in the local `LaunchStore`.
+ */
+export interface LaunchStorage {
+  // Launches
+  upsertLaunch(launch: TokenLaunch): Promise<void>;
+  // Returns the launches whose pair wasn't stored before this call
+  upsertLaunches(launches: TokenLaunch[]): Promise<TokenLaunch[]>;
+  getLaunches(timeframeHours: number, sortBy: SortOption, limit?: number, offset?: number): Promise<TokenLaunch[]>;
+  countLaunches(timeframeHours: number): Promise<number>;
+  getLaunchByToken(tokenAddress: string): Promise<TokenLaunch | undefined>;
+  getTrendingLaunches(
+    timeframeHours: number,
+    sortBy: TrendingSort,
+    limit?: number,
+    offset?: number,
+    halfLifeMinutes?: number
+  ): Promise<TokenLaunch[]>;
+  countTrendingLaunches(timeframeHours: number): Promise<number>;
+  // Moves pairs created more than `maxAgeHours` ago to the archive, keeping
+  // those of watched, alerted or held tokens; returns how many were moved
+  archiveOldLaunches(maxAgeHours: number): Promise<number>;
+
+  // Archive
+  // Pairs of a token or pair address, or whose symbol is or name contains the query, latest first
+  getArchivedLaunches(query: string, limit?: number): Promise<ArchivedLaunch[]>;
+  pruneArchive(maxAgeDays: number): Promise<number>;
+
+  // Tracked tokens
+  upsertTrackedTokens(launches: TokenLaunch[]): Promise<void>;
+  getTrackedToken(tokenAddress: string): Promise<TokenLaunch | undefined>;
+  // Freshest data for a token from either the launch feed or tracked tokens
+  getLatestTokenData(tokenAddress: string): Promise<TokenLaunch | undefined>;
+  searchTokens(query: string, limit?: number): Promise<Pick<TokenLaunch, 'tokenAddress' | 'name' | 'symbol'>[]>;
+  // Tokens with an active alert, or on anyone's watchlist or portfolio
+  getWatchedTokenAddresses(): Promise<string[]>;
+  pruneUnwatchedTokens(): Promise<number>;
+
+  // Watchlists; adding returns false if the token was already on the list
+  addToWatchlist(userId: string, tokenAddress: string): Promise<boolean>;
+  removeFromWatchlist(userId: string, tokenAddress: string): Promise<boolean>;
+  getWatchlist(userId: string): Promise<WatchlistEntry[]>;
+  getTokenWatchers(tokenAddress: string): Promise<string[]>;
+
+  // Portfolios; adding to a held token merges into one position at the
+  // amount-weighted average entry price, which is returned
+  addPosition(userId: string, tokenAddress: string, amount: number, entryPrice: number): Promise<PortfolioPosition>;
+  removePosition(userId: string, tokenAddress: string): Promise<boolean>;
+  getPortfolio(userId: string): Promise<PortfolioPosition[]>;
+  // Turning the summary on counts everything up to `since` as summarised,
+  // so the first DM goes out at the next summary time
+  setDailySummary(userId: string, enabled: boolean, since: number): Promise<void>;
+  getDailySummaryEnabled(userId: string): Promise<boolean>;
+  getDailySummarySubscribers(): Promise<PortfolioSubscriber[]>;
+  // Records a summary as sent unless one was sent since `lastSummaryAt` was
+  // read, e.g. by another instance; returns whether this caller recorded it
+  claimDailySummary(userId: string, lastSummaryAt: number | null, sentAt: number): Promise<boolean>;
+
+  // Alerts
+  createAlert(userId: string, tokenAddress: string, settings: AlertSettings): Promise<number>;
+  deleteAlert(alertId: number, userId: string): Promise<boolean>;
+  getUserAlerts(userId: string): Promise<Alert[]>;
+  getActiveAlerts(): Promise<Alert[]>;
+  updateAlertExpression(alertId: number, expression: AlertExpression): Promise<void>;
+  // Records a fire unless the alert fired again since `lastTriggeredAt` was
+  // read, e.g. on another instance; returns whether this caller recorded it
+  markAlertTriggered(alertId: number, mode: AlertMode, lastTriggeredAt: number | null): Promise<boolean>;
+  recordAlertDelivery(alertId: number, delivered: boolean): Promise<void>;
+  setAlertArmed(alertId: number, armed: boolean): Promise<void>;
+  recordAlertEvent(event: Omit<AlertEvent, 'id'>): Promise<number>;
+  getAlertEvents(userId: string, alertId?: number, limit?: number): Promise<AlertEvent[]>;
+
+  // Launch feeds, one per guild
+  getFeedSettings(guildId: string): Promise<FeedSettings | undefined>;
+  getEnabledFeeds(): Promise<FeedSettings[]>;
+  saveFeedSettings(settings: FeedSettings): Promise<void>;
+  // Claims a pair for posting in a guild; false if it was already posted,
+  // e.g. by another instance
+  claimFeedPost(guildId: string, pairAddress: string): Promise<boolean>;
+  pruneFeedPosts(maxAgeHours: number): Promise<number>;
+
+  // Rug events
+  // Records the event unless the pair had one of the same kind at or after
+  // `since`, e.g. flagged by another instance; returns it if recorded
+  recordRugEvent(event: Omit<RugEvent, 'id'>, since: number): Promise<RugEvent | undefined>;
+  // Events across all of a token's pairs, newest first
+  getRugEvents(tokenAddress: string, limit?: number): Promise<RugEvent[]>;
+  pruneRugEvents(maxAgeHours: number): Promise<number>;
+
+  close(): Promise<void>;
+}
+
+// The configured backend; SQLite shares the local store's database file
+export async function createStorage(store: LaunchStore): Promise<LaunchStorage> {
+  if (config.database.backend === 'postgres') {
+    if (!config.database.url) {
+      throw new Error('DATABASE_URL is required when STORAGE_BACKEND is postgres');
+    }
+    return PostgresStorage.connect(config.database.url);
+  }
+  return store.createSqliteStorage();
+}
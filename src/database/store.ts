@@ -1,8 +1,34 @@
 import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
-import { TokenLaunch, WatchlistEntry, Alert, SortOption } from '../types';
+import { formatMigration, runMigrations } from './migrator';
+import { SqliteStorage } from './sqliteStorage';
+import {
+  TokenLaunch,
+  LaunchSnapshot,
+  DiscoveredPair,
+  SearchTerm,
+  SearchTermOrigin,
+  SearchTermStatus,
+} from '../types';
 
+interface SearchTermRow {
+  term: string;
+  status: SearchTermStatus;
+  origin: SearchTermOrigin;
+  weight: number;
+  runs: number;
+  empty_runs: number;
+  new_pairs: number;
+  last_used_at: number | null;
+  created_at: number;
+}
+
+/**
+ * This instance's SQLite database: snapshots and discovery state. It also
+ * holds launches, watchlists, alerts, feeds and rug events when they aren't
+ * kept in a shared `LaunchStorage` backend (see `createSqliteStorage`).
+ */
 export class LaunchStore {
   private db: Database.Database;
 
@@ -15,287 +41,269 @@ export class LaunchStore {
 
     this.db = new Database(dbPath);
     this.db.pragma('journal_mode = WAL');
-    this.createTables();
-  }
-
-  private createTables(): void {
-    // Main launches table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS launches (
-        pair_address TEXT PRIMARY KEY,
-        token_address TEXT NOT NULL,
-        name TEXT,
-        symbol TEXT,
-        dex_id TEXT,
-        price_usd REAL,
-        market_cap REAL,
-        volume_24h REAL,
-        liquidity_usd REAL,
-        price_change_24h REAL,
-        pair_created_at INTEGER,
-        dexscreener_url TEXT,
-        last_updated INTEGER
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_created_at ON launches(pair_created_at);
-      CREATE INDEX IF NOT EXISTS idx_volume ON launches(volume_24h);
-      CREATE INDEX IF NOT EXISTS idx_market_cap ON launches(market_cap);
-      CREATE INDEX IF NOT EXISTS idx_token_address ON launches(token_address);
-    `);
 
-    // Watchlist table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS watchlist (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id TEXT NOT NULL,
-        token_address TEXT NOT NULL,
-        added_at INTEGER,
-        UNIQUE(user_id, token_address)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_watchlist_user ON watchlist(user_id);
-    `);
+    // Throws rather than start on a database a newer release has migrated
+    for (const migration of runMigrations(this.db)) {
+      console.log(`Applied database migration ${formatMigration(migration)}`);
+    }
+  }
 
-    // Alerts table
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS alerts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        user_id TEXT NOT NULL,
-        token_address TEXT NOT NULL,
-        condition_type TEXT NOT NULL,
-        operator TEXT NOT NULL,
-        threshold REAL NOT NULL,
-        triggered INTEGER DEFAULT 0,
-        created_at INTEGER
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_alerts_user ON alerts(user_id);
-      CREATE INDEX IF NOT EXISTS idx_alerts_token ON alerts(token_address);
-      CREATE INDEX IF NOT EXISTS idx_alerts_triggered ON alerts(triggered);
-    `);
+  // Launches, watchlists, alerts, feeds and rug events kept in this same file, the default storage backend
+  createSqliteStorage(): SqliteStorage {
+    return new SqliteStorage(this.db);
   }
 
-  // Launch methods
-  upsertLaunch(launch: TokenLaunch): void {
+  // Snapshot methods
+  insertSnapshots(launches: TokenLaunch[], timestamp: number = Date.now()): void {
     const stmt = this.db.prepare(`
-      INSERT INTO launches (
-        pair_address, token_address, name, symbol, dex_id,
-        price_usd, market_cap, volume_24h, liquidity_usd,
-        price_change_24h, pair_created_at, dexscreener_url, last_updated
-      ) VALUES (
-        @pairAddress, @tokenAddress, @name, @symbol, @dexId,
-        @priceUsd, @marketCap, @volume24h, @liquidityUsd,
-        @priceChange24h, @pairCreatedAt, @dexscreenerUrl, @lastUpdated
-      )
-      ON CONFLICT(pair_address) DO UPDATE SET
-        price_usd = @priceUsd,
-        market_cap = @marketCap,
-        volume_24h = @volume24h,
-        liquidity_usd = @liquidityUsd,
-        price_change_24h = @priceChange24h,
-        last_updated = @lastUpdated
+      INSERT OR REPLACE INTO launch_snapshots (
+        pair_address, timestamp, price_usd, market_cap, volume_24h, liquidity_usd
+      ) VALUES (?, ?, ?, ?, ?, ?)
     `);
 
-    stmt.run(launch);
-  }
-
-  upsertLaunches(launches: TokenLaunch[]): void {
-    const upsert = this.db.transaction((items: TokenLaunch[]) => {
+    const insert = this.db.transaction((items: TokenLaunch[]) => {
       for (const launch of items) {
-        this.upsertLaunch(launch);
+        stmt.run(
+          launch.pairAddress,
+          timestamp,
+          launch.priceUsd,
+          launch.marketCap,
+          launch.volume24h,
+          launch.liquidityUsd
+        );
       }
     });
-    upsert(launches);
+    insert(launches);
   }
 
-  getLaunches(timeframeHours: number, sortBy: SortOption, limit: number = 15): TokenLaunch[] {
-    const cutoffTime = Date.now() - timeframeHours * 60 * 60 * 1000;
-
-    let orderClause: string;
-    switch (sortBy) {
-      case 'mcap':
-        orderClause = 'market_cap DESC NULLS LAST';
-        break;
-      case 'age':
-        orderClause = 'pair_created_at DESC';
-        break;
-      case 'volume':
-      default:
-        orderClause = 'volume_24h DESC NULLS LAST';
-        break;
-    }
-
+  getSnapshots(pairAddress: string, windowMs: number): LaunchSnapshot[] {
+    const cutoffTime = Date.now() - windowMs;
     const stmt = this.db.prepare(`
       SELECT
         pair_address as pairAddress,
-        token_address as tokenAddress,
-        name,
-        symbol,
-        dex_id as dexId,
+        timestamp,
         price_usd as priceUsd,
         market_cap as marketCap,
         volume_24h as volume24h,
-        liquidity_usd as liquidityUsd,
-        price_change_24h as priceChange24h,
-        pair_created_at as pairCreatedAt,
-        dexscreener_url as dexscreenerUrl,
-        last_updated as lastUpdated
-      FROM launches
-      WHERE pair_created_at >= ?
-      ORDER BY ${orderClause}
-      LIMIT ?
+        liquidity_usd as liquidityUsd
+      FROM launch_snapshots
+      WHERE pair_address = ? AND timestamp >= ?
+      ORDER BY timestamp ASC
     `);
-
-    return stmt.all(cutoffTime, limit) as TokenLaunch[];
+    return stmt.all(pairAddress.toLowerCase(), cutoffTime) as LaunchSnapshot[];
   }
 
-  getLaunchByToken(tokenAddress: string): TokenLaunch | undefined {
+  // Latest snapshot taken at or before the given time
+  getSnapshotAt(pairAddress: string, timestamp: number): LaunchSnapshot | undefined {
     const stmt = this.db.prepare(`
       SELECT
         pair_address as pairAddress,
-        token_address as tokenAddress,
-        name,
-        symbol,
-        dex_id as dexId,
+        timestamp,
         price_usd as priceUsd,
         market_cap as marketCap,
         volume_24h as volume24h,
-        liquidity_usd as liquidityUsd,
-        price_change_24h as priceChange24h,
-        pair_created_at as pairCreatedAt,
-        dexscreener_url as dexscreenerUrl,
-        last_updated as lastUpdated
-      FROM launches
-      WHERE token_address = ?
-      ORDER BY volume_24h DESC
+        liquidity_usd as liquidityUsd
+      FROM launch_snapshots
+      WHERE pair_address = ? AND timestamp <= ?
+      ORDER BY timestamp DESC
       LIMIT 1
     `);
+    return stmt.get(pairAddress.toLowerCase(), timestamp) as LaunchSnapshot | undefined;
+  }
+
+  /**
+   * Apply the snapshot retention policy: rows older than retentionHours are
+   * deleted, and rows older than fullResolutionHours are thinned to the last
+   * snapshot in each downsampleMinutes bucket per pair.
+   */
+  pruneSnapshots(retentionHours: number, fullResolutionHours: number, downsampleMinutes: number): number {
+    const now = Date.now();
+    const retentionCutoff = now - retentionHours * 60 * 60 * 1000;
+    const fullResolutionCutoff = now - fullResolutionHours * 60 * 60 * 1000;
+    const bucketMs = Math.max(1, Math.floor(downsampleMinutes * 60 * 1000));
+
+    const prune = this.db.transaction(() => {
+      const expired = this.db.prepare('DELETE FROM launch_snapshots WHERE timestamp < ?')
+        .run(retentionCutoff);
+
+      const thinned = this.db.prepare(`
+        DELETE FROM launch_snapshots
+        WHERE timestamp < @cutoff
+          AND rowid NOT IN (
+            SELECT MAX(rowid) FROM launch_snapshots
+            WHERE timestamp < @cutoff
+            GROUP BY pair_address, timestamp / CAST(@bucketMs AS INTEGER)
+          )
+      `).run({ cutoff: fullResolutionCutoff, bucketMs });
+
+      return expired.changes + thinned.changes;
+    });
+
+    return prune();
+  }
 
-    return stmt.get(tokenAddress.toLowerCase()) as TokenLaunch | undefined;
+  // On-chain discovery methods
+  getChainCursor(name: string): number | undefined {
+    const stmt = this.db.prepare('SELECT block_number FROM chain_cursors WHERE name = ?');
+    const row = stmt.get(name) as { block_number: number } | undefined;
+    return row?.block_number;
   }
 
-  getTrendingLaunches(limit: number = 10): TokenLaunch[] {
-    // Trending = high volume + high price change in last 24h
-    const cutoffTime = Date.now() - 24 * 60 * 60 * 1000;
+  setChainCursor(name: string, blockNumber: number): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO chain_cursors (name, block_number, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET block_number = excluded.block_number, updated_at = excluded.updated_at
+    `);
+    stmt.run(name, blockNumber, Date.now());
+  }
 
+  // Returns how many pairs weren't already known
+  addDiscoveredPairs(pairs: DiscoveredPair[]): number {
+    const stmt = this.db.prepare(`
+      INSERT OR IGNORE INTO discovered_pairs (
+        pair_address, token_address, quote_address, factory, block_number, discovered_at, next_check_at
+      ) VALUES (
+        @pairAddress, @tokenAddress, @quoteAddress, @factory, @blockNumber, @discoveredAt, @discoveredAt
+      )
+    `);
+
+    const insert = this.db.transaction((items: DiscoveredPair[]) => {
+      let inserted = 0;
+      for (const pair of items) {
+        inserted += stmt.run(pair).changes;
+      }
+      return inserted;
+    });
+    return insert(pairs);
+  }
+
+  // Pending pairs whose next market data lookup is due, oldest first
+  getDueDiscoveredPairs(limit: number): DiscoveredPair[] {
     const stmt = this.db.prepare(`
       SELECT
         pair_address as pairAddress,
         token_address as tokenAddress,
-        name,
-        symbol,
-        dex_id as dexId,
-        price_usd as priceUsd,
-        market_cap as marketCap,
-        volume_24h as volume24h,
-        liquidity_usd as liquidityUsd,
-        price_change_24h as priceChange24h,
-        pair_created_at as pairCreatedAt,
-        dexscreener_url as dexscreenerUrl,
-        last_updated as lastUpdated
-      FROM launches
-      WHERE pair_created_at >= ?
-        AND volume_24h > 0
-        AND liquidity_usd > 0
-      ORDER BY (volume_24h * ABS(COALESCE(price_change_24h, 0) + 1)) DESC
+        quote_address as quoteAddress,
+        factory,
+        block_number as blockNumber,
+        discovered_at as discoveredAt
+      FROM discovered_pairs
+      WHERE next_check_at <= ?
+      ORDER BY next_check_at ASC
       LIMIT ?
     `);
-
-    return stmt.all(cutoffTime, limit) as TokenLaunch[];
+    return stmt.all(Date.now(), limit) as DiscoveredPair[];
   }
 
-  pruneOldLaunches(maxAgeHours: number = 48): number {
-    const cutoffTime = Date.now() - maxAgeHours * 60 * 60 * 1000;
-    const stmt = this.db.prepare('DELETE FROM launches WHERE pair_created_at < ?');
-    const result = stmt.run(cutoffTime);
-    return result.changes;
+  // Push the next lookup back exponentially: 1m, 2m, 4m... capped at maxDelayMinutes
+  rescheduleDiscoveredPairs(pairAddresses: string[], maxDelayMinutes: number): void {
+    const stmt = this.db.prepare(`
+      UPDATE discovered_pairs
+      SET attempts = attempts + 1,
+          next_check_at = @now + MIN(@maxDelayMs, 60000 * (1 << MIN(attempts, 20)))
+      WHERE pair_address = @pairAddress
+    `);
+
+    const reschedule = this.db.transaction((addresses: string[]) => {
+      const now = Date.now();
+      for (const pairAddress of addresses) {
+        stmt.run({ pairAddress, now, maxDelayMs: maxDelayMinutes * 60 * 1000 });
+      }
+    });
+    reschedule(pairAddresses);
   }
 
-  // Watchlist methods
-  addToWatchlist(userId: string, tokenAddress: string): boolean {
-    try {
-      const stmt = this.db.prepare(`
-        INSERT INTO watchlist (user_id, token_address, added_at)
-        VALUES (?, ?, ?)
-      `);
-      stmt.run(userId, tokenAddress.toLowerCase(), Date.now());
-      return true;
-    } catch (error: any) {
-      if (error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
-        return false; // Already exists
+  removeDiscoveredPairs(pairAddresses: string[]): void {
+    const stmt = this.db.prepare('DELETE FROM discovered_pairs WHERE pair_address = ?');
+    const remove = this.db.transaction((addresses: string[]) => {
+      for (const pairAddress of addresses) {
+        stmt.run(pairAddress);
       }
-      throw error;
-    }
+    });
+    remove(pairAddresses);
   }
 
-  removeFromWatchlist(userId: string, tokenAddress: string): boolean {
-    const stmt = this.db.prepare(`
-      DELETE FROM watchlist WHERE user_id = ? AND token_address = ?
-    `);
-    const result = stmt.run(userId, tokenAddress.toLowerCase());
-    return result.changes > 0;
+  pruneDiscoveredPairs(maxAgeMinutes: number): number {
+    const cutoffTime = Date.now() - maxAgeMinutes * 60 * 1000;
+    const stmt = this.db.prepare('DELETE FROM discovered_pairs WHERE discovered_at < ?');
+    return stmt.run(cutoffTime).changes;
   }
 
-  getWatchlist(userId: string): WatchlistEntry[] {
-    const stmt = this.db.prepare(`
-      SELECT id, user_id as userId, token_address as tokenAddress, added_at as addedAt
-      FROM watchlist
-      WHERE user_id = ?
-      ORDER BY added_at DESC
-    `);
-    return stmt.all(userId) as WatchlistEntry[];
+  // Search term methods
+  getSearchTerms(statuses?: SearchTermStatus[]): SearchTerm[] {
+    const where = statuses ? `WHERE status IN (${statuses.map(() => '?').join(', ')})` : '';
+    const stmt = this.db.prepare(`SELECT * FROM search_terms ${where} ORDER BY weight DESC, term ASC`);
+    return (stmt.all(...(statuses || [])) as SearchTermRow[]).map(row => this.rowToSearchTerm(row));
+  }
+
+  getSearchTerm(term: string): SearchTerm | undefined {
+    const stmt = this.db.prepare('SELECT * FROM search_terms WHERE term = ?');
+    const row = stmt.get(term) as SearchTermRow | undefined;
+    return row ? this.rowToSearchTerm(row) : undefined;
   }
 
-  // Alert methods
-  createAlert(
-    userId: string,
-    tokenAddress: string,
-    conditionType: 'price' | 'volume' | 'mcap',
-    operator: '>' | '<' | '=',
-    threshold: number
-  ): number {
+  // Returns how many terms weren't already in the pool
+  addSearchTerms(terms: string[], origin: SearchTermOrigin): number {
     const stmt = this.db.prepare(`
-      INSERT INTO alerts (user_id, token_address, condition_type, operator, threshold, created_at)
-      VALUES (?, ?, ?, ?, ?, ?)
+      INSERT OR IGNORE INTO search_terms (term, origin, created_at) VALUES (?, ?, ?)
     `);
-    const result = stmt.run(userId, tokenAddress.toLowerCase(), conditionType, operator, threshold, Date.now());
-    return result.lastInsertRowid as number;
+
+    const insert = this.db.transaction((items: string[]) => {
+      const now = Date.now();
+      let inserted = 0;
+      for (const term of items) {
+        inserted += stmt.run(term, origin, now).changes;
+      }
+      return inserted;
+    });
+    return insert(terms);
   }
 
-  deleteAlert(alertId: number, userId: string): boolean {
-    const stmt = this.db.prepare('DELETE FROM alerts WHERE id = ? AND user_id = ?');
-    const result = stmt.run(alertId, userId);
-    return result.changes > 0;
+  // Also resets the empty-run streak, so a revived term gets a fair chance again
+  setSearchTermStatus(term: string, status: SearchTermStatus, origin: SearchTermOrigin = 'admin'): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO search_terms (term, status, origin, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT(term) DO UPDATE SET status = excluded.status, empty_runs = 0
+    `);
+    stmt.run(term, status, origin, Date.now());
   }
 
-  getUserAlerts(userId: string): Alert[] {
+  // Fold one search's result into the term's moving average
+  recordSearchTermRun(term: string, newPairs: number, decay: number): void {
     const stmt = this.db.prepare(`
-      SELECT
-        id, user_id as userId, token_address as tokenAddress,
-        condition_type as conditionType, operator, threshold,
-        triggered, created_at as createdAt
-      FROM alerts
-      WHERE user_id = ?
-      ORDER BY created_at DESC
+      UPDATE search_terms
+      SET runs = runs + 1,
+          new_pairs = new_pairs + @newPairs,
+          empty_runs = CASE WHEN @newPairs > 0 THEN 0 ELSE empty_runs + 1 END,
+          weight = weight * @decay + @newPairs * (1 - @decay),
+          last_used_at = @now
+      WHERE term = @term
     `);
-    return stmt.all(userId) as Alert[];
+    stmt.run({ term, newPairs, decay, now: Date.now() });
   }
 
-  getActiveAlerts(): Alert[] {
+  // Drop active terms that keep finding nothing; returns the dropped terms
+  dropEmptySearchTerms(maxEmptyRuns: number): string[] {
     const stmt = this.db.prepare(`
-      SELECT
-        id, user_id as userId, token_address as tokenAddress,
-        condition_type as conditionType, operator, threshold,
-        triggered, created_at as createdAt
-      FROM alerts
-      WHERE triggered = 0
+      UPDATE search_terms SET status = 'dropped'
+      WHERE status = 'active' AND empty_runs >= ?
+      RETURNING term
     `);
-    return stmt.all() as Alert[];
+    return (stmt.all(maxEmptyRuns) as { term: string }[]).map(row => row.term);
   }
 
-  markAlertTriggered(alertId: number): void {
-    const stmt = this.db.prepare('UPDATE alerts SET triggered = 1 WHERE id = ?');
-    stmt.run(alertId);
+  private rowToSearchTerm(row: SearchTermRow): SearchTerm {
+    return {
+      term: row.term,
+      status: row.status,
+      origin: row.origin,
+      weight: row.weight,
+      runs: row.runs,
+      emptyRuns: row.empty_runs,
+      newPairs: row.new_pairs,
+      lastUsedAt: row.last_used_at,
+      createdAt: row.created_at,
+    };
   }
 
   close(): void {
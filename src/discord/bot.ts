@@ -1,42 +1,75 @@
-import { Client, GatewayIntentBits, Message, Events } from 'discord.js';
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  GatewayIntentBits,
+  Message,
+  MessageComponentInteraction,
+  MessageFlags,
+  Events,
+} from 'discord.js';
+import { LaunchStorage } from '../database/storage';
 import { LaunchStore } from '../database/store';
-import { handleLaunches } from './commands/launches';
+import { config } from '../utils/config';
+import { CommandContext, interactionContext, messageContext } from './commandContext';
+import { SLASH_COMMANDS, handleAutocomplete, isEphemeralCommand, slashCommandArgs } from './slashCommands';
+import { decodeListingId } from './pagination';
+import { handleLaunches, handleLaunchesComponent } from './commands/launches';
 import { handleTrack } from './commands/track';
 import { handleAlert } from './commands/alert';
+import { handlePortfolio } from './commands/portfolio';
 import { handleInfo } from './commands/info';
-import { handleTrending } from './commands/trending';
+import { handleArchive } from './commands/archive';
+import { handleChart } from './commands/chart';
+import { handleTrending, handleTrendingComponent } from './commands/trending';
+import { handleFeed } from './commands/feed';
+import { handleAdmin } from './commands/admin';
 import { handleHelp } from './commands/help';
 
 const COMMAND_PREFIX = '!';
 
 export class DiscordBot {
   private client: Client;
+  private storage: LaunchStorage;
   private store: LaunchStore;
   private isReady: boolean = false;
 
-  constructor(store: LaunchStore) {
+  constructor(storage: LaunchStorage, store: LaunchStore) {
+    this.storage = storage;
     this.store = store;
 
-    this.client = new Client({
-      intents: [
-        GatewayIntentBits.Guilds,
-        GatewayIntentBits.GuildMessages,
-        GatewayIntentBits.MessageContent,
-        GatewayIntentBits.DirectMessages,
-      ],
-    });
+    // Message Content is a privileged intent, only needed for `!` prefix commands
+    const intents = [GatewayIntentBits.Guilds];
+    if (config.discord.prefixCommands) {
+      intents.push(GatewayIntentBits.GuildMessages, GatewayIntentBits.MessageContent, GatewayIntentBits.DirectMessages);
+    }
+
+    this.client = new Client({ intents });
 
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
-    this.client.once(Events.ClientReady, (client) => {
+    this.client.once(Events.ClientReady, async (client) => {
       console.log(`Discord bot logged in as ${client.user.tag}`);
       this.isReady = true;
+      await this.registerSlashCommands(client);
     });
 
-    this.client.on(Events.MessageCreate, async (message) => {
-      await this.handleMessage(message);
+    if (config.discord.prefixCommands) {
+      this.client.on(Events.MessageCreate, async (message) => {
+        await this.handleMessage(message);
+      });
+    }
+
+    this.client.on(Events.InteractionCreate, async (interaction) => {
+      if (interaction.isChatInputCommand()) {
+        await this.handleSlashCommand(interaction);
+      } else if (interaction.isAutocomplete()) {
+        await this.handleAutocomplete(interaction);
+      } else if (interaction.isButton() || interaction.isStringSelectMenu()) {
+        await this.handleComponent(interaction);
+      }
     });
 
     this.client.on(Events.Error, (error) => {
@@ -57,43 +90,120 @@ export class DiscordBot {
 
     if (!command) return;
 
+    await this.runCommand(command, args, messageContext(message));
+  }
+
+  private async handleSlashCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      // Acknowledge straight away; Discord drops interactions not answered within 3 seconds
+      await interaction.deferReply(isEphemeralCommand(interaction.commandName) ? { flags: MessageFlags.Ephemeral } : {});
+    } catch (error) {
+      console.error(`Failed to acknowledge /${interaction.commandName}:`, error);
+      return;
+    }
+
+    await this.runCommand(interaction.commandName, slashCommandArgs(interaction), interactionContext(interaction));
+  }
+
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      await handleAutocomplete(interaction, this.storage);
+    } catch (error) {
+      console.error(`Error handling autocomplete for /${interaction.commandName}:`, error);
+    }
+  }
+
+  // Buttons and select menus on paginated listings
+  private async handleComponent(interaction: MessageComponentInteraction): Promise<void> {
+    const listing = decodeListingId(interaction.customId);
+    if (!listing) return;
+
+    try {
+      // Paging changes the message for everyone, so only the person who asked may do it
+      if (listing.state.userId !== interaction.user.id) {
+        await interaction.reply({
+          content: `Only the person who ran this listing can page through it. Try \`/${listing.state.command}\` yourself.`,
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      switch (listing.state.command) {
+        case 'launches':
+          await handleLaunchesComponent(interaction, listing.state, listing.control, this.storage);
+          break;
+
+        case 'trending':
+          await handleTrendingComponent(interaction, listing.state, listing.control, this.storage);
+          break;
+      }
+    } catch (error) {
+      console.error(`Error handling component "${interaction.customId}":`, error);
+    }
+  }
+
+  // Shared by the `!` prefix and slash command front-ends
+  private async runCommand(command: string, args: string[], ctx: CommandContext): Promise<void> {
     try {
       switch (command) {
         case 'launches':
         case 'launch':
         case 'l':
-          await handleLaunches(message, args, this.store);
+          await handleLaunches(ctx, args, this.storage);
           break;
 
         case 'track':
         case 'watchlist':
         case 'watch':
         case 'w':
-          await handleTrack(message, args, this.store);
+          await handleTrack(ctx, args, this.storage);
           break;
 
         case 'alert':
         case 'alerts':
         case 'a':
-          await handleAlert(message, args, this.store);
+          await handleAlert(ctx, args, this.storage);
+          break;
+
+        case 'portfolio':
+        case 'pf':
+          await handlePortfolio(ctx, args, this.storage);
           break;
 
         case 'info':
         case 'i':
         case 'token':
-          await handleInfo(message, args, this.store);
+          await handleInfo(ctx, args, this.storage, this.store);
+          break;
+
+        case 'chart':
+        case 'c':
+          await handleChart(ctx, args, this.storage, this.store);
+          break;
+
+        case 'archive':
+        case 'archived':
+          await handleArchive(ctx, args, this.storage);
           break;
 
         case 'trending':
         case 'trend':
         case 't':
-          await handleTrending(message, args, this.store);
+          await handleTrending(ctx, args, this.storage);
+          break;
+
+        case 'feed':
+          await handleFeed(ctx, args, this.storage);
+          break;
+
+        case 'admin':
+          await handleAdmin(ctx, args, this.storage, this.store);
           break;
 
         case 'help':
         case 'h':
         case 'commands':
-          await handleHelp(message);
+          await handleHelp(ctx);
           break;
 
         default:
@@ -104,13 +214,28 @@ export class DiscordBot {
       console.error(`Error handling command "${command}":`, error);
 
       try {
-        await message.reply('An error occurred while processing your command. Please try again.');
+        await ctx.reply('An error occurred while processing your command. Please try again.');
       } catch (replyError) {
         console.error('Failed to send error message:', replyError);
       }
     }
   }
 
+  private async registerSlashCommands(client: Client<true>): Promise<void> {
+    const guildId = config.discord.guildId;
+
+    try {
+      if (guildId) {
+        await client.application.commands.set(SLASH_COMMANDS, guildId);
+      } else {
+        await client.application.commands.set(SLASH_COMMANDS);
+      }
+      console.log(`Registered ${SLASH_COMMANDS.length} slash commands ${guildId ? `in guild ${guildId}` : 'globally'}`);
+    } catch (error) {
+      console.error('Failed to register slash commands:', error);
+    }
+  }
+
   async start(token: string): Promise<void> {
     console.log('Starting Discord bot...');
     await this.client.login(token);
@@ -0,0 +1,57 @@
+import { BaseMessageOptions, ChatInputCommandInteraction, Guild, GuildMember, Message } from 'discord.js';
+
+export type CommandReply = string | BaseMessageOptions;
+
+/**
+ * Everything a command handler needs from whoever invoked it, so the same
+ * handler serves both `!` prefix messages and slash commands.
+ */
+export interface CommandContext {
+  userId: string;
+  guild: Guild | null;
+  member: GuildMember | null;
+  reply(response: CommandReply): Promise<Message>;
+  // Let the user know a slow response is on its way
+  sendTyping(): Promise<void>;
+}
+
+export function messageContext(message: Message): CommandContext {
+  return {
+    userId: message.author.id,
+    guild: message.guild,
+    member: message.member,
+    reply: (response) => message.reply(response),
+    sendTyping: async () => {
+      if ('sendTyping' in message.channel) {
+        await message.channel.sendTyping();
+      }
+    },
+  };
+}
+
+export function interactionContext(interaction: ChatInputCommandInteraction): CommandContext {
+  return {
+    userId: interaction.user.id,
+    guild: interaction.guild,
+    member: interaction.inCachedGuild() ? interaction.member : null,
+    reply: async (response) => {
+      const options = typeof response === 'string' ? { content: response } : response;
+
+      // The first reply fills in the deferred "thinking..." response, later ones follow up
+      if (interaction.replied) {
+        return interaction.followUp(options);
+      }
+      if (interaction.deferred) {
+        return interaction.editReply(options);
+      }
+
+      await interaction.reply(options);
+      return interaction.fetchReply();
+    },
+    sendTyping: async () => {
+      if (!interaction.deferred && !interaction.replied) {
+        await interaction.deferReply();
+      }
+    },
+  };
+}
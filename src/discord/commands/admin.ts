@@ -0,0 +1,237 @@
+import { EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { LaunchStore } from '../../database/store';
+import { SearchTerm, SearchTermStatus, TokenLaunch } from '../../types';
+import { config } from '../../utils/config';
+import { truncateAddress } from '../../utils/formatters';
+import { dexScreenerService } from '../../services/dexscreener';
+import { launchFilter } from '../../services/launchFilter';
+import { marketData } from '../../services/marketData';
+import { normalizeSearchTerm } from '../../services/searchTermPool';
+
+// Active terms listed by `!admin terms`
+const TOP_TERMS_SHOWN = 15;
+
+// Discord embed field values are capped at 1024 characters
+const MAX_FIELD_LENGTH = 1024;
+
+const TERM_STATUS_BY_ACTION: Record<string, SearchTermStatus> = {
+  pin: 'pinned',
+  unpin: 'active',
+  ban: 'banned',
+  unban: 'active',
+};
+
+// Pairs of a token explained by `!admin filters test`
+const MAX_PAIRS_TESTED = 5;
+
+const TERMS_USAGE =
+  '**Usage:**\n' +
+  '• `!admin terms` - Show the discovery search term pool\n' +
+  '• `!admin terms pin <term>` - Search a term every cycle\n' +
+  '• `!admin terms ban <term>` - Never search or learn a term\n' +
+  '• `!admin terms unpin|unban <term>` - Return a term to the weighted rotation';
+
+const FILTERS_USAGE =
+  '**Usage:**\n' +
+  '• `!admin filters` - Show where the launch filter rules come from\n' +
+  '• `!admin filters reload` - Reload the rules file now\n' +
+  '• `!admin filters test <contract>` - Explain which rule accepts or rejects each of a token\'s pairs';
+
+/**
+ * Bot-wide settings, restricted to the users in BOT_ADMIN_IDS since they
+ * affect every server
+ */
+export async function handleAdmin(ctx: CommandContext, args: string[], storage: LaunchStorage, store: LaunchStore): Promise<void> {
+  if (!config.discord.adminUserIds.includes(ctx.userId)) {
+    await ctx.reply(config.discord.adminUserIds.length === 0
+      ? 'No bot admins are configured (set `BOT_ADMIN_IDS`).'
+      : 'Only bot admins can use `!admin`.');
+    return;
+  }
+
+  const area = args[0]?.toLowerCase();
+
+  switch (area) {
+    case 'terms':
+      await handleTerms(ctx, args.slice(1), store);
+      return;
+
+    case 'filters':
+      await handleFilters(ctx, args.slice(1), storage);
+      return;
+
+    default:
+      await ctx.reply(`${TERMS_USAGE}\n${FILTERS_USAGE}`);
+  }
+}
+
+async function handleTerms(ctx: CommandContext, args: string[], store: LaunchStore): Promise<void> {
+  const action = args[0]?.toLowerCase();
+
+  if (!action || action === 'list') {
+    await showSearchTerms(ctx, store);
+    return;
+  }
+
+  const status = TERM_STATUS_BY_ACTION[action];
+  const term = normalizeSearchTerm(args.slice(1).join(' '));
+  if (!status || !term) {
+    await ctx.reply(TERMS_USAGE);
+    return;
+  }
+
+  const existing = store.getSearchTerm(term);
+  if (action === 'unpin' && existing?.status !== 'pinned') {
+    await ctx.reply(`"${term}" isn't pinned.`);
+    return;
+  }
+  if (action === 'unban' && existing?.status !== 'banned') {
+    await ctx.reply(`"${term}" isn't banned.`);
+    return;
+  }
+
+  store.setSearchTermStatus(term, status);
+
+  switch (status) {
+    case 'pinned':
+      await ctx.reply(`Pinned "${term}": it will be searched every discovery cycle.`);
+      break;
+    case 'banned':
+      await ctx.reply(`Banned "${term}": it won't be searched or learned again.`);
+      break;
+    default:
+      await ctx.reply(`"${term}" is back in the weighted rotation.`);
+  }
+}
+
+async function showSearchTerms(ctx: CommandContext, store: LaunchStore): Promise<void> {
+  const terms = store.getSearchTerms();
+  const withStatus = (status: SearchTermStatus) => terms.filter(term => term.status === status);
+
+  const pinned = withStatus('pinned');
+  const active = withStatus('active');
+  const banned = withStatus('banned');
+  const dropped = withStatus('dropped');
+
+  const topActive = active.slice(0, TOP_TERMS_SHOWN).map(formatTermStats).join('\n');
+  const strategies = Object.entries(dexScreenerService.getDiscoveryStats())
+    .map(([strategy, stats]) =>
+      `**${strategy}**: ${stats.newItems} new of ${stats.found} found in ${stats.runs} runs` +
+      (stats.failures > 0 ? `, ${stats.failures} failed` : '') +
+      (stats.skipped > 0 ? `, ${stats.skipped} skipped` : ''))
+    .join('\n');
+
+  const embed = new EmbedBuilder()
+    .setTitle('Discovery Search Terms')
+    .setColor(0x0052FF)
+    .setDescription(
+      `${active.length} active, ${pinned.length} pinned, ${banned.length} banned, ${dropped.length} dropped.\n` +
+      'Weight is the moving average of new Base pairs per search.'
+    )
+    .addFields(
+      { name: '📌 Pinned', value: truncateField(pinned.map(formatTermStats).join('\n') || 'None'), inline: false },
+      { name: `🔎 Top ${Math.min(TOP_TERMS_SHOWN, active.length)} Active`, value: truncateField(topActive || 'None'), inline: false },
+      { name: '🚫 Banned', value: truncateField(banned.map(term => term.term).join(', ') || 'None'), inline: false },
+      { name: '📊 Discovery Since Startup', value: truncateField(strategies || 'No discovery cycles yet'), inline: false }
+    )
+    .setTimestamp();
+
+  await ctx.reply({ embeds: [embed] });
+}
+
+async function handleFilters(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
+  const action = args[0]?.toLowerCase();
+
+  switch (action) {
+    case undefined:
+    case 'show': {
+      const loadedAt = launchFilter.lastLoadedAt;
+      await ctx.reply(loadedAt
+        ? `Filter rules loaded from \`${launchFilter.path}\` <t:${Math.floor(loadedAt / 1000)}:R>. Edits to the file apply automatically.`
+        : `No rules file at \`${launchFilter.path}\`, using the built-in rules. Create it to override them.`);
+      return;
+    }
+
+    case 'reload':
+      try {
+        launchFilter.load();
+        await ctx.reply(launchFilter.lastLoadedAt
+          ? `Reloaded filter rules from \`${launchFilter.path}\`.`
+          : `No rules file at \`${launchFilter.path}\`, using the built-in rules.`);
+      } catch (error: any) {
+        await ctx.reply(`Couldn't load \`${launchFilter.path}\`, keeping the previous rules: ${error.message}`);
+      }
+      return;
+
+    case 'test':
+      await testFilters(ctx, args[1], storage);
+      return;
+
+    default:
+      await ctx.reply(FILTERS_USAGE);
+  }
+}
+
+async function testFilters(ctx: CommandContext, tokenAddress: string | undefined, storage: LaunchStorage): Promise<void> {
+  if (!tokenAddress || !isValidAddress(tokenAddress)) {
+    await ctx.reply('**Usage:** `!admin filters test <contract_address>`');
+    return;
+  }
+
+  // Fresh provider data has the quote token, so prefer it over the stored launch
+  let pairs: TokenLaunch[] = [];
+  try {
+    await ctx.sendTyping();
+    pairs = await marketData.getTokenPairs(tokenAddress);
+  } catch (error) {
+    console.error('Error fetching pairs for filter test:', error);
+  }
+
+  if (pairs.length === 0) {
+    const stored = await storage.getLatestTokenData(tokenAddress.toLowerCase());
+    pairs = stored ? [stored] : [];
+  }
+
+  if (pairs.length === 0) {
+    await ctx.reply('No Base pairs found for that token.');
+    return;
+  }
+
+  const tested = [...pairs].sort((a, b) => b.liquidityUsd - a.liquidityUsd).slice(0, MAX_PAIRS_TESTED);
+  const now = Date.now();
+
+  const embed = new EmbedBuilder()
+    .setTitle(`Filter Test: ${tested[0].name} (${tested[0].symbol})`)
+    .setColor(0x0052FF)
+    .setDescription(
+      `Rules: ${launchFilter.lastLoadedAt ? `\`${launchFilter.path}\`` : 'built-in'}` +
+      (pairs.length > tested.length ? `\nShowing the ${tested.length} most liquid of ${pairs.length} pairs.` : '')
+    )
+    .addFields(tested.map(pair => {
+      const decision = launchFilter.evaluate(pair, now);
+      const quote = pair.quoteTokenSymbol ? `/${pair.quoteTokenSymbol}` : '';
+      return {
+        name: `${decision.accepted ? '✅ Accepted' : '❌ Rejected'} - ${pair.dexId}${quote} ${truncateAddress(pair.pairAddress)}`,
+        value: `**${decision.rule}**: ${decision.reason}`,
+        inline: false,
+      };
+    }))
+    .setTimestamp();
+
+  await ctx.reply({ embeds: [embed] });
+}
+
+function formatTermStats(term: SearchTerm): string {
+  const origin = term.origin === 'seed' ? '' : ` (${term.origin})`;
+  return `\`${term.term}\`${origin} - weight ${term.weight.toFixed(2)}, ${term.newPairs} new in ${term.runs} searches`;
+}
+
+function truncateField(value: string): string {
+  return value.length <= MAX_FIELD_LENGTH ? value : `${value.slice(0, MAX_FIELD_LENGTH - 1)}…`;
+}
+
+function isValidAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
@@ -1,19 +1,34 @@
-import { Message, EmbedBuilder } from 'discord.js';
-import { LaunchStore } from '../../database/store';
-import { formatUsd, formatPrice, truncateAddress } from '../../utils/formatters';
-
-type ConditionType = 'price' | 'volume' | 'mcap';
-type Operator = '>' | '<' | '=';
-
-interface ParsedCondition {
-  type: ConditionType;
-  operator: Operator;
-  threshold: number;
-}
-
-export async function handleAlert(message: Message, args: string[], store: LaunchStore): Promise<void> {
+import { EmbedBuilder, PermissionFlagsBits } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { Alert, AlertDelivery, AlertSettings } from '../../types';
+import { config } from '../../utils/config';
+import { validateWebhookUrl } from '../../services/alertDelivery';
+import {
+  formatUsd,
+  formatPrice,
+  formatPercent,
+  formatAgeRelative,
+  formatAlertCondition,
+  formatMetricValue,
+  truncateAddress,
+} from '../../utils/formatters';
+import {
+  AlertParseError,
+  formatAlertDelivery,
+  formatAlertExpression,
+  formatAlertMode,
+  getExpressionConditions,
+  getMetricValue,
+  parseAlertInput,
+} from '../../utils/alertExpression';
+
+// Discord caps embed descriptions at 4096 characters
+const MAX_LISTING_LENGTH = 4000;
+
+export async function handleAlert(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
   if (args.length === 0) {
-    await showAlerts(message, store);
+    await showAlerts(ctx, storage);
     return;
   }
 
@@ -21,31 +36,37 @@ export async function handleAlert(message: Message, args: string[], store: Launc
 
   // Handle list command
   if (subcommand === 'list') {
-    await showAlerts(message, store);
+    await showAlerts(ctx, storage);
+    return;
+  }
+
+  // Handle history command
+  if (subcommand === 'history' || subcommand === 'log') {
+    await showAlertHistory(ctx, args[1], storage);
     return;
   }
 
   // Handle delete command
   if (subcommand === 'delete' || subcommand === 'rm' || subcommand === 'remove') {
     if (args.length < 2) {
-      await message.reply('**Usage:** `!alert delete <alert_id>`');
+      await ctx.reply('**Usage:** `!alert delete <alert_id>`');
       return;
     }
-    await deleteAlert(message, args[1], store);
+    await deleteAlert(ctx, args[1], storage);
     return;
   }
 
   // Create new alert: !alert <contract> <condition>
   if (args.length < 2) {
-    await showAlertHelp(message);
+    await showAlertHelp(ctx);
     return;
   }
 
-  await createAlert(message, args[0], args.slice(1).join(''), store);
+  await createAlert(ctx, args[0], args.slice(1).join(' '), storage);
 }
 
-async function showAlerts(message: Message, store: LaunchStore): Promise<void> {
-  const alerts = store.getUserAlerts(message.author.id);
+async function showAlerts(ctx: CommandContext, storage: LaunchStorage): Promise<void> {
+  const alerts = await storage.getUserAlerts(ctx.userId);
 
   if (alerts.length === 0) {
     const embed = new EmbedBuilder()
@@ -56,22 +77,41 @@ async function showAlerts(message: Message, store: LaunchStore): Promise<void> {
       .setColor(0x0052FF)
       .setTimestamp();
 
-    await message.reply({ embeds: [embed] });
+    await ctx.reply({ embeds: [embed] });
     return;
   }
 
   let description = '';
+  let listed = 0;
 
   for (const alert of alerts) {
-    const launch = store.getLaunchByToken(alert.tokenAddress);
+    const launch = await storage.getLatestTokenData(alert.tokenAddress);
     const tokenName = launch ? `${launch.name} (${launch.symbol})` : truncateAddress(alert.tokenAddress);
-    const status = alert.triggered ? '✅ Triggered' : '⏳ Active';
+    const status = getAlertStatus(alert);
+
+    const conditionStr = formatAlertExpression(alert.expression);
+    const lastFired = alert.lastTriggeredAt ? formatAgeRelative(alert.lastTriggeredAt) : 'never';
+
+    let entry = `**ID: ${alert.id}** - ${status}\n`;
+    entry += `Token: ${tokenName}\n`;
+    entry += `Condition: ${conditionStr}\n`;
+    entry += `Mode: ${formatAlertMode(alert)} | Fired: ${alert.triggerCount}x | Last: ${lastFired}\n`;
+    entry += `Delivery: ${formatAlertDelivery(alert.delivery)}`;
+    if (alert.deliveryFailures > 0) {
+      entry += ` | ⚠️ ${alert.deliveryFailures} failed in a row (see \`!alert history ${alert.id}\`)`;
+    }
+    entry += '\n\n';
 
-    const conditionStr = formatCondition(alert.conditionType, alert.operator, alert.threshold);
+    // Compound conditions make entries long; whole alerts only, with room for the "more" line
+    if (description.length + entry.length > MAX_LISTING_LENGTH) {
+      break;
+    }
+    description += entry;
+    listed++;
+  }
 
-    description += `**ID: ${alert.id}** - ${status}\n`;
-    description += `Token: ${tokenName}\n`;
-    description += `Condition: ${conditionStr}\n\n`;
+  if (listed < alerts.length) {
+    description += `*...and ${alerts.length - listed} more*`;
   }
 
   const embed = new EmbedBuilder()
@@ -81,33 +121,108 @@ async function showAlerts(message: Message, store: LaunchStore): Promise<void> {
     .setFooter({ text: `${alerts.length} alerts | Use !alert delete <id> to remove` })
     .setTimestamp();
 
-  await message.reply({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
+}
+
+async function showAlertHistory(ctx: CommandContext, alertIdStr: string | undefined, storage: LaunchStorage): Promise<void> {
+  let alertId: number | undefined;
+
+  if (alertIdStr !== undefined) {
+    alertId = parseInt(alertIdStr, 10);
+    if (isNaN(alertId)) {
+      await ctx.reply('Invalid alert ID. Please provide a number.');
+      return;
+    }
+  }
+
+  const events = await storage.getAlertEvents(ctx.userId, alertId, 10);
+  const title = alertId !== undefined ? `Alert #${alertId} History` : 'Alert History';
+
+  if (events.length === 0) {
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setDescription(alertId !== undefined
+        ? 'This alert has not fired yet.'
+        : 'None of your alerts have fired yet.')
+      .setColor(0x0052FF)
+      .setTimestamp();
+
+    await ctx.reply({ embeds: [embed] });
+    return;
+  }
+
+  let description = '';
+
+  for (const event of events) {
+    const token = `${event.snapshot.name} (${event.snapshot.symbol})`;
+    const attempts = event.attempts > 1 ? ` after ${event.attempts} attempts` : '';
+    const delivery = event.delivered
+      ? `✅ Delivered via ${event.sink}${attempts}`
+      : `❌ Not delivered via ${event.sink}${attempts}: ${event.failureReason || 'unknown reason'}`;
+
+    description += `**#${event.alertId}** ${token} - ${formatAgeRelative(event.firedAt)}\n`;
+    for (const { condition, value, changePercent } of event.values) {
+      const changeStr = changePercent === null ? '' : ` (${formatPercent(changePercent)})`;
+      description += `• ${formatAlertCondition(condition)}: ${formatMetricValue(condition.conditionType, value)}${changeStr}\n`;
+    }
+    description += `${delivery}\n\n`;
+  }
+
+  if (description.length > 4000) {
+    description = description.substring(0, 3990) + '\n...';
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(title)
+    .setDescription(description)
+    .setColor(0x0052FF)
+    .setFooter({ text: `Last ${events.length} fires | Use !alert history <id> for one alert` })
+    .setTimestamp();
+
+  await ctx.reply({ embeds: [embed] });
 }
 
-async function createAlert(message: Message, tokenAddress: string, conditionStr: string, store: LaunchStore): Promise<void> {
+async function createAlert(ctx: CommandContext, tokenAddress: string, conditionStr: string, storage: LaunchStorage): Promise<void> {
   // Validate address
   if (!isValidAddress(tokenAddress)) {
-    await message.reply('Invalid contract address. Please provide a valid Ethereum address.');
+    await ctx.reply('Invalid contract address. Please provide a valid Ethereum address.');
     return;
   }
 
-  // Parse condition
-  const condition = parseCondition(conditionStr);
-  if (!condition) {
-    await showAlertHelp(message);
+  // Parse condition expression, mode and destination
+  let parsed: AlertSettings;
+  try {
+    parsed = parseAlertInput(conditionStr);
+  } catch (error) {
+    if (error instanceof AlertParseError) {
+      await ctx.reply(formatParseError(error));
+      return;
+    }
+    throw error;
+  }
+
+  const deliveryError = validateDelivery(ctx, parsed.delivery);
+  if (deliveryError) {
+    await ctx.reply(deliveryError);
     return;
   }
 
+  const { expression } = parsed;
+  const launch = await storage.getLatestTokenData(tokenAddress.toLowerCase());
+
+  // "since" conditions measure against the value right now; if the token
+  // isn't tracked yet the checker captures the baseline on its first pass
+  if (launch) {
+    for (const condition of getExpressionConditions(expression)) {
+      if (condition.kind === 'since') {
+        condition.baselineValue = getMetricValue(condition.conditionType, launch);
+      }
+    }
+  }
+
   // Create alert
-  const alertId = store.createAlert(
-    message.author.id,
-    tokenAddress,
-    condition.type,
-    condition.operator,
-    condition.threshold
-  );
-
-  const launch = store.getLaunchByToken(tokenAddress.toLowerCase());
+  const alertId = await storage.createAlert(ctx.userId, tokenAddress, parsed);
+
   const tokenName = launch ? `${launch.name} (${launch.symbol})` : truncateAddress(tokenAddress);
 
   const embed = new EmbedBuilder()
@@ -115,10 +230,12 @@ async function createAlert(message: Message, tokenAddress: string, conditionStr:
     .setDescription(`Alert set for **${tokenName}**`)
     .addFields(
       { name: 'Alert ID', value: `${alertId}`, inline: true },
-      { name: 'Condition', value: formatCondition(condition.type, condition.operator, condition.threshold), inline: true }
+      { name: 'Condition', value: formatAlertExpression(expression), inline: true },
+      { name: 'Mode', value: formatAlertMode(parsed), inline: true },
+      { name: 'Delivery', value: formatAlertDelivery(parsed.delivery), inline: true }
     )
     .setColor(0x00FF00)
-    .setFooter({ text: "You'll receive a DM when this alert triggers" })
+    .setFooter({ text: `You'll be notified via ${formatAlertDelivery(parsed.delivery)} when this alert triggers` })
     .setTimestamp();
 
   if (launch) {
@@ -129,27 +246,27 @@ async function createAlert(message: Message, tokenAddress: string, conditionStr:
     );
   }
 
-  await message.reply({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
 }
 
-async function deleteAlert(message: Message, alertIdStr: string, store: LaunchStore): Promise<void> {
+async function deleteAlert(ctx: CommandContext, alertIdStr: string, storage: LaunchStorage): Promise<void> {
   const alertId = parseInt(alertIdStr, 10);
 
   if (isNaN(alertId)) {
-    await message.reply('Invalid alert ID. Please provide a number.');
+    await ctx.reply('Invalid alert ID. Please provide a number.');
     return;
   }
 
-  const deleted = store.deleteAlert(alertId, message.author.id);
+  const deleted = await storage.deleteAlert(alertId, ctx.userId);
 
   if (deleted) {
-    await message.reply(`Alert #${alertId} has been deleted.`);
+    await ctx.reply(`Alert #${alertId} has been deleted.`);
   } else {
-    await message.reply('Alert not found or you do not have permission to delete it.');
+    await ctx.reply('Alert not found or you do not have permission to delete it.');
   }
 }
 
-async function showAlertHelp(message: Message): Promise<void> {
+async function showAlertHelp(ctx: CommandContext): Promise<void> {
   const embed = new EmbedBuilder()
     .setTitle('Alert Command Help')
     .setDescription(
@@ -159,74 +276,75 @@ async function showAlertHelp(message: Message): Promise<void> {
       '• `price>0.001` - Price above $0.001\n' +
       '• `price<0.0005` - Price below $0.0005\n' +
       '• `mcap>1000000` - Market cap above $1M\n' +
-      '• `vol>100000` - 24h volume above $100K\n\n' +
+      '• `vol>100000` - 24h volume above $100K\n' +
+      '• `liq>20000` - Liquidity above $20K\n\n' +
+      '**Percent moves:**\n' +
+      '• `price up 50%` / `price+50%` - Price up 50% since the alert was set\n' +
+      '• `liq down 30%` / `liq-30%` - Liquidity down 30% since the alert was set\n' +
+      '• `price up 50% in 15m` - Price up 50% within any 15 minute window\n\n' +
+      '**Combine conditions** with `and` / `or` (`and` binds first):\n' +
+      '• `price>0.001 and liq>20000 or mcap>1m`\n\n' +
+      '**Modes** (add at the end, default `once`):\n' +
+      '• `once` - Fire a single time\n' +
+      '• `repeat 30m` - Fire whenever true, at most every 30m\n' +
+      '• `cross 5%` - Fire on each crossing; re-arms after moving 5% back\n\n' +
+      '**Destination** (add at the very end, default DM):\n' +
+      '• `to #channel` - Post to a channel in this server\n' +
+      '• `to https://...` - POST signed JSON to a webhook\n\n' +
       '**Other commands:**\n' +
       '• `!alert` or `!alert list` - View your alerts\n' +
+      '• `!alert history [id]` - Past fires and whether delivery succeeded\n' +
       '• `!alert delete <id>` - Delete an alert'
     )
     .setColor(0x0052FF)
     .setTimestamp();
 
-  await message.reply({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
 }
 
-function parseCondition(input: string): ParsedCondition | null {
-  // Remove spaces and lowercase
-  const cleaned = input.replace(/\s/g, '').toLowerCase();
-
-  // Match patterns like "price>0.001", "mcap<1000000", "vol>50000"
-  const match = cleaned.match(/^(price|mcap|vol|volume|marketcap)([><]=?)(\d+\.?\d*)$/);
-
-  if (!match) {
-    return null;
-  }
-
-  let type: ConditionType;
-  switch (match[1]) {
-    case 'price':
-      type = 'price';
-      break;
-    case 'mcap':
-    case 'marketcap':
-      type = 'mcap';
-      break;
-    case 'vol':
-    case 'volume':
-      type = 'volume';
-      break;
-    default:
-      return null;
+// Returns an error message if the user can't send alerts to this destination
+function validateDelivery(ctx: CommandContext, delivery: AlertDelivery): string | null {
+  if (delivery.type === 'webhook') {
+    if (!config.alerts.webhookSecret) {
+      return 'Webhook alerts are not enabled on this bot.';
+    }
+    return validateWebhookUrl(delivery.target || '');
   }
 
-  let operator: Operator;
-  switch (match[2]) {
-    case '>':
-    case '>=':
-      operator = '>';
-      break;
-    case '<':
-    case '<=':
-      operator = '<';
-      break;
-    case '=':
-      operator = '=';
-      break;
-    default:
-      return null;
+  if (delivery.type === 'channel') {
+    // Shared alerts must target a channel in this server that the user moderates
+    const channel = ctx.guild?.channels.cache.get(delivery.target || '');
+    if (!ctx.guild || !channel) {
+      return 'Channel alerts must target a channel in this server.';
+    }
+    if (!channel.isTextBased()) {
+      return 'Channel alerts must target a text channel.';
+    }
+    if (!ctx.member || !channel.permissionsFor(ctx.member).has(PermissionFlagsBits.ManageMessages)) {
+      return 'You need the Manage Messages permission in that channel to post alerts there.';
+    }
   }
 
-  const threshold = parseFloat(match[3]);
-  if (isNaN(threshold) || threshold < 0) {
-    return null;
-  }
+  return null;
+}
 
-  return { type, operator, threshold };
+function getAlertStatus(alert: Alert): string {
+  if (alert.triggered) return '✅ Triggered';
+  if (alert.mode === 'cross' && !alert.armed) return '⏸️ Waiting to re-arm';
+  return '⏳ Active';
 }
 
-function formatCondition(type: ConditionType, operator: Operator, threshold: number): string {
-  const typeStr = type === 'price' ? 'Price' : type === 'mcap' ? 'Market Cap' : 'Volume';
-  const thresholdStr = type === 'price' ? formatPrice(threshold) : formatUsd(threshold);
-  return `${typeStr} ${operator} ${thresholdStr}`;
+// Echo the input with a marker under the token that failed to parse
+function formatParseError(error: AlertParseError): string {
+  const marker = ' '.repeat(error.start) + '^'.repeat(Math.max(1, error.end - error.start));
+  return [
+    `**Could not parse alert condition:** ${error.message}`,
+    '```',
+    error.input,
+    marker,
+    '```',
+    'Use `!alert` with a contract and no condition to see the supported formats.',
+  ].join('\n');
 }
 
 function isValidAddress(address: string): boolean {
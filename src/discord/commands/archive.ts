@@ -0,0 +1,63 @@
+import { EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { formatRiskSuffix } from '../../services/riskScore';
+import { ArchivedLaunch } from '../../types';
+import { config } from '../../utils/config';
+import { formatUsd, formatPrice, formatPercent, formatChartSite, truncateAddress } from '../../utils/formatters';
+
+const MAX_RESULTS = 10;
+
+export async function handleArchive(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
+  if (args.length === 0) {
+    await ctx.reply(
+      '**Usage:** `!archive <contract_address | symbol | name>`\n' +
+      `Look up launches older than ${formatRetention(config.retention.launchHours)}, as they last stood before being archived.`
+    );
+    return;
+  }
+
+  const query = args.join(' ');
+  const archived = await storage.getArchivedLaunches(query, MAX_RESULTS);
+
+  if (archived.length === 0) {
+    await ctx.reply(
+      `No archived launches match \`${query}\`. ` +
+      `Launches are archived once they're older than ${formatRetention(config.retention.launchHours)}; ` +
+      'use `!info` for newer ones.'
+    );
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`🗄️ Archived Launches: ${query}`)
+    .setColor(0x0052FF)
+    .setFooter({ text: 'Final state as of the last poll before archiving | Base Chain' })
+    .setTimestamp();
+
+  for (const launch of archived) {
+    embed.addFields({
+      name: `${launch.name} (${launch.symbol}) on ${launch.dexId || 'Unknown'}`,
+      value: formatArchivedLaunch(launch),
+      inline: false
+    });
+  }
+
+  await ctx.reply({ embeds: [embed] });
+}
+
+function formatArchivedLaunch(launch: ArchivedLaunch): string {
+  const launched = Math.floor(launch.pairCreatedAt / 1000);
+  const lastSeen = Math.floor(launch.lastUpdated / 1000);
+  const riskBadge = formatRiskSuffix(launch.riskScore, ' | ');
+
+  return `Launched <t:${launched}:d>, last seen <t:${lastSeen}:R>${riskBadge}\n` +
+    `💵 ${formatPrice(launch.priceUsd)} (${formatPercent(launch.priceChange24h)} 24h) | ` +
+    `💰 ${formatUsd(launch.marketCap)} | 💧 ${formatUsd(launch.liquidityUsd)} | 📊 ${formatUsd(launch.volume24h)}\n` +
+    `\`${truncateAddress(launch.tokenAddress)}\` | [${formatChartSite(launch.dexscreenerUrl)}](${launch.dexscreenerUrl})`;
+}
+
+// e.g. "7d", "36h"
+function formatRetention(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
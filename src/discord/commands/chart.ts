@@ -0,0 +1,87 @@
+import { AttachmentBuilder, EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { LaunchStore } from '../../database/store';
+import { CANDLE_INTERVALS, aggregateCandles, isCandleInterval } from '../../services/candles';
+import { renderCandleChart } from '../../services/chartRenderer';
+import { CandleInterval } from '../../types';
+import { formatUsd, formatPrice, formatPercent, formatMinutes, formatChartSite, truncateAddress } from '../../utils/formatters';
+
+const DEFAULT_INTERVAL: CandleInterval = '5m';
+
+// A single candle has no shape to show
+const MIN_CANDLES = 2;
+
+export const CHART_INTERVAL_CHOICES = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
+
+export async function handleChart(ctx: CommandContext, args: string[], storage: LaunchStorage, store: LaunchStore): Promise<void> {
+  if (args.length === 0) {
+    await ctx.reply(
+      '**Usage:** `!chart <contract_address> [interval]`\n' +
+      `**Intervals:** ${CHART_INTERVAL_CHOICES.map(choice => `\`${choice}\``).join(', ')} (default: ${DEFAULT_INTERVAL})`
+    );
+    return;
+  }
+
+  const tokenAddress = args[0];
+  if (!isValidAddress(tokenAddress)) {
+    await ctx.reply('Invalid contract address. Please provide a valid Ethereum address.');
+    return;
+  }
+
+  const intervalArg = args[1]?.toLowerCase() ?? DEFAULT_INTERVAL;
+  if (!isCandleInterval(intervalArg)) {
+    await ctx.reply(`Unknown interval \`${args[1]}\`. Use one of ${CHART_INTERVAL_CHOICES.map(choice => `\`${choice}\``).join(', ')}.`);
+    return;
+  }
+
+  // Charts are drawn from the bot's own snapshots, so only stored pairs have one
+  const launch = await storage.getLatestTokenData(tokenAddress.toLowerCase());
+  if (!launch) {
+    await ctx.reply('No price history for this token. Charts cover launches the bot has seen and tokens on a watchlist; `!track` it to start recording.');
+    return;
+  }
+
+  const { windowMs } = CANDLE_INTERVALS[intervalArg];
+  const candles = aggregateCandles(store.getSnapshots(launch.pairAddress, windowMs), intervalArg);
+  if (candles.length < MIN_CANDLES) {
+    await ctx.reply(`Not enough price history for ${launch.symbol} at ${intervalArg} yet. Try a shorter interval, or check back later.`);
+    return;
+  }
+
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const high = Math.max(...candles.map(candle => candle.high));
+  const low = Math.min(...candles.map(candle => candle.low));
+  const volume = candles.reduce((sum, candle) => sum + candle.volume, 0);
+  const change = first.open > 0 ? ((last.close - first.open) / first.open) * 100 : null;
+  const spanMinutes = Math.round((last.openTime - first.openTime) / 60000) + CANDLE_INTERVALS[intervalArg].ms / 60000;
+
+  const chart = new AttachmentBuilder(
+    renderCandleChart(candles, { title: `${launch.name} (${launch.symbol})`, interval: intervalArg }),
+    { name: 'chart.png' }
+  );
+
+  const embed = new EmbedBuilder()
+    .setTitle(`${launch.name} (${launch.symbol})`)
+    .setURL(launch.dexscreenerUrl)
+    .setColor(0x0052FF)
+    .setDescription(`${candles.length} ${intervalArg} candles over the last ${formatMinutes(spanMinutes)}`)
+    .addFields(
+      { name: '💵 Price', value: formatPrice(last.close), inline: true },
+      { name: `${(change ?? 0) >= 0 ? '📈' : '📉'} Change`, value: formatPercent(change), inline: true },
+      { name: '📊 Volume', value: formatUsd(volume), inline: true },
+      { name: '⬆️ High', value: formatPrice(high), inline: true },
+      { name: '⬇️ Low', value: formatPrice(low), inline: true },
+      { name: '🔗 Chart', value: `[${formatChartSite(launch.dexscreenerUrl)}](${launch.dexscreenerUrl})`, inline: true }
+    )
+    .setImage('attachment://chart.png')
+    .setFooter({ text: `Pair: ${truncateAddress(launch.pairAddress)} | Base Chain` })
+    .setTimestamp();
+
+  await ctx.reply({ embeds: [embed], files: [chart] });
+}
+
+function isValidAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
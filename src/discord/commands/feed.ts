@@ -0,0 +1,153 @@
+import { EmbedBuilder, PermissionFlagsBits } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { FeedSettings } from '../../types';
+import { parseAmount } from '../../utils/alertExpression';
+import { formatUsd, formatMinutes } from '../../utils/formatters';
+
+export async function handleFeed(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
+  if (!ctx.guild) {
+    await ctx.reply('The launch feed can only be configured in a server.');
+    return;
+  }
+
+  const guildId = ctx.guild.id;
+  const subcommand = args[0]?.toLowerCase();
+  const settings = await storage.getFeedSettings(guildId);
+
+  if (!subcommand || subcommand === 'show') {
+    await showFeedSettings(ctx, settings);
+    return;
+  }
+
+  if (!ctx.member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+    await ctx.reply('You need the Manage Server permission to configure the launch feed.');
+    return;
+  }
+
+  // Handle set command: !feed set #channel
+  if (subcommand === 'set' || subcommand === 'channel') {
+    const channelId = args[1]?.match(/^<#(\d+)>$/)?.[1];
+    const channel = channelId ? ctx.guild.channels.cache.get(channelId) : undefined;
+
+    if (!channel || !channel.isTextBased()) {
+      await ctx.reply('**Usage:** `!feed set #channel` (must be a text channel in this server)');
+      return;
+    }
+
+    const updated: FeedSettings = settings
+      ? { ...settings, channelId: channel.id, enabled: true }
+      : { guildId, channelId: channel.id, enabled: true, minLiquidityUsd: 0, minVolumeUsd: 0, maxAgeMinutes: null, dexIds: null };
+
+    await storage.saveFeedSettings(updated);
+    await ctx.reply(`New launches will be posted in <#${channel.id}>.`);
+    return;
+  }
+
+  if (!settings) {
+    await ctx.reply('No feed channel set. Use `!feed set #channel` first.');
+    return;
+  }
+
+  switch (subcommand) {
+    case 'on':
+    case 'off': {
+      await storage.saveFeedSettings({ ...settings, enabled: subcommand === 'on' });
+      await ctx.reply(`Launch feed ${subcommand === 'on' ? 'enabled' : 'paused'}.`);
+      return;
+    }
+
+    case 'liq':
+    case 'liquidity':
+    case 'vol':
+    case 'volume': {
+      const amount = args[1] ? parseAmount(args[1]) : null;
+      if (amount === null) {
+        await ctx.reply(`**Usage:** \`!feed ${subcommand} <amount>\` (e.g. \`5000\` or \`10k\`)`);
+        return;
+      }
+
+      const isLiquidity = subcommand.startsWith('liq');
+      await storage.saveFeedSettings(isLiquidity
+        ? { ...settings, minLiquidityUsd: amount }
+        : { ...settings, minVolumeUsd: amount });
+      await ctx.reply(`Minimum ${isLiquidity ? 'liquidity' : '24h volume'} set to ${formatUsd(amount)}.`);
+      return;
+    }
+
+    case 'age': {
+      const arg = args[1]?.toLowerCase();
+      const maxAgeMinutes = arg === 'any' || arg === 'off' ? null : arg ? parseDurationMinutes(arg) : undefined;
+      if (maxAgeMinutes === undefined) {
+        await ctx.reply('**Usage:** `!feed age <duration|any>` (e.g. `30m`, `2h`)');
+        return;
+      }
+
+      await storage.saveFeedSettings({ ...settings, maxAgeMinutes });
+      await ctx.reply(maxAgeMinutes === null
+        ? 'Maximum pair age removed.'
+        : `Only pairs younger than ${formatMinutes(maxAgeMinutes)} will be posted.`);
+      return;
+    }
+
+    case 'dex': {
+      const arg = args.slice(1).join(',').toLowerCase();
+      if (!arg) {
+        await ctx.reply('**Usage:** `!feed dex <dex[,dex...]|any>` (e.g. `uniswap,aerodrome`)');
+        return;
+      }
+
+      const dexIds = arg === 'any' ? null : arg.split(',').map(id => id.trim()).filter(Boolean);
+      await storage.saveFeedSettings({ ...settings, dexIds });
+      await ctx.reply(dexIds ? `Only pairs on ${dexIds.join(', ')} will be posted.` : 'Pairs on any DEX will be posted.');
+      return;
+    }
+
+    default:
+      await showFeedSettings(ctx, settings);
+  }
+}
+
+async function showFeedSettings(ctx: CommandContext, settings: FeedSettings | undefined): Promise<void> {
+  const usage =
+    '**Commands** (Manage Server permission required):\n' +
+    '• `!feed set #channel` - Post new launches in a channel\n' +
+    '• `!feed on` / `!feed off` - Resume or pause the feed\n' +
+    '• `!feed liq <amount>` - Minimum liquidity\n' +
+    '• `!feed vol <amount>` - Minimum 24h volume\n' +
+    '• `!feed age <duration|any>` - Maximum pair age\n' +
+    '• `!feed dex <dex[,dex...]|any>` - Only these DEXes';
+
+  const embed = new EmbedBuilder()
+    .setTitle('Launch Feed')
+    .setColor(0x0052FF)
+    .setTimestamp();
+
+  if (!settings) {
+    embed.setDescription('No feed channel is set for this server.\n\n' + usage);
+  } else {
+    embed
+      .setDescription(usage)
+      .addFields(
+        { name: 'Channel', value: `<#${settings.channelId}>`, inline: true },
+        { name: 'Status', value: settings.enabled ? '✅ Enabled' : '⏸️ Paused', inline: true },
+        { name: '\u200b', value: '\u200b', inline: true }, // Spacer
+        { name: 'Min Liquidity', value: formatUsd(settings.minLiquidityUsd), inline: true },
+        { name: 'Min Volume', value: formatUsd(settings.minVolumeUsd), inline: true },
+        { name: 'Max Age', value: settings.maxAgeMinutes !== null ? formatMinutes(settings.maxAgeMinutes) : 'Any', inline: true },
+        { name: 'DEX', value: settings.dexIds ? settings.dexIds.join(', ') : 'Any', inline: false }
+      );
+  }
+
+  await ctx.reply({ embeds: [embed] });
+}
+
+// Parse durations like "30m", "2h", "1d" into minutes
+function parseDurationMinutes(input: string): number | undefined {
+  const match = input.match(/^(\d+)(m|h|d)$/);
+  if (!match) return undefined;
+
+  const value = parseInt(match[1], 10);
+  const minutes = match[2] === 'd' ? value * 1440 : match[2] === 'h' ? value * 60 : value;
+  return minutes > 0 ? minutes : undefined;
+}
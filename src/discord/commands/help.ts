@@ -1,25 +1,31 @@
-import { Message, EmbedBuilder } from 'discord.js';
+import { EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
 
-export async function handleHelp(message: Message): Promise<void> {
+export async function handleHelp(ctx: CommandContext): Promise<void> {
   const embed = new EmbedBuilder()
     .setTitle('Base Launch Tracker - Commands')
     .setColor(0x0052FF)
-    .setDescription('Track new token launches on Base chain.')
+    .setDescription(
+      'Track new token launches on Base chain.\n' +
+      '`/launches`, `/trending`, `/info`, `/chart`, `/archive`, `/track`, `/portfolio` and `/alert` are also available as slash commands.'
+    )
     .addFields(
       {
         name: '📊 !launches <timeframe> [sort]',
         value:
           'View recent token launches on Base.\n' +
-          '**Timeframes:** `1h`, `6h`, `12h`, `24h`, `48h`\n' +
+          '**Timeframes:** `1h`, `6h`, `12h`, `24h`, `48h`, `7d`\n' +
           '**Sort:** `vol` (default), `mcap`, `age`\n' +
-          '**Example:** `!launches 24h mcap`',
+          '**Example:** `!launches 24h mcap`\n' +
+          '*Use the buttons and menus to page, re-sort or change the timeframe.*',
         inline: false
       },
       {
         name: '🔥 !trending',
         value:
           'Show trending tokens on Base.\n' +
-          'Ranked by volume and price change.',
+          'Ranked by short-term momentum: 1h volume and its acceleration, 1h price gain and buy pressure.\n' +
+          'Each token shows what drove its rank; page and re-sort with the buttons and menus.',
         inline: false
       },
       {
@@ -29,25 +35,75 @@ export async function handleHelp(message: Message): Promise<void> {
           '**Example:** `!info 0x1234...`',
         inline: false
       },
+      {
+        name: '🕯️ !chart <contract> [interval]',
+        value:
+          'Price and volume chart from the bot\'s recorded history.\n' +
+          '**Intervals:** `1m`, `5m` (default), `15m`, `1h`\n' +
+          '**Example:** `!chart 0x1234... 15m`',
+        inline: false
+      },
+      {
+        name: '🗄️ !archive <contract | symbol>',
+        value:
+          'Look up launches past the retention window.\n' +
+          'Shows each pair as it last stood before being archived.\n' +
+          '**Example:** `!archive PEPE`',
+        inline: false
+      },
       {
         name: '👀 !track [contract]',
         value:
           'Manage your personal watchlist.\n' +
           '`!track` - View your watchlist\n' +
           '`!track <contract>` - Add to watchlist\n' +
-          '`!track remove <contract>` - Remove from watchlist',
+          '`!track remove <contract>` - Remove from watchlist\n' +
+          '*You get a DM if a watched token\'s liquidity is pulled or its price collapses.*',
+        inline: false
+      },
+      {
+        name: '💼 !portfolio',
+        value:
+          'Track your holdings and PnL.\n' +
+          '`!portfolio` - Value, PnL and allocation\n' +
+          '`!portfolio add <contract> <amount> [@price]` - Record a holding\n' +
+          '`!portfolio remove <contract>` - Remove a position\n' +
+          '`!portfolio daily on|off` - Daily PnL summary by DM\n' +
+          '*The entry price defaults to the current price.*',
         inline: false
       },
       {
         name: '🔔 !alert <contract> <condition>',
         value:
-          'Set price/volume/mcap alerts.\n' +
+          'Set price/volume/mcap/liquidity alerts.\n' +
           '`!alert` - View your alerts\n' +
           '`!alert 0x... price>0.001` - Create alert\n' +
           '`!alert 0x... mcap>1000000` - MCap alert\n' +
           '`!alert 0x... vol>50000` - Volume alert\n' +
+          '`!alert 0x... price up 50% in 15m` - Move alert\n' +
+          '`!alert 0x... price>0.001 repeat 30m` - Re-arming alert\n' +
+          '`!alert history [id]` - Past fires\n' +
           '`!alert delete <id>` - Delete alert\n' +
-          '*Alerts are sent via DM when triggered.*',
+          '`!alert 0x... price>0.001 to #channel` - Post to a channel\n' +
+          '*Alerts are sent via DM unless a destination is given.*',
+        inline: false
+      },
+      {
+        name: '📣 !feed',
+        value:
+          'Auto-post new launches in a channel (admins).\n' +
+          '`!feed set #channel` - Choose the channel\n' +
+          '`!feed liq 5k` / `!feed vol 1k` - Minimums\n' +
+          '`!feed age 2h` / `!feed dex uniswap` - Filters\n' +
+          '`!feed off` - Pause the feed',
+        inline: false
+      },
+      {
+        name: '🛠️ !admin',
+        value:
+          'Bot-wide settings (bot admins only).\n' +
+          '`!admin terms` - Discovery search terms\n' +
+          '`!admin terms pin|ban <term>` - Pin or ban a term',
         inline: false
       },
       {
@@ -61,5 +117,5 @@ export async function handleHelp(message: Message): Promise<void> {
     })
     .setTimestamp();
 
-  await message.reply({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
 }
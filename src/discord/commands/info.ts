@@ -1,11 +1,16 @@
-import { Message, EmbedBuilder } from 'discord.js';
+import { EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
 import { LaunchStore } from '../../database/store';
-import { dexScreenerService } from '../../services/dexscreener';
-import { formatUsd, formatPrice, formatAge, truncateAddress, formatPercent } from '../../utils/formatters';
+import { marketData } from '../../services/marketData';
+import { LIQUIDITY_HISTORY_MS, applyRisk, formatRiskBadge, formatRiskFactors } from '../../services/riskScore';
+import { formatRugDrop, formatRugEventTime } from '../../services/rugDetector';
+import { PairWindows, RugEvent, TokenLaunch } from '../../types';
+import { formatUsd, formatPrice, formatAge, truncateAddress, formatPercent, formatChartSite, formatNumber } from '../../utils/formatters';
 
-export async function handleInfo(message: Message, args: string[], store: LaunchStore): Promise<void> {
+export async function handleInfo(ctx: CommandContext, args: string[], storage: LaunchStorage, store: LaunchStore): Promise<void> {
   if (args.length === 0) {
-    await message.reply('**Usage:** `!info <contract_address>`\nGet detailed information about a token.');
+    await ctx.reply('**Usage:** `!info <contract_address>`\nGet detailed information about a token.');
     return;
   }
 
@@ -13,50 +18,44 @@ export async function handleInfo(message: Message, args: string[], store: Launch
 
   // Validate address
   if (!isValidAddress(tokenAddress)) {
-    await message.reply('Invalid contract address. Please provide a valid Ethereum address.');
+    await ctx.reply('Invalid contract address. Please provide a valid Ethereum address.');
     return;
   }
 
   // First check local database
-  let launch = store.getLaunchByToken(tokenAddress.toLowerCase());
+  const launch = await storage.getLatestTokenData(tokenAddress.toLowerCase());
+  const rugEvents = await storage.getRugEvents(tokenAddress);
 
-  // If not found locally, try to fetch from DexScreener
+  // If not found locally, try to fetch from the market data provider
   if (!launch) {
     try {
-      if ('sendTyping' in message.channel) {
-        await message.channel.sendTyping();
-      }
-      const pairs = await dexScreenerService.fetchTokenPairs(tokenAddress);
+      await ctx.sendTyping();
+      const pairs = await marketData.getTokenPairs(tokenAddress);
 
       if (pairs.length > 0) {
         // Get the pair with highest volume
-        const bestPair = pairs.reduce((best, current) => {
-          const bestVol = best.volume?.h24 || 0;
-          const currentVol = current.volume?.h24 || 0;
-          return currentVol > bestVol ? current : best;
-        });
-
-        launch = dexScreenerService.pairToLaunch(bestPair);
+        const bestPair = pairs.reduce((best, current) => current.volume24h > best.volume24h ? current : best);
+        const scored = applyRisk(bestPair, store.getSnapshots(bestPair.pairAddress, LIQUIDITY_HISTORY_MS));
 
-        // Also try to get additional info from the pair
-        const embed = buildInfoEmbed(launch, bestPair);
-        await message.reply({ embeds: [embed] });
+        const embed = buildInfoEmbed(scored, rugEvents);
+        await ctx.reply({ embeds: [embed] });
         return;
       }
     } catch (error) {
       console.error('Error fetching token info:', error);
     }
 
-    await message.reply('Token not found. Make sure the contract address is correct and the token is traded on a Base chain DEX.');
+    await ctx.reply('Token not found. Make sure the contract address is correct and the token is traded on a Base chain DEX.');
     return;
   }
 
-  // Build embed with local data
-  const embed = buildInfoEmbed(launch, null);
-  await message.reply({ embeds: [embed] });
+  // Build embed with local data, including the pair detail stored with it
+  const embed = buildInfoEmbed(launch, rugEvents);
+  await ctx.reply({ embeds: [embed] });
 }
 
-function buildInfoEmbed(launch: any, pair: any): EmbedBuilder {
+function buildInfoEmbed(launch: TokenLaunch, rugEvents: RugEvent[]): EmbedBuilder {
+  const details = launch.details;
   const embed = new EmbedBuilder()
     .setTitle(`${launch.name} (${launch.symbol})`)
     .setColor(0x0052FF)
@@ -71,34 +70,44 @@ function buildInfoEmbed(launch: any, pair: any): EmbedBuilder {
     { name: '\u200b', value: '\u200b', inline: true }, // Spacer
     { name: '💰 Market Cap', value: formatUsd(launch.marketCap), inline: true },
     { name: '📊 24h Volume', value: formatUsd(launch.volume24h), inline: true },
-    { name: '💧 Liquidity', value: formatUsd(launch.liquidityUsd), inline: true },
+    { name: '💧 Liquidity', value: formatLiquidity(launch), inline: true },
     { name: '⏰ Age', value: formatAge(launch.pairCreatedAt), inline: true },
-    { name: '🏛️ DEX', value: launch.dexId || 'Unknown', inline: true },
+    { name: '🏛️ DEX', value: formatDex(launch), inline: true },
     { name: '\u200b', value: '\u200b', inline: true } // Spacer
   );
 
-  // Add price changes if available from pair data
-  if (pair?.priceChange) {
-    let changeText = '';
-    if (pair.priceChange.h1 !== undefined) changeText += `1h: ${formatPercent(pair.priceChange.h1)}\n`;
-    if (pair.priceChange.h6 !== undefined) changeText += `6h: ${formatPercent(pair.priceChange.h6)}\n`;
-    if (pair.priceChange.h24 !== undefined) changeText += `24h: ${formatPercent(pair.priceChange.h24)}`;
+  // Add per-window breakdowns if the pair detail has them
+  if (details) {
+    const changeText = formatWindows(details.priceChange, formatPercent);
+    const volText = formatWindows(details.volume, formatUsd);
+    const txnText = formatWindows(details.txns, trades => `${trades.buys} buys / ${trades.sells} sells`);
 
     if (changeText) {
       embed.addFields({ name: '📊 Price Changes', value: changeText, inline: true });
     }
-  }
-
-  // Add volume breakdown if available
-  if (pair?.volume) {
-    let volText = '';
-    if (pair.volume.h1 !== undefined) volText += `1h: ${formatUsd(pair.volume.h1)}\n`;
-    if (pair.volume.h6 !== undefined) volText += `6h: ${formatUsd(pair.volume.h6)}\n`;
-    if (pair.volume.h24 !== undefined) volText += `24h: ${formatUsd(pair.volume.h24)}`;
-
     if (volText) {
       embed.addFields({ name: '📈 Volume Breakdown', value: volText, inline: true });
     }
+    if (txnText) {
+      embed.addFields({ name: '🔄 Transactions', value: txnText, inline: true });
+    }
+  }
+
+  // Most recent first, across all of the token's pairs
+  if (rugEvents.length > 0) {
+    embed.addFields({
+      name: '🚨 Rug Warnings',
+      value: rugEvents.map(event => `${formatRugEventTime(event)}, ${formatRugDrop(event)}`).join('\n'),
+      inline: false
+    });
+  }
+
+  if (launch.riskScore !== undefined) {
+    embed.addFields({
+      name: `⚠️ ${formatRiskBadge(launch.riskScore)}`,
+      value: formatRiskFactors(launch.riskFactors || []),
+      inline: false
+    });
   }
 
   // Contract address
@@ -109,11 +118,11 @@ function buildInfoEmbed(launch: any, pair: any): EmbedBuilder {
   });
 
   // Links
-  let links = `[DexScreener](${launch.dexscreenerUrl})`;
+  let links = `[${formatChartSite(launch.dexscreenerUrl)}](${launch.dexscreenerUrl})`;
 
   // Add social links if available
-  if (pair?.info?.socials) {
-    for (const social of pair.info.socials) {
+  if (details?.socials) {
+    for (const social of details.socials) {
       if (social.type === 'twitter') {
         links += ` | [Twitter](${social.url})`;
       } else if (social.type === 'telegram') {
@@ -122,8 +131,8 @@ function buildInfoEmbed(launch: any, pair: any): EmbedBuilder {
     }
   }
 
-  if (pair?.info?.websites?.[0]) {
-    links += ` | [Website](${pair.info.websites[0].url})`;
+  if (details?.websites[0]) {
+    links += ` | [Website](${details.websites[0]})`;
   }
 
   embed.addFields({ name: '🔗 Links', value: links, inline: false });
@@ -134,13 +143,39 @@ function buildInfoEmbed(launch: any, pair: any): EmbedBuilder {
   });
 
   // Add thumbnail if available
-  if (pair?.info?.imageUrl) {
-    embed.setThumbnail(pair.info.imageUrl);
+  if (details?.imageUrl) {
+    embed.setThumbnail(details.imageUrl);
   }
 
   return embed;
 }
 
+// One line per window the provider reported, e.g. "5m: +1.20%\n1h: -3.40%"
+function formatWindows<T>(windows: PairWindows<T>, format: (value: T) => string): string {
+  const labels: [keyof PairWindows<T>, string][] = [['m5', '5m'], ['h1', '1h'], ['h6', '6h'], ['h24', '24h']];
+  return labels
+    .filter(([key]) => windows[key] !== undefined)
+    .map(([key, label]) => `${label}: ${format(windows[key] as T)}`)
+    .join('\n');
+}
+
+// e.g. "$45.20K" plus the pooled amounts of each token when known
+function formatLiquidity(launch: TokenLaunch): string {
+  const pooled = launch.details?.liquidity;
+  if (pooled?.base === undefined || pooled.quote === undefined) {
+    return formatUsd(launch.liquidityUsd);
+  }
+  return `${formatUsd(launch.liquidityUsd)}\n${formatNumber(pooled.base)} ${launch.symbol} / ` +
+    `${formatNumber(pooled.quote)} ${launch.quoteTokenSymbol || 'quote'}`;
+}
+
+// e.g. "uniswap v3 (WETH)"
+function formatDex(launch: TokenLaunch): string {
+  const labels = launch.details?.labels.length ? ` ${launch.details.labels.join(' ')}` : '';
+  const quote = launch.quoteTokenSymbol ? ` (${launch.quoteTokenSymbol})` : '';
+  return `${launch.dexId || 'Unknown'}${labels}${quote}`;
+}
+
 function isValidAddress(address: string): boolean {
   return /^0x[a-fA-F0-9]{40}$/.test(address);
 }
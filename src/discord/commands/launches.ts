@@ -1,7 +1,17 @@
-import { Message, EmbedBuilder } from 'discord.js';
-import { LaunchStore } from '../../database/store';
+import { BaseMessageOptions, EmbedBuilder, MessageComponentInteraction } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import {
+  ListingChoice,
+  ListingControl,
+  ListingState,
+  applyListingControl,
+  buildListingComponents,
+  clampPage,
+} from '../pagination';
+import { LaunchStorage } from '../../database/storage';
 import { SortOption, TokenLaunch } from '../../types';
-import { formatUsd, formatPrice, formatAge, truncateAddress, formatPercent } from '../../utils/formatters';
+import { formatUsd, formatPrice, formatAge, truncateAddress, formatPercent, formatChartSite } from '../../utils/formatters';
+import { formatRiskSuffix } from '../../services/riskScore';
 
 // Parse timeframe like "1h", "30m", "2d", "12h", etc.
 function parseTimeframe(input: string): number | null {
@@ -27,13 +37,24 @@ const SORT_MAP: Record<string, SortOption> = {
   'age': 'age',
 };
 
-export async function handleLaunches(message: Message, args: string[], store: LaunchStore): Promise<void> {
+const PAGE_SIZE = 10;
+
+export const LAUNCH_TIMEFRAME_CHOICES: ListingChoice[] = ['30m', '1h', '6h', '12h', '24h', '48h', '7d']
+  .map(timeframe => ({ label: timeframe, value: timeframe }));
+
+export const LAUNCH_SORT_CHOICES: ListingChoice[] = [
+  { label: 'Volume', value: 'volume' },
+  { label: 'Market Cap', value: 'mcap' },
+  { label: 'Age', value: 'age' },
+];
+
+export async function handleLaunches(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
   // Parse timeframe
   const timeframeArg = args[0]?.toLowerCase();
   const timeframeHours = timeframeArg ? parseTimeframe(timeframeArg) : null;
 
   if (!timeframeArg || timeframeHours === null || timeframeHours <= 0 || timeframeHours > 168) {
-    await message.reply({
+    await ctx.reply({
       content: '**Usage:** `!launches <timeframe> [sort]`\n' +
         '**Timeframes:** Any duration like `30m`, `1h`, `6h`, `2d` (max 7d)\n' +
         '**Sort options:** `vol`, `mcap`, `age` (default: vol)\n' +
@@ -46,26 +67,51 @@ export async function handleLaunches(message: Message, args: string[], store: La
   const sortArg = args[1]?.toLowerCase();
   const sortBy: SortOption = sortArg && SORT_MAP[sortArg] ? SORT_MAP[sortArg] : 'volume';
 
-  // Fetch launches
-  const launches = store.getLaunches(timeframeHours, sortBy, 15);
+  const state: ListingState = { command: 'launches', userId: ctx.userId, timeframe: timeframeArg, sort: sortBy, page: 0 };
+  await ctx.reply(await buildLaunchesPage(state, storage));
+}
+
+// Prev/Next buttons and sort/timeframe menus on a launches listing
+export async function handleLaunchesComponent(
+  interaction: MessageComponentInteraction,
+  state: ListingState,
+  control: ListingControl,
+  storage: LaunchStorage
+): Promise<void> {
+  await interaction.update(await buildLaunchesPage(applyListingControl(interaction, state, control), storage));
+}
+
+async function buildLaunchesPage(state: ListingState, storage: LaunchStorage): Promise<BaseMessageOptions> {
+  // State comes back from component custom IDs, so fall back to defaults rather than fail
+  const timeframeHours = parseTimeframe(state.timeframe) ?? 24;
+  const sortBy: SortOption = SORT_MAP[state.sort] || 'volume';
+
+  const total = await storage.countLaunches(timeframeHours);
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const page = clampPage(state.page, totalPages);
+  const pageState: ListingState = { ...state, sort: sortBy, page };
 
   // Format timeframe for display
   const timeframeDisplay = formatTimeframeDisplay(timeframeHours);
+  const components = buildListingComponents(pageState, {
+    totalPages,
+    sortChoices: LAUNCH_SORT_CHOICES,
+    timeframeChoices: LAUNCH_TIMEFRAME_CHOICES,
+  });
 
-  if (launches.length === 0) {
+  if (total === 0) {
     const embed = new EmbedBuilder()
       .setTitle(`Base Chain Launches - Last ${timeframeDisplay}`)
       .setDescription('No launches found matching the criteria.')
       .setColor(0x0052FF) // Base chain blue
       .setTimestamp();
 
-    await message.reply({ embeds: [embed] });
-    return;
+    return { embeds: [embed], components };
   }
 
-  // Build embed
-  const embed = buildLaunchesEmbed(launches, timeframeDisplay, sortBy);
-  await message.reply({ embeds: [embed] });
+  const launches = await storage.getLaunches(timeframeHours, sortBy, PAGE_SIZE, page * PAGE_SIZE);
+  const embed = buildLaunchesEmbed(launches, timeframeDisplay, sortBy, page * PAGE_SIZE, total);
+  return { embeds: [embed], components };
 }
 
 function formatTimeframeDisplay(hours: number): string {
@@ -78,7 +124,13 @@ function formatTimeframeDisplay(hours: number): string {
   }
 }
 
-function buildLaunchesEmbed(launches: TokenLaunch[], timeframe: string, sortBy: SortOption): EmbedBuilder {
+function buildLaunchesEmbed(
+  launches: TokenLaunch[],
+  timeframe: string,
+  sortBy: SortOption,
+  offset: number,
+  total: number
+): EmbedBuilder {
   const embed = new EmbedBuilder()
     .setTitle(`Base Chain Launches - Last ${timeframe}`)
     .setColor(0x0052FF) // Base chain blue
@@ -89,16 +141,17 @@ function buildLaunchesEmbed(launches: TokenLaunch[], timeframe: string, sortBy:
 
   for (let i = 0; i < launches.length; i++) {
     const launch = launches[i];
-    const rank = i + 1;
+    const rank = offset + i + 1;
 
     const priceChangeEmoji = launch.priceChange24h >= 0 ? '📈' : '📉';
     const priceChange = formatPercent(launch.priceChange24h);
+    const riskBadge = formatRiskSuffix(launch.riskScore);
 
-    description += `**${rank}. ${launch.name} (${launch.symbol})**\n`;
+    description += `**${rank}. ${launch.name} (${launch.symbol})**${riskBadge}\n`;
     description += `💰 MCap: ${formatUsd(launch.marketCap)} | 📊 Vol: ${formatUsd(launch.volume24h)}\n`;
     description += `💵 Price: ${formatPrice(launch.priceUsd)} | ${priceChangeEmoji} ${priceChange}\n`;
     description += `⏰ Age: ${formatAge(launch.pairCreatedAt)} | 💧 Liq: ${formatUsd(launch.liquidityUsd)}\n`;
-    description += `🔗 [DexScreener](${launch.dexscreenerUrl}) | DEX: ${launch.dexId}\n`;
+    description += `🔗 [${formatChartSite(launch.dexscreenerUrl)}](${launch.dexscreenerUrl}) | DEX: ${launch.dexId}\n`;
     description += `\`${truncateAddress(launch.tokenAddress, 10, 8)}\`\n\n`;
   }
 
@@ -112,7 +165,7 @@ function buildLaunchesEmbed(launches: TokenLaunch[], timeframe: string, sortBy:
   // Footer with metadata
   const sortLabel = sortBy === 'volume' ? 'Volume' : sortBy === 'mcap' ? 'Market Cap' : 'Age';
   embed.setFooter({
-    text: `Showing top ${launches.length} results | Sorted by: ${sortLabel}`,
+    text: `Showing ${offset + 1}-${offset + launches.length} of ${total} | Sorted by: ${sortLabel}`,
   });
 
   return embed;
@@ -0,0 +1,192 @@
+import { EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { marketData } from '../../services/marketData';
+import { buildPortfolioEmbed, latestSummarySlot, valuePortfolio } from '../../services/portfolio';
+import { TokenLaunch } from '../../types';
+import { parseAmount } from '../../utils/alertExpression';
+import { config } from '../../utils/config';
+import { formatNumber, formatPrice, formatUsd, truncateAddress } from '../../utils/formatters';
+
+const USAGE =
+  '**Usage:**\n' +
+  '`!portfolio` - View your positions and PnL\n' +
+  '`!portfolio add <contract> <amount> [@price]` - Record a holding (entry defaults to the current price)\n' +
+  '`!portfolio remove <contract>` - Remove a position\n' +
+  '`!portfolio daily on|off` - Daily PnL summary by DM';
+
+export async function handlePortfolio(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
+  const subcommand = args[0]?.toLowerCase();
+
+  switch (subcommand) {
+    case undefined:
+    case 'list':
+      await showPortfolio(ctx, storage);
+      return;
+
+    case 'add':
+      await addPosition(ctx, args.slice(1), storage);
+      return;
+
+    case 'remove':
+    case 'rm':
+      await removePosition(ctx, args[1], storage);
+      return;
+
+    case 'daily':
+      await setDailySummary(ctx, args[1]?.toLowerCase(), storage);
+      return;
+
+    default:
+      await ctx.reply(USAGE);
+  }
+}
+
+async function showPortfolio(ctx: CommandContext, storage: LaunchStorage): Promise<void> {
+  const positions = await storage.getPortfolio(ctx.userId);
+
+  if (positions.length === 0) {
+    const embed = new EmbedBuilder()
+      .setTitle('Your Portfolio')
+      .setDescription(`Your portfolio is empty.\n\n${USAGE}`)
+      .setColor(0x0052FF)
+      .setTimestamp();
+
+    await ctx.reply({ embeds: [embed] });
+    return;
+  }
+
+  await ctx.reply({ embeds: [buildPortfolioEmbed(await valuePortfolio(storage, positions), 'Your Portfolio')] });
+}
+
+async function addPosition(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
+  const [tokenAddress, amountArg, priceArg] = args;
+
+  if (!tokenAddress || !amountArg) {
+    await ctx.reply(USAGE);
+    return;
+  }
+
+  if (!isValidAddress(tokenAddress)) {
+    await ctx.reply('Invalid contract address. Please provide a valid Ethereum address.');
+    return;
+  }
+
+  const amount = parseAmount(amountArg);
+  if (amount === null || amount <= 0) {
+    await ctx.reply('Invalid amount. Use a token count like `1500`, `2.5k` or `1m`.');
+    return;
+  }
+
+  let entryPrice: number | null = null;
+  if (priceArg !== undefined) {
+    entryPrice = parsePrice(priceArg);
+    if (entryPrice === null || entryPrice <= 0) {
+      await ctx.reply('Invalid entry price. Use `@` and a USD price, e.g. `@0.00012`.');
+      return;
+    }
+  }
+
+  const normalizedAddress = tokenAddress.toLowerCase();
+  const launch = await findToken(ctx, normalizedAddress, storage);
+
+  // Without an explicit entry, the position opens at the current price
+  if (entryPrice === null) {
+    if (!launch || !(launch.priceUsd > 0)) {
+      await ctx.reply('No current price for this token. Give the entry price instead, e.g. `@0.00012`.');
+      return;
+    }
+    entryPrice = launch.priceUsd;
+  }
+
+  const position = await storage.addPosition(ctx.userId, normalizedAddress, amount, entryPrice);
+  const merged = position.amount !== amount;
+
+  const embed = new EmbedBuilder()
+    .setTitle(merged ? 'Position Updated' : 'Position Added')
+    .setDescription(
+      `${merged ? 'Added to' : 'Recorded'} **${launch ? `${launch.name} (${launch.symbol})` : 'Unknown Token'}** in your portfolio.`
+    )
+    .addFields(
+      { name: 'Amount', value: formatNumber(position.amount), inline: true },
+      { name: merged ? 'Average Entry' : 'Entry Price', value: formatPrice(position.entryPrice), inline: true },
+      { name: 'Cost Basis', value: formatUsd(position.amount * position.entryPrice), inline: true },
+      { name: 'Contract', value: `\`${truncateAddress(normalizedAddress)}\``, inline: true }
+    )
+    .setColor(0x00FF00)
+    .setTimestamp();
+
+  await ctx.reply({ embeds: [embed] });
+}
+
+// Stored data first, then the market data provider; new tokens are kept
+// fresh by the watched token tracker once they're in a portfolio
+async function findToken(ctx: CommandContext, tokenAddress: string, storage: LaunchStorage): Promise<TokenLaunch | undefined> {
+  const stored = await storage.getLatestTokenData(tokenAddress);
+  if (stored) {
+    return stored;
+  }
+
+  try {
+    await ctx.sendTyping();
+    const pairs = await marketData.getTokenPairs(tokenAddress);
+    if (pairs.length > 0) {
+      const bestPair = pairs.reduce((best, current) => current.volume24h > best.volume24h ? current : best);
+      await storage.upsertTrackedTokens([bestPair]);
+      return bestPair;
+    }
+  } catch (error) {
+    console.error('Error fetching token info:', error);
+  }
+  return undefined;
+}
+
+async function removePosition(ctx: CommandContext, tokenAddress: string | undefined, storage: LaunchStorage): Promise<void> {
+  if (!tokenAddress) {
+    await ctx.reply('**Usage:** `!portfolio remove <contract_address>`');
+    return;
+  }
+
+  if (!isValidAddress(tokenAddress)) {
+    await ctx.reply('Invalid contract address.');
+    return;
+  }
+
+  const removed = await storage.removePosition(ctx.userId, tokenAddress.toLowerCase());
+
+  if (removed) {
+    await ctx.reply(`Position in \`${truncateAddress(tokenAddress)}\` removed from your portfolio.`);
+  } else {
+    await ctx.reply('Token not found in your portfolio.');
+  }
+}
+
+async function setDailySummary(ctx: CommandContext, setting: string | undefined, storage: LaunchStorage): Promise<void> {
+  const hour = `${String(config.portfolio.summaryHourUtc).padStart(2, '0')}:00 UTC`;
+
+  if (setting !== 'on' && setting !== 'off') {
+    const enabled = await storage.getDailySummaryEnabled(ctx.userId);
+    await ctx.reply(
+      `Daily PnL summary is **${enabled ? 'on' : 'off'}**. ` +
+      `Use \`!portfolio daily on\` or \`!portfolio daily off\`; summaries are sent by DM at ${hour}.`
+    );
+    return;
+  }
+
+  await storage.setDailySummary(ctx.userId, setting === 'on', latestSummarySlot(Date.now()));
+  await ctx.reply(
+    setting === 'on'
+      ? `Daily PnL summary turned on. You'll get a DM at ${hour} each day while you hold positions.`
+      : 'Daily PnL summary turned off.'
+  );
+}
+
+// Parse entry prices like "@0.00012", "@$1.5" or "@1e-7"
+function parsePrice(input: string): number | null {
+  const match = input.match(/^@\$?(\d*\.?\d+(?:e-?\d+)?)$/i);
+  return match ? parseFloat(match[1]) : null;
+}
+
+function isValidAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
@@ -1,11 +1,13 @@
-import { Message, EmbedBuilder } from 'discord.js';
-import { LaunchStore } from '../../database/store';
-import { dexScreenerService } from '../../services/dexscreener';
+import { EmbedBuilder } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import { LaunchStorage } from '../../database/storage';
+import { marketData } from '../../services/marketData';
+import { formatRiskSuffix } from '../../services/riskScore';
 import { formatUsd, formatPrice, truncateAddress } from '../../utils/formatters';
 
-export async function handleTrack(message: Message, args: string[], store: LaunchStore): Promise<void> {
+export async function handleTrack(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
   if (args.length === 0) {
-    await showWatchlist(message, store);
+    await showWatchlist(ctx, storage);
     return;
   }
 
@@ -14,19 +16,19 @@ export async function handleTrack(message: Message, args: string[], store: Launc
   // Handle remove command
   if (subcommand === 'remove' || subcommand === 'rm') {
     if (args.length < 2) {
-      await message.reply('**Usage:** `!track remove <contract_address>`');
+      await ctx.reply('**Usage:** `!track remove <contract_address>`');
       return;
     }
-    await removeFromWatchlist(message, args[1], store);
+    await removeFromWatchlist(ctx, args[1], storage);
     return;
   }
 
   // Otherwise, treat as contract address to add
-  await addToWatchlist(message, args[0], store);
+  await addToWatchlist(ctx, args[0], storage);
 }
 
-async function showWatchlist(message: Message, store: LaunchStore): Promise<void> {
-  const watchlist = store.getWatchlist(message.author.id);
+async function showWatchlist(ctx: CommandContext, storage: LaunchStorage): Promise<void> {
+  const watchlist = await storage.getWatchlist(ctx.userId);
 
   if (watchlist.length === 0) {
     const embed = new EmbedBuilder()
@@ -35,17 +37,18 @@ async function showWatchlist(message: Message, store: LaunchStore): Promise<void
       .setColor(0x0052FF)
       .setTimestamp();
 
-    await message.reply({ embeds: [embed] });
+    await ctx.reply({ embeds: [embed] });
     return;
   }
 
   let description = '';
 
   for (const entry of watchlist) {
-    const launch = store.getLaunchByToken(entry.tokenAddress);
+    const launch = await storage.getLatestTokenData(entry.tokenAddress);
 
     if (launch) {
-      description += `**${launch.name} (${launch.symbol})**\n`;
+      const riskBadge = formatRiskSuffix(launch.riskScore);
+      description += `**${launch.name} (${launch.symbol})**${riskBadge}\n`;
       description += `💰 MCap: ${formatUsd(launch.marketCap)} | 💵 ${formatPrice(launch.priceUsd)}\n`;
       description += `\`${truncateAddress(entry.tokenAddress)}\`\n\n`;
     } else {
@@ -61,13 +64,13 @@ async function showWatchlist(message: Message, store: LaunchStore): Promise<void
     .setFooter({ text: `${watchlist.length} tokens | Use !track remove <address> to remove` })
     .setTimestamp();
 
-  await message.reply({ embeds: [embed] });
+  await ctx.reply({ embeds: [embed] });
 }
 
-async function addToWatchlist(message: Message, tokenAddress: string, store: LaunchStore): Promise<void> {
+async function addToWatchlist(ctx: CommandContext, tokenAddress: string, storage: LaunchStorage): Promise<void> {
   // Validate address format
   if (!isValidAddress(tokenAddress)) {
-    await message.reply('Invalid contract address. Please provide a valid Ethereum address.');
+    await ctx.reply('Invalid contract address. Please provide a valid Ethereum address.');
     return;
   }
 
@@ -76,16 +79,16 @@ async function addToWatchlist(message: Message, tokenAddress: string, store: Lau
   // Try to get token info
   let tokenName = 'Unknown Token';
   let tokenSymbol = '???';
-  let launch = store.getLaunchByToken(normalizedAddress);
+  let launch = await storage.getLatestTokenData(normalizedAddress);
 
   if (!launch) {
     // Try to fetch from DexScreener
     try {
-      const pairs = await dexScreenerService.fetchTokenPairs(normalizedAddress);
+      const pairs = await marketData.getTokenPairs(normalizedAddress);
       if (pairs.length > 0) {
         const pair = pairs[0];
-        tokenName = pair.baseToken.name;
-        tokenSymbol = pair.baseToken.symbol;
+        tokenName = pair.name;
+        tokenSymbol = pair.symbol;
       }
     } catch (error) {
       console.error('Error fetching token info:', error);
@@ -96,7 +99,7 @@ async function addToWatchlist(message: Message, tokenAddress: string, store: Lau
   }
 
   // Add to watchlist
-  const added = store.addToWatchlist(message.author.id, normalizedAddress);
+  const added = await storage.addToWatchlist(ctx.userId, normalizedAddress);
 
   if (added) {
     const embed = new EmbedBuilder()
@@ -115,24 +118,24 @@ async function addToWatchlist(message: Message, tokenAddress: string, store: Lau
       );
     }
 
-    await message.reply({ embeds: [embed] });
+    await ctx.reply({ embeds: [embed] });
   } else {
-    await message.reply('This token is already in your watchlist.');
+    await ctx.reply('This token is already in your watchlist.');
   }
 }
 
-async function removeFromWatchlist(message: Message, tokenAddress: string, store: LaunchStore): Promise<void> {
+async function removeFromWatchlist(ctx: CommandContext, tokenAddress: string, storage: LaunchStorage): Promise<void> {
   if (!isValidAddress(tokenAddress)) {
-    await message.reply('Invalid contract address.');
+    await ctx.reply('Invalid contract address.');
     return;
   }
 
-  const removed = store.removeFromWatchlist(message.author.id, tokenAddress.toLowerCase());
+  const removed = await storage.removeFromWatchlist(ctx.userId, tokenAddress.toLowerCase());
 
   if (removed) {
-    await message.reply(`Token \`${truncateAddress(tokenAddress)}\` removed from your watchlist.`);
+    await ctx.reply(`Token \`${truncateAddress(tokenAddress)}\` removed from your watchlist.`);
   } else {
-    await message.reply('Token not found in your watchlist.');
+    await ctx.reply('Token not found in your watchlist.');
   }
 }
 
@@ -1,54 +1,126 @@
-import { Message, EmbedBuilder } from 'discord.js';
-import { LaunchStore } from '../../database/store';
-import { dexScreenerService } from '../../services/dexscreener';
-import { TokenLaunch } from '../../types';
-import { formatUsd, formatPrice, formatPercent, truncateAddress } from '../../utils/formatters';
-
-export async function handleTrending(message: Message, args: string[], store: LaunchStore): Promise<void> {
-  if ('sendTyping' in message.channel) {
-    await message.channel.sendTyping();
-  }
+import { BaseMessageOptions, EmbedBuilder, MessageComponentInteraction } from 'discord.js';
+import { CommandContext } from '../commandContext';
+import {
+  ListingChoice,
+  ListingControl,
+  ListingState,
+  applyListingControl,
+  buildListingComponents,
+  clampPage,
+} from '../pagination';
+import { LaunchStorage } from '../../database/storage';
+import { marketData } from '../../services/marketData';
+import { formatRiskSuffix } from '../../services/riskScore';
+import { decayedTrendScore } from '../../services/trendingScore';
+import { TokenLaunch, TrendingSort } from '../../types';
+import { config } from '../../utils/config';
+import { formatUsd, formatPrice, formatPercent, truncateAddress, formatChartSite } from '../../utils/formatters';
+
+const PAGE_SIZE = 10;
+
+// Paging through trending shouldn't refetch boosts on every click
+const BOOST_CACHE_MS = 60 * 1000;
+
+const TRENDING_TIMEFRAMES: Record<string, number> = {
+  '1h': 1,
+  '6h': 6,
+  '24h': 24,
+  '48h': 48,
+};
+
+const TRENDING_SORT_CHOICES: ListingChoice[] = [
+  { label: 'Trending', value: 'score' },
+  { label: 'Volume', value: 'volume' },
+  { label: 'Price Change', value: 'change' },
+];
+
+let boostCache: { tokens: Set<string>; fetchedAt: number } | null = null;
+
+export async function handleTrending(ctx: CommandContext, args: string[], storage: LaunchStorage): Promise<void> {
+  await ctx.sendTyping();
+
+  const state: ListingState = { command: 'trending', userId: ctx.userId, timeframe: '24h', sort: 'score', page: 0 };
+  await ctx.reply(await buildTrendingPage(state, storage));
+}
 
-  // Get trending from local data
-  const localTrending = store.getTrendingLaunches(10);
+// Prev/Next buttons and sort/timeframe menus on a trending listing
+export async function handleTrendingComponent(
+  interaction: MessageComponentInteraction,
+  state: ListingState,
+  control: ListingControl,
+  storage: LaunchStorage
+): Promise<void> {
+  // Acknowledge first; fetching boosts can take longer than Discord waits
+  await interaction.deferUpdate();
+  await interaction.editReply(await buildTrendingPage(applyListingControl(interaction, state, control), storage));
+}
 
-  // Also try to get boosted tokens from DexScreener
-  let boostedTokens: string[] = [];
-  try {
-    const boosts = await dexScreenerService.fetchLatestBoosts();
-    boostedTokens = boosts.map(b => b.tokenAddress.toLowerCase());
-  } catch (error) {
-    console.error('Error fetching boosts:', error);
-  }
+async function buildTrendingPage(state: ListingState, storage: LaunchStorage): Promise<BaseMessageOptions> {
+  const timeframe = TRENDING_TIMEFRAMES[state.timeframe] ? state.timeframe : '24h';
+  const sortBy = (TRENDING_SORT_CHOICES.some(choice => choice.value === state.sort) ? state.sort : 'score') as TrendingSort;
+  const timeframeHours = TRENDING_TIMEFRAMES[timeframe];
+
+  const total = await storage.countTrendingLaunches(timeframeHours);
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const page = clampPage(state.page, totalPages);
+  const pageState: ListingState = { ...state, timeframe, sort: sortBy, page };
+
+  const components = buildListingComponents(pageState, {
+    totalPages,
+    sortChoices: TRENDING_SORT_CHOICES,
+    timeframeChoices: Object.keys(TRENDING_TIMEFRAMES).map(value => ({ label: value, value })),
+  });
 
-  if (localTrending.length === 0) {
+  if (total === 0) {
     const embed = new EmbedBuilder()
       .setTitle('Trending on Base')
       .setDescription('No trending tokens found at the moment. Check back later!')
       .setColor(0x0052FF)
       .setTimestamp();
 
-    await message.reply({ embeds: [embed] });
-    return;
+    return { embeds: [embed], components };
   }
 
   // Mark boosted tokens
-  const trending = localTrending.map(launch => ({
+  const boostedTokens = await getBoostedTokens();
+  const trending = (await storage.getTrendingLaunches(timeframeHours, sortBy, PAGE_SIZE, page * PAGE_SIZE, config.trending.halfLifeMinutes)).map(launch => ({
     ...launch,
-    isBoosted: boostedTokens.includes(launch.tokenAddress.toLowerCase())
+    isBoosted: boostedTokens.has(launch.tokenAddress.toLowerCase())
   }));
 
-  const embed = buildTrendingEmbed(trending);
-  await message.reply({ embeds: [embed] });
+  const embed = buildTrendingEmbed(trending, timeframe, sortBy, page * PAGE_SIZE, total);
+  return { embeds: [embed], components };
+}
+
+// Boosted tokens from the market data provider, cached briefly; empty if unavailable
+async function getBoostedTokens(): Promise<Set<string>> {
+  if (boostCache && Date.now() - boostCache.fetchedAt < BOOST_CACHE_MS) {
+    return boostCache.tokens;
+  }
+
+  try {
+    const boosts = await marketData.getBoostedTokens();
+    boostCache = { tokens: new Set(boosts), fetchedAt: Date.now() };
+    return boostCache.tokens;
+  } catch (error) {
+    console.error('Error fetching boosts:', error);
+    return boostCache?.tokens || new Set();
+  }
 }
 
 interface TrendingLaunch extends TokenLaunch {
   isBoosted: boolean;
 }
 
-function buildTrendingEmbed(trending: TrendingLaunch[]): EmbedBuilder {
+function buildTrendingEmbed(
+  trending: TrendingLaunch[],
+  timeframe: string,
+  sortBy: TrendingSort,
+  offset: number,
+  total: number
+): EmbedBuilder {
   const embed = new EmbedBuilder()
-    .setTitle('🔥 Trending on Base')
+    .setTitle(`🔥 Trending on Base - Last ${timeframe}`)
     .setColor(0xFF6B00) // Orange for trending
     .setTimestamp();
 
@@ -56,15 +128,20 @@ function buildTrendingEmbed(trending: TrendingLaunch[]): EmbedBuilder {
 
   for (let i = 0; i < trending.length; i++) {
     const launch = trending[i];
-    const rank = i + 1;
+    const rank = offset + i + 1;
 
     const priceChangeEmoji = launch.priceChange24h >= 0 ? '📈' : '📉';
     const boostBadge = launch.isBoosted ? ' 🚀' : '';
+    const riskBadge = formatRiskSuffix(launch.riskScore);
 
-    description += `**${rank}. ${launch.name} (${launch.symbol})${boostBadge}**\n`;
+    description += `**${rank}. ${launch.name} (${launch.symbol})${boostBadge}**${riskBadge}\n`;
     description += `💰 MCap: ${formatUsd(launch.marketCap)} | 📊 Vol: ${formatUsd(launch.volume24h)}\n`;
     description += `💵 ${formatPrice(launch.priceUsd)} | ${priceChangeEmoji} ${formatPercent(launch.priceChange24h)}\n`;
-    description += `🔗 [DexScreener](${launch.dexscreenerUrl}) | \`${truncateAddress(launch.tokenAddress, 8, 6)}\`\n\n`;
+    if (launch.trendScore !== undefined) {
+      const reasons = launch.trendReasons?.length ? `: ${launch.trendReasons.join(', ')}` : '';
+      description += `⚡ Momentum ${Math.round(decayedTrendScore(launch))}${reasons}\n`;
+    }
+    description += `🔗 [${formatChartSite(launch.dexscreenerUrl)}](${launch.dexscreenerUrl}) | \`${truncateAddress(launch.tokenAddress, 8, 6)}\`\n\n`;
   }
 
   if (description.length > 4000) {
@@ -73,8 +150,9 @@ function buildTrendingEmbed(trending: TrendingLaunch[]): EmbedBuilder {
 
   embed.setDescription(description);
 
+  const sortLabel = sortBy === 'volume' ? 'volume' : sortBy === 'change' ? 'price change' : 'momentum';
   embed.setFooter({
-    text: `Top ${trending.length} by volume × price change | 🚀 = Boosted on DexScreener`
+    text: `${offset + 1}-${offset + trending.length} of ${total} by ${sortLabel} | 🚀 = Boosted on DexScreener`
   });
 
   return embed;
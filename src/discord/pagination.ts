@@ -0,0 +1,136 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  MessageActionRowComponentBuilder,
+  MessageComponentInteraction,
+  StringSelectMenuBuilder,
+} from 'discord.js';
+
+const CUSTOM_ID_SEPARATOR = ':';
+
+/**
+ * Where a user is in a paginated listing. The state travels inside each
+ * component's custom ID, so buttons keep working across bot restarts without
+ * any server-side session.
+ */
+export interface ListingState {
+  command: string;
+  userId: string;
+  timeframe: string;
+  sort: string;
+  page: number;
+}
+
+export type ListingControl = 'prev' | 'next' | 'page' | 'sort' | 'timeframe';
+
+export interface ListingChoice {
+  label: string;
+  value: string;
+}
+
+export interface ListingOptions {
+  totalPages: number;
+  sortChoices: ListingChoice[];
+  timeframeChoices: ListingChoice[];
+}
+
+export function encodeListingId(state: ListingState, control: ListingControl): string {
+  return [state.command, state.userId, state.timeframe, state.sort, state.page, control].join(CUSTOM_ID_SEPARATOR);
+}
+
+export function decodeListingId(customId: string): { state: ListingState; control: ListingControl } | null {
+  const [command, userId, timeframe, sort, page, control] = customId.split(CUSTOM_ID_SEPARATOR);
+  const pageNumber = parseInt(page, 10);
+
+  if (!command || !userId || !timeframe || !sort || isNaN(pageNumber) || !control) {
+    return null;
+  }
+
+  return {
+    state: { command, userId, timeframe, sort, page: pageNumber },
+    control: control as ListingControl,
+  };
+}
+
+/**
+ * The listing state after a button press or select menu choice. Changing the
+ * sort or timeframe starts again from the first page.
+ */
+export function applyListingControl(
+  interaction: MessageComponentInteraction,
+  state: ListingState,
+  control: ListingControl
+): ListingState {
+  const selected = interaction.isStringSelectMenu() ? interaction.values[0] : undefined;
+
+  switch (control) {
+    case 'prev':
+      return { ...state, page: Math.max(0, state.page - 1) };
+    case 'next':
+      return { ...state, page: state.page + 1 };
+    case 'sort':
+      return selected ? { ...state, sort: selected, page: 0 } : state;
+    case 'timeframe':
+      return selected ? { ...state, timeframe: selected, page: 0 } : state;
+    case 'page':
+    default:
+      return state;
+  }
+}
+
+export function clampPage(page: number, totalPages: number): number {
+  return Math.min(Math.max(0, page), Math.max(0, totalPages - 1));
+}
+
+/**
+ * Prev/page/Next buttons plus sort and timeframe menus for a listing
+ */
+export function buildListingComponents(
+  state: ListingState,
+  options: ListingOptions
+): ActionRowBuilder<MessageActionRowComponentBuilder>[] {
+  const { totalPages, sortChoices, timeframeChoices } = options;
+
+  const buttons = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(encodeListingId(state, 'prev'))
+      .setLabel('◀ Prev')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(state.page <= 0),
+    new ButtonBuilder()
+      .setCustomId(encodeListingId(state, 'page'))
+      .setLabel(`Page ${state.page + 1}/${Math.max(1, totalPages)}`)
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(true),
+    new ButtonBuilder()
+      .setCustomId(encodeListingId(state, 'next'))
+      .setLabel('Next ▶')
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(state.page >= totalPages - 1)
+  );
+
+  const sortMenu = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new StringSelectMenuBuilder()
+      .setCustomId(encodeListingId(state, 'sort'))
+      .setPlaceholder('Sort by')
+      .addOptions(sortChoices.map(choice => ({
+        label: `Sort: ${choice.label}`,
+        value: choice.value,
+        default: choice.value === state.sort,
+      })))
+  );
+
+  const timeframeMenu = new ActionRowBuilder<MessageActionRowComponentBuilder>().addComponents(
+    new StringSelectMenuBuilder()
+      .setCustomId(encodeListingId(state, 'timeframe'))
+      .setPlaceholder(`Timeframe: ${state.timeframe}`)
+      .addOptions(timeframeChoices.map(choice => ({
+        label: `Last ${choice.label}`,
+        value: choice.value,
+        default: choice.value === state.timeframe,
+      })))
+  );
+
+  return [buttons, sortMenu, timeframeMenu];
+}
@@ -0,0 +1,241 @@
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  SlashCommandBuilder,
+  SlashCommandStringOption,
+} from 'discord.js';
+import { LaunchStorage } from '../database/storage';
+import { truncateAddress } from '../utils/formatters';
+import { formatAlertExpression } from '../utils/alertExpression';
+import { LAUNCH_SORT_CHOICES, LAUNCH_TIMEFRAME_CHOICES } from './commands/launches';
+import { CHART_INTERVAL_CHOICES } from './commands/chart';
+
+// Discord caps autocomplete at 25 suggestions
+const MAX_SUGGESTIONS = 25;
+
+// Commands whose replies only concern the caller are shown to them alone
+const EPHEMERAL_COMMANDS = new Set(['track', 'alert', 'portfolio']);
+
+function contractOption(option: SlashCommandStringOption): SlashCommandStringOption {
+  return option
+    .setName('contract')
+    .setDescription('Contract address (type a symbol or name to search)')
+    .setRequired(true)
+    .setAutocomplete(true);
+}
+
+export const SLASH_COMMANDS: RESTPostAPIChatInputApplicationCommandsJSONBody[] = [
+  new SlashCommandBuilder()
+    .setName('launches')
+    .setDescription('View recent token launches on Base')
+    .addStringOption(option => option
+      .setName('timeframe')
+      .setDescription('How far back to look')
+      .setRequired(true)
+      .addChoices(...LAUNCH_TIMEFRAME_CHOICES.map(choice => ({ name: choice.label, value: choice.value }))))
+    .addStringOption(option => option
+      .setName('sort')
+      .setDescription('Sort order (default: volume)')
+      .addChoices(...LAUNCH_SORT_CHOICES.map(choice => ({ name: choice.label, value: choice.value }))))
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('trending')
+    .setDescription('Show trending tokens on Base')
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('info')
+    .setDescription('Get detailed info about a token')
+    .addStringOption(contractOption)
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('chart')
+    .setDescription('Price and volume chart of a token')
+    .addStringOption(contractOption)
+    .addStringOption(option => option
+      .setName('interval')
+      .setDescription('Candle size (default: 5m)')
+      .addChoices(...CHART_INTERVAL_CHOICES.map(interval => ({ name: interval, value: interval }))))
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('archive')
+    .setDescription('Look up launches past the retention window')
+    .addStringOption(option => option
+      .setName('query')
+      .setDescription('Contract or pair address, symbol or name')
+      .setRequired(true))
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('track')
+    .setDescription('Manage your personal watchlist')
+    .addSubcommand(sub => sub
+      .setName('list')
+      .setDescription('View your watchlist'))
+    .addSubcommand(sub => sub
+      .setName('add')
+      .setDescription('Add a token to your watchlist')
+      .addStringOption(contractOption))
+    .addSubcommand(sub => sub
+      .setName('remove')
+      .setDescription('Remove a token from your watchlist')
+      .addStringOption(contractOption))
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('alert')
+    .setDescription('Manage price/volume/mcap/liquidity alerts')
+    .addSubcommand(sub => sub
+      .setName('list')
+      .setDescription('View your alerts'))
+    .addSubcommand(sub => sub
+      .setName('create')
+      .setDescription('Create an alert')
+      .addStringOption(contractOption)
+      .addStringOption(option => option
+        .setName('condition')
+        .setDescription('e.g. price>0.001 and liq>20k repeat 30m to <channel id>')
+        .setRequired(true)))
+    .addSubcommand(sub => sub
+      .setName('history')
+      .setDescription('Show past alert fires')
+      .addIntegerOption(option => option
+        .setName('id')
+        .setDescription('Only show fires of this alert')
+        .setAutocomplete(true)))
+    .addSubcommand(sub => sub
+      .setName('delete')
+      .setDescription('Delete an alert')
+      .addIntegerOption(option => option
+        .setName('id')
+        .setDescription('Alert to delete')
+        .setRequired(true)
+        .setAutocomplete(true)))
+    .toJSON(),
+
+  new SlashCommandBuilder()
+    .setName('portfolio')
+    .setDescription('Track your holdings and PnL')
+    .addSubcommand(sub => sub
+      .setName('list')
+      .setDescription('View your positions and PnL'))
+    .addSubcommand(sub => sub
+      .setName('add')
+      .setDescription('Record a holding')
+      .addStringOption(contractOption)
+      .addStringOption(option => option
+        .setName('amount')
+        .setDescription('Token amount, e.g. 1500 or 2.5m')
+        .setRequired(true))
+      .addNumberOption(option => option
+        .setName('price')
+        .setDescription('Entry price in USD (default: current price)')
+        .setMinValue(0)))
+    .addSubcommand(sub => sub
+      .setName('remove')
+      .setDescription('Remove a position')
+      .addStringOption(contractOption))
+    .addSubcommand(sub => sub
+      .setName('daily')
+      .setDescription('Daily PnL summary by DM')
+      .addBooleanOption(option => option
+        .setName('enabled')
+        .setDescription('Send the summary each day')
+        .setRequired(true)))
+    .toJSON(),
+];
+
+export function isEphemeralCommand(commandName: string): boolean {
+  return EPHEMERAL_COMMANDS.has(commandName);
+}
+
+/**
+ * Translate slash command options into the argument list the `!` prefix
+ * handlers expect, so both front-ends share one implementation.
+ */
+export function slashCommandArgs(interaction: ChatInputCommandInteraction): string[] {
+  const options = interaction.options;
+
+  switch (interaction.commandName) {
+    case 'launches': {
+      const sort = options.getString('sort');
+      return sort ? [options.getString('timeframe', true), sort] : [options.getString('timeframe', true)];
+    }
+
+    case 'info':
+      return [options.getString('contract', true)];
+
+    case 'chart': {
+      const interval = options.getString('interval');
+      return interval ? [options.getString('contract', true), interval] : [options.getString('contract', true)];
+    }
+
+    case 'archive':
+      return options.getString('query', true).split(/\s+/);
+
+    case 'track': {
+      const subcommand = options.getSubcommand();
+      if (subcommand === 'add') return [options.getString('contract', true)];
+      if (subcommand === 'remove') return ['remove', options.getString('contract', true)];
+      return [];
+    }
+
+    case 'alert': {
+      const subcommand = options.getSubcommand();
+      if (subcommand === 'create') return [options.getString('contract', true), options.getString('condition', true)];
+      if (subcommand === 'delete') return ['delete', options.getInteger('id', true).toString()];
+      if (subcommand === 'history') {
+        const alertId = options.getInteger('id');
+        return alertId === null ? ['history'] : ['history', alertId.toString()];
+      }
+      return ['list'];
+    }
+
+    case 'portfolio': {
+      const subcommand = options.getSubcommand();
+      if (subcommand === 'add') {
+        const price = options.getNumber('price');
+        const args = ['add', options.getString('contract', true), options.getString('amount', true)];
+        return price === null ? args : [...args, `@${price}`];
+      }
+      if (subcommand === 'remove') return ['remove', options.getString('contract', true)];
+      if (subcommand === 'daily') return ['daily', options.getBoolean('enabled', true) ? 'on' : 'off'];
+      return ['list'];
+    }
+
+    case 'trending':
+    default:
+      return [];
+  }
+}
+
+export async function handleAutocomplete(interaction: AutocompleteInteraction, storage: LaunchStorage): Promise<void> {
+  const focused = interaction.options.getFocused(true);
+
+  if (focused.name === 'contract') {
+    const choices = (await storage.searchTokens(focused.value, MAX_SUGGESTIONS)).map(token => ({
+      name: `${token.symbol} - ${token.name} (${truncateAddress(token.tokenAddress)})`.slice(0, 100),
+      value: token.tokenAddress,
+    }));
+    await interaction.respond(choices);
+    return;
+  }
+
+  if (focused.name === 'id') {
+    const choices = (await storage.getUserAlerts(interaction.user.id))
+      .filter(alert => alert.id.toString().startsWith(focused.value))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(alert => ({
+        name: `#${alert.id} ${truncateAddress(alert.tokenAddress)}: ${formatAlertExpression(alert.expression)}`.slice(0, 100),
+        value: alert.id,
+      }));
+    await interaction.respond(choices);
+    return;
+  }
+
+  await interaction.respond([]);
+}
@@ -1,12 +1,27 @@
 import { config } from './utils/config';
 import { LaunchStore } from './database/store';
+import { LaunchStorage, createStorage } from './database/storage';
 import { TokenTracker } from './services/tokenTracker';
+import { WatchedTokenTracker } from './services/watchedTokenTracker';
+import { FactoryLogPoller } from './services/factoryLogPoller';
+import { SearchTermPool } from './services/searchTermPool';
+import { dexScreenerService } from './services/dexscreener';
+import { launchFilter } from './services/launchFilter';
 import { AlertChecker } from './services/alertChecker';
+import { LaunchFeed } from './services/launchFeed';
+import { RugDetector } from './services/rugDetector';
+import { PortfolioReporter } from './services/portfolio';
 import { DiscordBot } from './discord/bot';
 
 let store: LaunchStore | null = null;
+let storage: LaunchStorage | null = null;
 let tokenTracker: TokenTracker | null = null;
+let watchedTokenTracker: WatchedTokenTracker | null = null;
+let factoryLogPoller: FactoryLogPoller | null = null;
 let alertChecker: AlertChecker | null = null;
+let launchFeed: LaunchFeed | null = null;
+let rugDetector: RugDetector | null = null;
+let portfolioReporter: PortfolioReporter | null = null;
 let discordBot: DiscordBot | null = null;
 
 async function main(): Promise<void> {
@@ -18,13 +33,26 @@ async function main(): Promise<void> {
   console.log(`Initializing database at: ${config.database.path}`);
   store = new LaunchStore(config.database.path);
 
+  // Launches, watchlists and alerts live in the configured backend
+  console.log(`Using ${config.database.backend} storage for launches, watchlists and alerts`);
+  storage = await createStorage(store);
+
+  // Load launch filter rules; edits to the file apply without a restart
+  launchFilter.load();
+  launchFilter.watch();
+
   // Initialize Discord bot
   console.log('Initializing Discord bot...');
-  discordBot = new DiscordBot(store);
+  discordBot = new DiscordBot(storage, store);
 
   // Initialize token tracker
   console.log('Initializing token tracker...');
-  tokenTracker = new TokenTracker(store);
+  tokenTracker = new TokenTracker(storage, store);
+  watchedTokenTracker = new WatchedTokenTracker(storage, store);
+  factoryLogPoller = new FactoryLogPoller(store);
+
+  // DexScreener discovery searches the learned term pool instead of a fixed list
+  dexScreenerService.setSearchTermSource(new SearchTermPool(storage, store));
 
   // Start Discord bot
   await discordBot.start(config.discord.token);
@@ -41,15 +69,38 @@ async function main(): Promise<void> {
 
   // Initialize alert checker (needs Discord client for DMs)
   console.log('Initializing alert checker...');
-  alertChecker = new AlertChecker(store, discordBot.getClient());
+  alertChecker = new AlertChecker(storage, store, discordBot.getClient());
+
+  // Initialize new-launch feed (posts into guild channels)
+  console.log('Initializing launch feed...');
+  launchFeed = new LaunchFeed(storage, discordBot.getClient());
+  tokenTracker.onNewLaunches(launches => {
+    launchFeed?.publish(launches).catch(err => console.error('Launch feed error:', err));
+  });
+  launchFeed.start();
+
+  // Check every poll for pulled liquidity and collapsed prices (DMs watchlisters)
+  rugDetector = new RugDetector(storage, store, discordBot.getClient());
+  tokenTracker.onPoll(pairs => {
+    rugDetector?.check(pairs).catch(err => console.error('Rug detector error:', err));
+  });
+  watchedTokenTracker.onRefresh(launches => {
+    rugDetector?.check(launches).catch(err => console.error('Rug detector error:', err));
+  });
+
+  // Daily PnL summaries for users who asked for them
+  portfolioReporter = new PortfolioReporter(storage, discordBot.getClient());
+  portfolioReporter.start();
 
   // Start polling and alert checking
+  await factoryLogPoller.startPolling();
   await tokenTracker.startPolling();
+  await watchedTokenTracker.startPolling();
   alertChecker.startChecking(60000); // Check alerts every minute
 
   console.log('='.repeat(50));
   console.log('Bot is now running!');
-  console.log('Commands: !launches, !trending, !info, !track, !alert, !help');
+  console.log('Commands: !launches, !trending, !info, !chart, !archive, !track, !portfolio, !alert, !feed, !admin, !help');
   console.log('='.repeat(50));
 }
 
@@ -60,14 +111,36 @@ async function shutdown(): Promise<void> {
     alertChecker.stopChecking();
   }
 
+  if (launchFeed) {
+    launchFeed.stop();
+  }
+
+  if (portfolioReporter) {
+    portfolioReporter.stop();
+  }
+
   if (tokenTracker) {
     tokenTracker.stopPolling();
   }
 
+  if (watchedTokenTracker) {
+    watchedTokenTracker.stopPolling();
+  }
+
+  if (factoryLogPoller) {
+    factoryLogPoller.stopPolling();
+  }
+
+  launchFilter.stopWatching();
+
   if (discordBot) {
     await discordBot.stop();
   }
 
+  if (storage) {
+    await storage.close();
+  }
+
   if (store) {
     store.close();
   }
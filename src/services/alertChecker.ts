@@ -1,16 +1,22 @@
-import { Client, User } from 'discord.js';
+import { Client } from 'discord.js';
+import { LaunchStorage } from '../database/storage';
 import { LaunchStore } from '../database/store';
-import { Alert, TokenLaunch } from '../types';
-import { formatUsd, formatPrice, truncateAddress } from '../utils/formatters';
+import { Alert, AlertCondition, AlertConditionValue, AlertExpression, AlertOperator, TokenLaunch } from '../types';
+import { getExpressionConditions, getMetricValue } from '../utils/alertExpression';
+import { config } from '../utils/config';
+import { AlertDispatcher } from './alertDelivery';
 
 export class AlertChecker {
+  private storage: LaunchStorage;
   private store: LaunchStore;
-  private discordClient: Client;
+  private dispatcher: AlertDispatcher;
   private checkInterval: NodeJS.Timeout | null = null;
+  private isChecking: boolean = false;
 
-  constructor(store: LaunchStore, discordClient: Client) {
+  constructor(storage: LaunchStorage, store: LaunchStore, discordClient: Client) {
+    this.storage = storage;
     this.store = store;
-    this.discordClient = discordClient;
+    this.dispatcher = new AlertDispatcher(discordClient);
   }
 
   startChecking(intervalMs: number = 60000): void {
@@ -34,7 +40,22 @@ export class AlertChecker {
   }
 
   private async checkAlerts(): Promise<void> {
-    const activeAlerts = this.store.getActiveAlerts();
+    // Slow storage can outlast the interval; skip rather than evaluate twice
+    if (this.isChecking) {
+      console.log('Previous alert check still running, skipping this one');
+      return;
+    }
+    this.isChecking = true;
+
+    try {
+      await this.checkActiveAlerts();
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  private async checkActiveAlerts(): Promise<void> {
+    const activeAlerts = await this.storage.getActiveAlerts();
 
     if (activeAlerts.length === 0) {
       return;
@@ -44,17 +65,43 @@ export class AlertChecker {
 
     for (const alert of activeAlerts) {
       try {
-        const launch = this.store.getLaunchByToken(alert.tokenAddress);
+        const launch = await this.storage.getLatestTokenData(alert.tokenAddress);
 
         if (!launch) {
+          // Not refreshed yet (new alert) or not listed on DexScreener
           continue;
         }
 
-        const isTriggered = this.evaluateAlert(alert, launch);
-
-        if (isTriggered) {
-          await this.triggerAlert(alert, launch);
-          this.store.markAlertTriggered(alert.id);
+        await this.captureBaselines(alert, launch);
+        const isTriggered = this.evaluateExpression(alert.expression, launch);
+
+        if (await this.shouldFire(alert, isTriggered, launch)) {
+          // Another instance sharing the storage may have fired it since we read it
+          if (!await this.storage.markAlertTriggered(alert.id, alert.mode, alert.lastTriggeredAt)) {
+            continue;
+          }
+
+          const values = this.getConditionValues(alert, launch);
+          const firedAt = Date.now();
+
+          // Delivery and its retries run off the evaluation loop
+          this.dispatcher.enqueue({ alert, launch, values, firedAt }, async result => {
+            if (result.delivered) {
+              console.log(`Alert ${alert.id} triggered for user ${alert.userId} via ${result.sink}`);
+            }
+
+            await this.storage.recordAlertDelivery(alert.id, result.delivered);
+            await this.storage.recordAlertEvent({
+              alertId: alert.id,
+              userId: alert.userId,
+              tokenAddress: alert.tokenAddress,
+              firedAt,
+              expression: alert.expression,
+              values,
+              snapshot: launch,
+              ...result,
+            });
+          });
         }
       } catch (error) {
         console.error(`Error checking alert ${alert.id}:`, error);
@@ -62,95 +109,128 @@ export class AlertChecker {
     }
   }
 
-  private evaluateAlert(alert: Alert, launch: TokenLaunch): boolean {
-    let currentValue: number;
-
-    switch (alert.conditionType) {
-      case 'price':
-        currentValue = launch.priceUsd;
-        break;
-      case 'volume':
-        currentValue = launch.volume24h;
-        break;
-      case 'mcap':
-        currentValue = launch.marketCap;
-        break;
-      default:
+  private async shouldFire(alert: Alert, isTriggered: boolean, launch: TokenLaunch): Promise<boolean> {
+    switch (alert.mode) {
+      case 'repeat': {
+        if (!isTriggered) {
+          return false;
+        }
+        const cooldownMs = (alert.cooldownMinutes ?? config.alerts.defaultCooldownMinutes) * 60 * 1000;
+        return alert.lastTriggeredAt === null || Date.now() - alert.lastTriggeredAt >= cooldownMs;
+      }
+
+      case 'cross': {
+        if (alert.armed) {
+          return isTriggered;
+        }
+        // Re-arm only once the expression is false even with every threshold
+        // relaxed by the band, so a value hovering at the line doesn't spam
+        const band = alert.hysteresisPercent ?? config.alerts.defaultHysteresisPercent;
+        if (!this.evaluateExpression(alert.expression, launch, band)) {
+          await this.storage.setAlertArmed(alert.id, true);
+          console.log(`Alert ${alert.id} re-armed`);
+        }
         return false;
+      }
+
+      case 'once':
+      default:
+        return isTriggered;
     }
+  }
 
-    switch (alert.operator) {
-      case '>':
-        return currentValue > alert.threshold;
-      case '<':
-        return currentValue < alert.threshold;
-      case '=':
-        // For equality, use a small tolerance
-        const tolerance = alert.threshold * 0.01; // 1% tolerance
-        return Math.abs(currentValue - alert.threshold) <= tolerance;
+  // "since" conditions on tokens that weren't tracked when the alert was
+  // created start measuring from the first value we see
+  private async captureBaselines(alert: Alert, launch: TokenLaunch): Promise<void> {
+    let captured = false;
+
+    for (const condition of getExpressionConditions(alert.expression)) {
+      if (condition.kind === 'since' && condition.baselineValue === null) {
+        condition.baselineValue = getMetricValue(condition.conditionType, launch);
+        captured = true;
+      }
+    }
+
+    if (captured) {
+      await this.storage.updateAlertExpression(alert.id, alert.expression);
+    }
+  }
+
+  // bandPercent loosens each threshold towards "true": a relative band for
+  // absolute values, percentage points for % change conditions
+  private evaluateExpression(expression: AlertExpression, launch: TokenLaunch, bandPercent: number = 0): boolean {
+    switch (expression.type) {
+      case 'condition':
+        return this.evaluateCondition(expression.condition, launch, bandPercent);
+      case 'and':
+        return expression.children.every(child => this.evaluateExpression(child, launch, bandPercent));
+      case 'or':
+        return expression.children.some(child => this.evaluateExpression(child, launch, bandPercent));
       default:
         return false;
     }
   }
 
-  private async triggerAlert(alert: Alert, launch: TokenLaunch): Promise<void> {
-    try {
-      const user = await this.discordClient.users.fetch(alert.userId);
+  private evaluateCondition(condition: AlertCondition, launch: TokenLaunch, bandPercent: number): boolean {
+    const direction = condition.operator === '>' ? -1 : condition.operator === '<' ? 1 : 0;
 
-      if (!user) {
-        console.log(`Could not find user ${alert.userId} for alert ${alert.id}`);
-        return;
-      }
+    if (condition.kind === 'absolute') {
+      const currentValue = getMetricValue(condition.conditionType, launch);
+      const threshold = condition.threshold * (1 + direction * bandPercent / 100);
+      return this.compare(currentValue, condition.operator, threshold);
+    }
 
-      const conditionStr = this.formatCondition(alert);
-      const currentValue = this.getCurrentValue(alert, launch);
-
-      const message = [
-        `**Alert Triggered!**`,
-        ``,
-        `**Token:** ${launch.name} (${launch.symbol})`,
-        `**Condition:** ${conditionStr}`,
-        `**Current Value:** ${currentValue}`,
-        ``,
-        `**Price:** ${formatPrice(launch.priceUsd)}`,
-        `**Market Cap:** ${formatUsd(launch.marketCap)}`,
-        `**24h Volume:** ${formatUsd(launch.volume24h)}`,
-        ``,
-        `**Contract:** \`${truncateAddress(launch.tokenAddress)}\``,
-        `**DexScreener:** ${launch.dexscreenerUrl}`,
-      ].join('\n');
-
-      await user.send(message);
-      console.log(`Alert ${alert.id} triggered for user ${alert.userId}`);
-    } catch (error: any) {
-      if (error.code === 50007) {
-        console.log(`Cannot DM user ${alert.userId} - DMs are closed`);
-      } else {
-        console.error(`Error sending alert DM:`, error);
-      }
+    const changePercent = this.getChangePercent(condition, launch);
+    if (changePercent === null) {
+      return false;
     }
+
+    return this.compare(changePercent, condition.operator, condition.threshold + direction * bandPercent);
   }
 
-  private formatCondition(alert: Alert): string {
-    const typeStr = alert.conditionType === 'mcap' ? 'Market Cap' :
-                    alert.conditionType === 'price' ? 'Price' : '24h Volume';
-    const thresholdStr = alert.conditionType === 'price'
-      ? formatPrice(alert.threshold)
-      : formatUsd(alert.threshold);
+  // % change of the condition's metric against its reference value, or null
+  // if there is nothing to compare against yet
+  private getChangePercent(condition: AlertCondition, launch: TokenLaunch): number | null {
+    const currentValue = getMetricValue(condition.conditionType, launch);
+    let referenceValue: number | null;
+
+    if (condition.kind === 'since') {
+      referenceValue = condition.baselineValue;
+    } else {
+      // Oldest snapshot inside the window is the value "N minutes ago" (or
+      // as close to it as history allows for younger pairs)
+      const windowMs = (condition.windowMinutes || 0) * 60 * 1000;
+      const history = this.store.getSnapshots(launch.pairAddress, windowMs);
+      referenceValue = history.length > 0 ? getMetricValue(condition.conditionType, history[0]) : null;
+    }
+
+    if (!referenceValue || referenceValue <= 0) {
+      return null;
+    }
 
-    return `${typeStr} ${alert.operator} ${thresholdStr}`;
+    return ((currentValue - referenceValue) / referenceValue) * 100;
   }
 
-  private getCurrentValue(alert: Alert, launch: TokenLaunch): string {
-    switch (alert.conditionType) {
-      case 'price':
-        return formatPrice(launch.priceUsd);
-      case 'volume':
-        return formatUsd(launch.volume24h);
-      case 'mcap':
-        return formatUsd(launch.marketCap);
+  private compare(value: number, operator: AlertOperator, threshold: number): boolean {
+    switch (operator) {
+      case '>':
+        return value > threshold;
+      case '<':
+        return value < threshold;
+      case '=':
+        // For equality, use a small tolerance
+        const tolerance = Math.abs(threshold) * 0.01; // 1% tolerance
+        return Math.abs(value - threshold) <= tolerance;
       default:
-        return 'N/A';
+        return false;
     }
   }
+
+  private getConditionValues(alert: Alert, launch: TokenLaunch): AlertConditionValue[] {
+    return getExpressionConditions(alert.expression).map(condition => ({
+      condition,
+      value: getMetricValue(condition.conditionType, launch),
+      changePercent: condition.kind === 'absolute' ? null : this.getChangePercent(condition, launch),
+    }));
+  }
 }
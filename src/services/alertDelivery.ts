@@ -0,0 +1,354 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import https from 'https';
+import net from 'net';
+import { Client } from 'discord.js';
+import { Alert, AlertConditionValue, AlertDeliveryType, TokenLaunch } from '../types';
+import { config } from '../utils/config';
+import {
+  formatUsd,
+  formatPrice,
+  formatPercent,
+  formatAlertCondition,
+  formatMetricValue,
+  formatChartSite,
+  truncateAddress,
+} from '../utils/formatters';
+import { formatAlertExpression, formatAlertMode } from '../utils/alertExpression';
+
+export interface AlertNotification {
+  alert: Alert;
+  launch: TokenLaunch;
+  values: AlertConditionValue[];
+  firedAt: number;
+}
+
+export interface DeliveryResult {
+  sink: AlertDeliveryType;
+  attempts: number;
+  delivered: boolean;
+  failureReason: string | null;
+}
+
+interface AlertSink {
+  send(notification: AlertNotification): Promise<void>;
+}
+
+type DeliveryHandler = (result: DeliveryResult) => Promise<void>;
+
+interface QueuedDelivery {
+  notification: AlertNotification;
+  onResult: DeliveryHandler;
+}
+
+// Deliveries in flight at once; each may spend a while in retry backoff
+const MAX_CONCURRENT_DELIVERIES = 4;
+
+// Discord error codes that retrying won't fix
+const DISCORD_PERMANENT_ERRORS: Record<number, string> = {
+  10003: 'Channel not found (Discord error 10003)',
+  10013: 'User not found (Discord error 10013)',
+  50001: 'Bot has no access to the channel (Discord error 50001)',
+  50007: 'DMs are closed (Discord error 50007)',
+  50013: 'Bot lacks permission to post in the channel (Discord error 50013)',
+};
+
+/**
+ * A failure that retrying won't fix, e.g. closed DMs or a webhook answering 404
+ */
+class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentDeliveryError';
+  }
+}
+
+function toPermanentDiscordError(error: any): Error {
+  const reason = DISCORD_PERMANENT_ERRORS[error?.code];
+  return reason ? new PermanentDeliveryError(reason) : error;
+}
+
+class DmSink implements AlertSink {
+  constructor(private client: Client) {}
+
+  async send(notification: AlertNotification): Promise<void> {
+    try {
+      const user = await this.client.users.fetch(notification.alert.userId);
+      await user.send(formatAlertMessage(notification));
+    } catch (error) {
+      throw toPermanentDiscordError(error);
+    }
+  }
+}
+
+class ChannelSink implements AlertSink {
+  constructor(private client: Client) {}
+
+  async send(notification: AlertNotification): Promise<void> {
+    const { alert } = notification;
+
+    try {
+      const channel = await this.client.channels.fetch(alert.delivery.target || '');
+      if (!channel || !channel.isTextBased() || !('send' in channel)) {
+        throw new PermanentDeliveryError('Channel not found or not a text channel');
+      }
+
+      await channel.send({
+        content: `${formatAlertMessage(notification)}\n\n*Alert #${alert.id} set by <@${alert.userId}>*`,
+        allowedMentions: { parse: [] },
+      });
+    } catch (error) {
+      throw toPermanentDiscordError(error);
+    }
+  }
+}
+
+class WebhookSink implements AlertSink {
+  async send(notification: AlertNotification): Promise<void> {
+    const secret = config.alerts.webhookSecret;
+    if (!secret) {
+      throw new PermanentDeliveryError('Webhook delivery is disabled (ALERT_WEBHOOK_SECRET not set)');
+    }
+
+    const url = notification.alert.delivery.target || '';
+    const urlError = validateWebhookUrl(url);
+    if (urlError) {
+      throw new PermanentDeliveryError(urlError);
+    }
+
+    // The name may have been repointed since the alert was created
+    const privateAddress = (await resolveHost(new URL(url).hostname)).find(isPrivateAddress);
+    if (privateAddress) {
+      throw new PermanentDeliveryError(`Webhook host resolves to a private address (${privateAddress})`);
+    }
+
+    const body = JSON.stringify(buildWebhookPayload(notification));
+    const timestamp = Math.floor(notification.firedAt / 1000).toString();
+
+    try {
+      await axios.post(url, body, {
+        timeout: 10000,
+        maxRedirects: 0,
+        proxy: false,
+        httpsAgent: webhookAgent,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Signature-Timestamp': timestamp,
+          'X-Signature-256': `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+        },
+      });
+    } catch (error: any) {
+      const status: number | undefined = error.response?.status;
+      // A redirect could lead anywhere, so it's never followed
+      if (status && status >= 300 && status < 400) {
+        throw new PermanentDeliveryError(`Webhook redirected with HTTP ${status}; redirects are not followed`);
+      }
+      // 4xx means the receiver rejected the payload; only timeouts and rate limits are worth retrying
+      if (status && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+        throw new PermanentDeliveryError(`Webhook responded with HTTP ${status}`);
+      }
+      throw new Error(status ? `Webhook responded with HTTP ${status}` : error.message);
+    }
+  }
+}
+
+/**
+ * Sends fired alerts to their configured sink, retrying transient failures
+ * with exponential backoff. Queued deliveries run in the background, so a
+ * slow or dead sink never holds up alert evaluation.
+ */
+export class AlertDispatcher {
+  private sinks: Record<AlertDeliveryType, AlertSink>;
+  private queue: QueuedDelivery[] = [];
+  private activeWorkers: number = 0;
+
+  constructor(discordClient: Client) {
+    this.sinks = {
+      dm: new DmSink(discordClient),
+      channel: new ChannelSink(discordClient),
+      webhook: new WebhookSink(),
+    };
+  }
+
+  // Delivers in the background and passes the outcome to `onResult`
+  enqueue(notification: AlertNotification, onResult: DeliveryHandler): void {
+    this.queue.push({ notification, onResult });
+    if (this.activeWorkers < MAX_CONCURRENT_DELIVERIES) {
+      this.activeWorkers++;
+      this.work().finally(() => this.activeWorkers--);
+    }
+  }
+
+  private async work(): Promise<void> {
+    for (let job = this.queue.shift(); job; job = this.queue.shift()) {
+      try {
+        await job.onResult(await this.deliver(job.notification));
+      } catch (error) {
+        console.error(`Error recording delivery of alert ${job.notification.alert.id}:`, error);
+      }
+    }
+  }
+
+  private async deliver(notification: AlertNotification): Promise<DeliveryResult> {
+    const sinkType = notification.alert.delivery.type;
+    const sink = this.sinks[sinkType] || this.sinks.dm;
+    const maxAttempts = Math.max(1, config.alerts.deliveryMaxAttempts);
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await sink.send(notification);
+        return { sink: sinkType, attempts: attempt, delivered: true, failureReason: null };
+      } catch (error: any) {
+        const reason = error.message || 'Unknown error';
+        console.error(`Alert ${notification.alert.id} ${sinkType} delivery failed (attempt ${attempt}/${maxAttempts}): ${reason}`);
+
+        if (error instanceof PermanentDeliveryError || attempt === maxAttempts) {
+          return { sink: sinkType, attempts: attempt, delivered: false, failureReason: reason };
+        }
+
+        const backoffMs = Math.pow(2, attempt - 1) * 1000;
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+      }
+    }
+
+    // Unreachable: the loop always returns on its last attempt
+    return { sink: sinkType, attempts: maxAttempts, delivered: false, failureReason: 'Unknown error' };
+  }
+}
+
+/**
+ * HMAC-SHA256 over "<timestamp>.<body>", hex encoded. Receivers recompute it
+ * with the shared secret and should reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Returns an error message if the URL can't be used as an alert webhook.
+ * Only https is allowed, and obvious local/private hosts are refused so
+ * alerts can't be pointed at services on the bot's own network.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Webhook URL is not a valid URL';
+  }
+
+  if (parsed.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return 'Webhook URL must not point at a local host';
+  }
+
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    return 'Webhook URL must not point at a private address';
+  }
+
+  return null;
+}
+
+// Loopback, private, link-local (incl. cloud metadata), CGNAT, multicast and
+// reserved ranges. IPv4-mapped IPv6 addresses are checked against the IPv4
+// rules by BlockList itself; NAT64 and 6to4 could wrap any IPv4 address.
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(ip: string): boolean {
+  return PRIVATE_ADDRESSES.check(ip, net.isIPv6(ip) ? 'ipv6' : 'ipv4');
+}
+
+// Every address the host resolves to; literal IPs resolve to themselves
+async function resolveHost(hostname: string): Promise<string[]> {
+  const addresses = await dns.promises.lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+  return addresses.map(entry => entry.address);
+}
+
+/**
+ * Resolves like the default lookup but fails if any address is private, so
+ * the connection itself is refused when a host is repointed between the
+ * check in WebhookSink and the request (DNS rebinding).
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const privateAddress = addresses.find(entry => isPrivateAddress(entry.address));
+    if (privateAddress) {
+      callback(new Error(`Webhook host resolves to a private address (${privateAddress.address})`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const webhookAgent = new https.Agent({ lookup: publicOnlyLookup });
+
+function buildWebhookPayload(notification: AlertNotification): object {
+  const { alert, launch, values, firedAt } = notification;
+
+  return {
+    event: 'alert.triggered',
+    alertId: alert.id,
+    userId: alert.userId,
+    firedAt,
+    mode: alert.mode,
+    triggerCount: alert.triggerCount + 1,
+    condition: formatAlertExpression(alert.expression),
+    expression: alert.expression,
+    values,
+    token: launch,
+  };
+}
+
+function formatAlertMessage(notification: AlertNotification): string {
+  const { alert, launch, values } = notification;
+
+  const currentValues = values.map(({ condition, value, changePercent }) => {
+    const valueStr = formatMetricValue(condition.conditionType, value);
+    const changeStr = changePercent === null ? '' : ` (${formatPercent(changePercent)})`;
+    return `• ${formatAlertCondition(condition)}: ${valueStr}${changeStr}`;
+  });
+
+  return [
+    `**Alert Triggered!**`,
+    ``,
+    `**Token:** ${launch.name} (${launch.symbol})`,
+    `**Condition:** ${formatAlertExpression(alert.expression)}`,
+    `**Mode:** ${formatAlertMode(alert)} (fire #${alert.triggerCount + 1})`,
+    `**Current Values:**`,
+    ...currentValues,
+    ``,
+    `**Price:** ${formatPrice(launch.priceUsd)}`,
+    `**Market Cap:** ${formatUsd(launch.marketCap)}`,
+    `**24h Volume:** ${formatUsd(launch.volume24h)}`,
+    `**Liquidity:** ${formatUsd(launch.liquidityUsd)}`,
+    ``,
+    `**Contract:** \`${truncateAddress(launch.tokenAddress)}\``,
+    `**${formatChartSite(launch.dexscreenerUrl)}:** ${launch.dexscreenerUrl}`,
+  ].join('\n');
+}
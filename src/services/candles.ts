@@ -0,0 +1,61 @@
+import { Candle, CandleInterval, LaunchSnapshot } from '../types';
+
+interface IntervalSpec {
+  ms: number;
+  // How much history a chart at this interval covers
+  windowMs: number;
+}
+
+export const CANDLE_INTERVALS: Record<CandleInterval, IntervalSpec> = {
+  '1m': { ms: 60 * 1000, windowMs: 2 * 60 * 60 * 1000 },
+  '5m': { ms: 5 * 60 * 1000, windowMs: 12 * 60 * 60 * 1000 },
+  '15m': { ms: 15 * 60 * 1000, windowMs: 36 * 60 * 60 * 1000 },
+  '1h': { ms: 60 * 60 * 1000, windowMs: 7 * 24 * 60 * 60 * 1000 },
+};
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/**
+ * OHLC candles from a pair's snapshots, oldest first. Intervals without a
+ * snapshot get no candle rather than a flat one. Snapshots only carry the
+ * rolling 24h volume, so a candle's volume is how much that grew during the
+ * candle: exact while the pair is under a day old, an underestimate after,
+ * once old trades start dropping out of the window.
+ */
+export function aggregateCandles(snapshots: LaunchSnapshot[], interval: CandleInterval): Candle[] {
+  const intervalMs = CANDLE_INTERVALS[interval].ms;
+  const candles: Candle[] = [];
+  let previous: LaunchSnapshot | undefined;
+
+  for (const snapshot of snapshots) {
+    if (!(snapshot.priceUsd > 0)) continue;
+
+    const openTime = Math.floor(snapshot.timestamp / intervalMs) * intervalMs;
+    const volume = previous ? Math.max(0, (snapshot.volume24h || 0) - (previous.volume24h || 0)) : 0;
+    const current = candles[candles.length - 1];
+
+    if (current && current.openTime === openTime) {
+      current.high = Math.max(current.high, snapshot.priceUsd);
+      current.low = Math.min(current.low, snapshot.priceUsd);
+      current.close = snapshot.priceUsd;
+      current.volume += volume;
+    } else {
+      // Open where the last candle closed, so consecutive bars connect
+      const open = current ? current.close : snapshot.priceUsd;
+      candles.push({
+        openTime,
+        open,
+        high: Math.max(open, snapshot.priceUsd),
+        low: Math.min(open, snapshot.priceUsd),
+        close: snapshot.priceUsd,
+        volume,
+      });
+    }
+
+    previous = snapshot;
+  }
+
+  return candles;
+}
@@ -0,0 +1,160 @@
+import { createCanvas, SKRSContext2D } from '@napi-rs/canvas';
+import { Candle, CandleInterval } from '../types';
+import { CANDLE_INTERVALS } from './candles';
+import { formatPrice, formatUsd } from '../utils/formatters';
+
+const WIDTH = 900;
+const HEIGHT = 500;
+const PADDING = { top: 44, right: 116, bottom: 32, left: 16 };
+// Share of the plot height given to price; volume bars take the rest
+const PRICE_PANEL_SHARE = 0.72;
+const PANEL_GAP = 12;
+const PRICE_GRID_LINES = 5;
+const TIME_LABELS = 6;
+
+const COLORS = {
+  background: '#1e1f22',
+  grid: '#2f3136',
+  text: '#b5bac1',
+  title: '#f2f3f5',
+  up: '#26a69a',
+  down: '#ef5350',
+};
+
+export interface ChartOptions {
+  title: string;
+  interval: CandleInterval;
+}
+
+/**
+ * Candlestick chart of price with volume bars underneath, as a PNG. The x
+ * axis is time, so intervals without a candle show as gaps.
+ */
+export function renderCandleChart(candles: Candle[], options: ChartOptions): Buffer {
+  const canvas = createCanvas(WIDTH, HEIGHT);
+  const ctx = canvas.getContext('2d');
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+  ctx.fillStyle = COLORS.title;
+  ctx.font = 'bold 18px sans-serif';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`${options.title} · ${options.interval}`, PADDING.left, PADDING.top / 2);
+
+  if (candles.length === 0) {
+    return canvas.toBuffer('image/png');
+  }
+
+  const intervalMs = CANDLE_INTERVALS[options.interval].ms;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const priceHeight = Math.floor(plotHeight * PRICE_PANEL_SHARE);
+  const volumeTop = PADDING.top + priceHeight + PANEL_GAP;
+  const volumeHeight = plotHeight - priceHeight - PANEL_GAP;
+
+  // One slot per interval from the first candle to the last, including empty ones
+  const firstTime = candles[0].openTime;
+  const slots = Math.round((candles[candles.length - 1].openTime - firstTime) / intervalMs) + 1;
+  const slotWidth = plotWidth / slots;
+  const bodyWidth = Math.max(1, Math.min(slotWidth * 0.7, 14));
+  const slotX = (openTime: number) => PADDING.left + ((openTime - firstTime) / intervalMs + 0.5) * slotWidth;
+
+  // Pad the price range so the extremes don't touch the panel edges
+  let low = Math.min(...candles.map(candle => candle.low));
+  let high = Math.max(...candles.map(candle => candle.high));
+  const pad = (high - low) * 0.05 || high * 0.05 || 1;
+  low = Math.max(0, low - pad);
+  high += pad;
+  const priceY = (price: number) => PADDING.top + (1 - (price - low) / (high - low)) * priceHeight;
+
+  const maxVolume = Math.max(...candles.map(candle => candle.volume));
+  const volumeY = (volume: number) => volumeTop + volumeHeight - (maxVolume > 0 ? volume / maxVolume : 0) * volumeHeight;
+
+  drawPriceGrid(ctx, low, high, priceY, plotWidth);
+  drawTimeLabels(ctx, firstTime, slots, intervalMs, slotX);
+
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.fillText(`Vol ${formatUsd(maxVolume)}`, PADDING.left + plotWidth + 8, volumeTop + 6);
+
+  for (const candle of candles) {
+    const x = slotX(candle.openTime);
+    const color = candle.close >= candle.open ? COLORS.up : COLORS.down;
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+
+    // Wick, then body; a flat candle still gets a visible line
+    ctx.beginPath();
+    ctx.moveTo(Math.round(x) + 0.5, priceY(candle.high));
+    ctx.lineTo(Math.round(x) + 0.5, priceY(candle.low));
+    ctx.lineWidth = 1;
+    ctx.stroke();
+
+    const bodyTop = priceY(Math.max(candle.open, candle.close));
+    const bodyBottom = priceY(Math.min(candle.open, candle.close));
+    ctx.fillRect(x - bodyWidth / 2, bodyTop, bodyWidth, Math.max(1, bodyBottom - bodyTop));
+
+    if (candle.volume > 0) {
+      const barTop = volumeY(candle.volume);
+      ctx.globalAlpha = 0.6;
+      ctx.fillRect(x - bodyWidth / 2, barTop, bodyWidth, volumeTop + volumeHeight - barTop);
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  return canvas.toBuffer('image/png');
+}
+
+// Horizontal grid lines with price labels on the right
+function drawPriceGrid(
+  ctx: SKRSContext2D,
+  low: number,
+  high: number,
+  priceY: (price: number) => number,
+  plotWidth: number
+): void {
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 1;
+
+  for (let i = 0; i <= PRICE_GRID_LINES; i++) {
+    const price = low + ((high - low) * i) / PRICE_GRID_LINES;
+    const y = Math.round(priceY(price)) + 0.5;
+
+    ctx.strokeStyle = COLORS.grid;
+    ctx.beginPath();
+    ctx.moveTo(PADDING.left, y);
+    ctx.lineTo(PADDING.left + plotWidth, y);
+    ctx.stroke();
+
+    ctx.fillStyle = COLORS.text;
+    ctx.fillText(formatPrice(price), PADDING.left + plotWidth + 8, y);
+  }
+}
+
+// Evenly spaced UTC times along the bottom, with the date once candles span days
+function drawTimeLabels(
+  ctx: SKRSContext2D,
+  firstTime: number,
+  slots: number,
+  intervalMs: number,
+  slotX: (openTime: number) => number
+): void {
+  const spansDays = slots * intervalMs > 24 * 60 * 60 * 1000;
+  const step = Math.max(1, Math.ceil(slots / TIME_LABELS));
+
+  ctx.fillStyle = COLORS.text;
+  ctx.font = '12px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  for (let slot = 0; slot < slots; slot += step) {
+    const time = firstTime + slot * intervalMs;
+    const iso = new Date(time).toISOString(); // e.g. 2024-05-01T14:05:00.000Z
+    const label = spansDays ? `${iso.slice(5, 10)} ${iso.slice(11, 16)}` : iso.slice(11, 16);
+    ctx.fillText(label, slotX(time), HEIGHT - PADDING.bottom / 2);
+  }
+}
@@ -1,6 +1,33 @@
 import axios, { AxiosInstance } from 'axios';
-import { DexScreenerPair, DexScreenerSearchResponse, DexScreenerBoost, TokenLaunch } from '../types';
+import { DexScreenerPair, DexScreenerSearchResponse, DexScreenerBoost, MarketPair, TokenLaunch } from '../types';
 import { config } from '../utils/config';
+import type { MarketDataProvider } from './marketData';
+import { RateLimiter } from './rateLimiter';
+import {
+  DiscoveryCycleResult,
+  DiscoveryScheduler,
+  DiscoveryStrategyStats,
+  DiscoveryTask,
+  DiscoveryTaskOutcome,
+} from './discoveryScheduler';
+
+// Common search terms to find new memecoins
+export const DEFAULT_SEARCH_TERMS = [
+  'ai', 'agent', 'gpt', 'trump', 'elon', 'musk',
+  'dog', 'cat', 'frog', 'pepe', 'wojak',
+  'moon', 'rocket', 'lambo', 'rich', 'based',
+  'meme', 'degen', 'ape', 'chad', 'gigachad',
+  'coin', 'token', 'inu', 'shib', 'floki',
+];
+
+/**
+ * Picks the search terms for each discovery cycle and learns from how they
+ * did. Without one, discovery rotates through `DEFAULT_SEARCH_TERMS`.
+ */
+export interface SearchTermSource {
+  nextTerms(count: number): string[];
+  recordResults(outcomes: DiscoveryTaskOutcome[]): void;
+}
 
 interface TokenProfile {
   chainId: string;
@@ -10,10 +37,24 @@ interface TokenProfile {
   description?: string;
 }
 
-export class DexScreenerService {
+export class DexScreenerService implements MarketDataProvider {
+  readonly name = 'dexscreener';
   private client: AxiosInstance;
-  private lastRequestTime: number = 0;
-  private minRequestInterval: number = 500; // 500ms between requests
+
+  // DexScreener's published per-minute limits, which apply per endpoint group
+  private rateLimiter = new RateLimiter({
+    name: 'dexscreener',
+    buckets: {
+      // /token-profiles and /token-boosts
+      profiles: { requestsPerMinute: 60, burst: 5 },
+      // /latest/dex, /tokens and /token-pairs
+      pairs: { requestsPerMinute: 300, burst: 10 },
+    },
+  });
+
+  private discovery = new DiscoveryScheduler<DexScreenerPair>(pair => pair.pairAddress.toLowerCase());
+  private searchTermCursor: number = 0;
+  private searchTermSource: SearchTermSource | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -26,149 +67,92 @@ export class DexScreenerService {
     });
   }
 
-  private async rateLimitedRequest<T>(fn: () => Promise<T>): Promise<T> {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      await new Promise(resolve => setTimeout(resolve, this.minRequestInterval - timeSinceLastRequest));
+  // Fetch recent Base pairs from profiles, boosts and a few search terms,
+  // within the per-cycle time and request budget
+  async fetchBasePairs(): Promise<DexScreenerPair[]> {
+    const { budgetMs, maxRequests, concurrency, searchTermsPerCycle } = config.discovery;
+
+    const searchTerms = this.searchTermSource?.nextTerms(searchTermsPerCycle) ?? this.nextSearchTerms(searchTermsPerCycle);
+
+    // Profile and boost strategies fetch a token list, then (usually) one batch of pairs
+    const tasks: DiscoveryTask<DexScreenerPair>[] = [
+      { strategy: 'profiles', cost: 2, run: () => this.fetchPairsForListedTokens('profiles', this.fetchLatestProfiles()) },
+      { strategy: 'latest-boosts', cost: 2, run: () => this.fetchPairsForListedTokens('latest boosts', this.fetchLatestBoosts()) },
+      { strategy: 'top-boosts', cost: 2, run: () => this.fetchPairsForListedTokens('top boosts', this.fetchTopBoosts()) },
+      ...searchTerms.map((term): DiscoveryTask<DexScreenerPair> => ({
+        strategy: 'search',
+        label: term,
+        cost: 1,
+        run: async () => (await this.searchPairs(term)).filter(pair => pair.chainId === 'base'),
+      })),
+    ];
+
+    const cycle = await this.discovery.runCycle(tasks, { timeMs: budgetMs, maxRequests, concurrency });
+
+    // Only an outage if every strategy fails, not just some of them
+    if (!cycle.tasks.some(task => !task.failed)) {
+      throw new Error('Every DexScreener discovery request failed');
     }
 
-    this.lastRequestTime = Date.now();
-    return fn();
+    this.searchTermSource?.recordResults(cycle.tasks);
+    logDiscoveryCycle(cycle);
+    return cycle.items;
   }
 
-  private async retryWithBackoff<T>(fn: () => Promise<T>, maxRetries: number = 3): Promise<T> {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        return await fn();
-      } catch (error: any) {
-        lastError = error;
-        console.error(`Request failed (attempt ${attempt + 1}/${maxRetries}):`, error.message);
-
-        if (attempt < maxRetries - 1) {
-          const backoffMs = Math.pow(2, attempt) * 1000;
-          await new Promise(resolve => setTimeout(resolve, backoffMs));
-        }
-      }
-    }
-
-    throw lastError;
+  setSearchTermSource(source: SearchTermSource): void {
+    this.searchTermSource = source;
   }
 
-  // Common search terms to find new memecoins
-  private readonly SEARCH_TERMS = [
-    'ai', 'agent', 'gpt', 'trump', 'elon', 'musk',
-    'dog', 'cat', 'frog', 'pepe', 'wojak',
-    'moon', 'rocket', 'lambo', 'rich', 'based',
-    'meme', 'degen', 'ape', 'chad', 'gigachad',
-    'coin', 'token', 'inu', 'shib', 'floki',
-  ];
-
-  // Fetch latest token profiles and get their pairs
-  async fetchBasePairs(): Promise<DexScreenerPair[]> {
-    const allPairs: DexScreenerPair[] = [];
-    const seenAddresses = new Set<string>();
-
-    const addPairs = (pairs: DexScreenerPair[]) => {
-      for (const pair of pairs) {
-        const addr = pair.pairAddress.toLowerCase();
-        if (!seenAddresses.has(addr)) {
-          seenAddresses.add(addr);
-          allPairs.push(pair);
-        }
-      }
-    };
-
-    // Strategy 1: Get latest token profiles (new listings)
-    try {
-      const profiles = await this.fetchLatestProfiles();
-      const baseProfiles = profiles.filter(p => p.chainId === 'base');
-      console.log(`Found ${baseProfiles.length} Base tokens from profiles`);
-
-      if (baseProfiles.length > 0) {
-        const tokenAddresses = baseProfiles.map(p => p.tokenAddress);
-        const pairs = await this.fetchMultipleTokens(tokenAddresses);
-        addPairs(pairs);
-      }
-    } catch (error) {
-      console.error('Error fetching token profiles:', error);
-    }
+  // Per-strategy discovery totals since startup
+  getDiscoveryStats(): Record<string, DiscoveryStrategyStats> {
+    return this.discovery.getStats();
+  }
 
-    // Strategy 2: Get boosted tokens (latest)
-    try {
-      const boosts = await this.fetchLatestBoosts();
-      const baseBoosts = boosts.filter(b => b.chainId === 'base');
-      console.log(`Found ${baseBoosts.length} Base tokens from latest boosts`);
+  private async fetchPairsForListedTokens(
+    source: string,
+    listing: Promise<{ chainId: string; tokenAddress: string }[]>
+  ): Promise<DexScreenerPair[]> {
+    const baseTokens = (await listing).filter(token => token.chainId === 'base');
+    console.log(`Found ${baseTokens.length} Base tokens from ${source}`);
 
-      if (baseBoosts.length > 0) {
-        const tokenAddresses = baseBoosts.map(b => b.tokenAddress);
-        const pairs = await this.fetchMultipleTokens(tokenAddresses);
-        addPairs(pairs);
-      }
-    } catch (error) {
-      console.error('Error fetching boosts:', error);
+    if (baseTokens.length === 0) {
+      return [];
     }
+    return this.fetchMultipleTokens(baseTokens.map(token => token.tokenAddress));
+  }
 
-    // Strategy 3: Get top boosted tokens
-    try {
-      const topBoosts = await this.fetchTopBoosts();
-      const baseTopBoosts = topBoosts.filter(b => b.chainId === 'base');
-      console.log(`Found ${baseTopBoosts.length} Base tokens from top boosts`);
-
-      if (baseTopBoosts.length > 0) {
-        const tokenAddresses = baseTopBoosts.map(b => b.tokenAddress);
-        const pairs = await this.fetchMultipleTokens(tokenAddresses);
-        addPairs(pairs);
-      }
-    } catch (error) {
-      console.error('Error fetching top boosts:', error);
+  // The next few search terms, continuing where the last cycle stopped
+  private nextSearchTerms(count: number): string[] {
+    const terms = DEFAULT_SEARCH_TERMS;
+    if (count >= terms.length) {
+      return [...terms];
     }
 
-    // Strategy 4: Search for common memecoin terms
-    console.log(`Searching ${this.SEARCH_TERMS.length} terms for new Base pairs...`);
-    for (const term of this.SEARCH_TERMS) {
-      try {
-        const pairs = await this.searchPairs(term);
-        const basePairs = pairs.filter(p => p.chainId === 'base');
-        addPairs(basePairs);
-      } catch (error) {
-        // Continue with other terms
-      }
-    }
-
-    console.log(`Total unique Base pairs found: ${allPairs.length}`);
-    return allPairs;
+    const selected = Array.from({ length: count }, (_, i) => terms[(this.searchTermCursor + i) % terms.length]);
+    this.searchTermCursor = (this.searchTermCursor + count) % terms.length;
+    return selected;
   }
 
   async searchPairs(query: string): Promise<DexScreenerPair[]> {
-    return this.retryWithBackoff(async () => {
-      return this.rateLimitedRequest(async () => {
-        const response = await this.client.get<DexScreenerSearchResponse>('/latest/dex/search', {
-          params: { q: query },
-        });
-        return response.data.pairs || [];
+    return this.rateLimiter.request('pairs', async () => {
+      const response = await this.client.get<DexScreenerSearchResponse>('/latest/dex/search', {
+        params: { q: query },
       });
+      return response.data.pairs || [];
     });
   }
 
   async fetchTopBoosts(): Promise<DexScreenerBoost[]> {
-    return this.retryWithBackoff(async () => {
-      return this.rateLimitedRequest(async () => {
-        const response = await this.client.get<DexScreenerBoost[]>('/token-boosts/top/v1');
-        return response.data || [];
-      });
+    return this.rateLimiter.request('profiles', async () => {
+      const response = await this.client.get<DexScreenerBoost[]>('/token-boosts/top/v1');
+      return response.data || [];
     });
   }
 
   async fetchLatestProfiles(): Promise<TokenProfile[]> {
-    return this.retryWithBackoff(async () => {
-      return this.rateLimitedRequest(async () => {
-        const response = await this.client.get<TokenProfile[]>('/token-profiles/latest/v1');
-        return response.data || [];
-      });
+    return this.rateLimiter.request('profiles', async () => {
+      const response = await this.client.get<TokenProfile[]>('/token-profiles/latest/v1');
+      return response.data || [];
     });
   }
 
@@ -183,162 +167,98 @@ export class DexScreenerService {
     }
 
     const allPairs: DexScreenerPair[] = [];
+    let lastError: unknown = null;
+    let failedBatches = 0;
 
     for (const batch of batches) {
       const addressList = batch.join(',');
 
       try {
-        const pairs = await this.retryWithBackoff(async () => {
-          return this.rateLimitedRequest(async () => {
-            const response = await this.client.get<DexScreenerPair[]>(
-              `/tokens/v1/base/${addressList}`
-            );
-            // Response is an array of pairs directly
-            return Array.isArray(response.data) ? response.data : [];
-          });
+        const pairs = await this.rateLimiter.request('pairs', async () => {
+          const response = await this.client.get<DexScreenerPair[]>(
+            `/tokens/v1/base/${addressList}`
+          );
+          // Response is an array of pairs directly
+          return Array.isArray(response.data) ? response.data : [];
         });
         allPairs.push(...pairs);
       } catch (error) {
         console.error('Error fetching token batch:', error);
+        lastError = error;
+        failedBatches++;
       }
     }
 
+    if (failedBatches === batches.length) {
+      throw lastError;
+    }
+
     return allPairs;
   }
 
   async fetchPairByAddress(pairAddress: string): Promise<DexScreenerPair | null> {
-    return this.retryWithBackoff(async () => {
-      return this.rateLimitedRequest(async () => {
-        try {
-          const response = await this.client.get<{ pairs: DexScreenerPair[] }>(
-            `/latest/dex/pairs/base/${pairAddress}`
-          );
-          return response.data.pairs?.[0] || null;
-        } catch (error: any) {
-          if (error.response?.status === 404) {
-            return null;
-          }
-          throw error;
+    return this.rateLimiter.request('pairs', async () => {
+      try {
+        const response = await this.client.get<{ pairs: DexScreenerPair[] }>(
+          `/latest/dex/pairs/base/${pairAddress}`
+        );
+        return response.data.pairs?.[0] || null;
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          return null;
         }
-      });
+        throw error;
+      }
     });
   }
 
   async fetchTokenPairs(tokenAddress: string): Promise<DexScreenerPair[]> {
-    return this.retryWithBackoff(async () => {
-      return this.rateLimitedRequest(async () => {
-        const response = await this.client.get<{ pairs: DexScreenerPair[] }>(
-          `/token-pairs/v1/base/${tokenAddress}`
-        );
-        return response.data.pairs || [];
-      });
+    return this.rateLimiter.request('pairs', async () => {
+      const response = await this.client.get<DexScreenerPair[] | { pairs: DexScreenerPair[] }>(
+        `/token-pairs/v1/base/${tokenAddress}`
+      );
+      // The v1 endpoint answers with a bare array of pairs
+      return Array.isArray(response.data) ? response.data : response.data.pairs || [];
     });
   }
 
   async fetchLatestBoosts(): Promise<DexScreenerBoost[]> {
-    return this.retryWithBackoff(async () => {
-      return this.rateLimitedRequest(async () => {
-        const response = await this.client.get<DexScreenerBoost[]>('/token-boosts/latest/v1');
-        // Filter to Base chain only
-        return (response.data || []).filter(boost => boost.chainId === 'base');
-      });
+    return this.rateLimiter.request('profiles', async () => {
+      const response = await this.client.get<DexScreenerBoost[]>('/token-boosts/latest/v1');
+      // Filter to Base chain only
+      return (response.data || []).filter(boost => boost.chainId === 'base');
     });
   }
 
-  // Blocklist of tokens we don't want (wrapped tokens, stablecoins, major tokens)
-  private readonly BLOCKED_SYMBOLS = new Set([
-    // Wrapped tokens
-    'WETH', 'WBTC', 'WSOL', 'WMATIC', 'WAVAX', 'WBNB', 'WFTM',
-    // Coinbase wrapped tokens
-    'CBETH', 'CBBTC', 'CBTC', 'CBLTC', 'CBXRP', 'CBSOL', 'CBDOGE',
-    // Other wrapped/bridged
-    'RETH', 'STETH', 'WSTETH', 'TBTC', 'RENBTC', 'HBTC',
-    // Stablecoins
-    'USDC', 'USDT', 'DAI', 'BUSD', 'TUSD', 'USDP', 'GUSD', 'FRAX', 'LUSD', 'SUSD', 'USDD', 'USDBC', 'EURC', 'PYUSD',
-    // Major tokens that aren't "new launches"
-    'ETH', 'BTC', 'SOL', 'MATIC', 'AVAX', 'BNB', 'FTM', 'OP', 'ARB', 'LTC', 'XRP', 'DOGE', 'ADA', 'DOT',
-    'LINK', 'UNI', 'AAVE', 'CRV', 'MKR', 'SNX', 'COMP', 'SUSHI', 'YFI', 'BAL',
-    'PEPE', 'SHIB', 'FLOKI', 'BONK', 'WIF', 'BRETT', 'TOSHI', 'DEGEN',
-  ]);
-
-  private readonly BLOCKED_NAME_PATTERNS = [
-    /^wrapped\s/i,
-    /^bridged\s/i,
-    /\bwrapped\b/i,
-    /\bbridge[d]?\b/i,
-    /^coinbase\s+wrapped/i,
-    /^USD\s?Coin/i,
-    /^Tether/i,
-    /^cb[A-Z]/,  // Coinbase wrapped tokens like cbBTC, cbETH
-  ];
-
-  // Max market cap for "new launch" - anything above this is established
-  private readonly MAX_MCAP_FOR_NEW_LAUNCH = 50_000_000; // $50M
-
-  filterValidPairs(pairs: DexScreenerPair[]): DexScreenerPair[] {
-    const now = Date.now();
-    const minAgeMs = config.filters.minPairAgeMinutes * 60 * 1000;
-    const maxAgeMs = 7 * 24 * 60 * 60 * 1000; // 7 days
-
-    return pairs.filter(pair => {
-      // Must have basic info
-      if (!pair.baseToken?.name || !pair.baseToken?.symbol) {
-        return false;
-      }
-
-      const symbol = pair.baseToken.symbol.toUpperCase();
-      const name = pair.baseToken.name;
-
-      // Exclude blocked symbols (wrapped tokens, stablecoins, major tokens)
-      if (this.BLOCKED_SYMBOLS.has(symbol)) {
-        return false;
-      }
-
-      // Exclude blocked name patterns
-      if (this.BLOCKED_NAME_PATTERNS.some(pattern => pattern.test(name))) {
-        return false;
-      }
-
-      // Must have a creation timestamp
-      if (!pair.pairCreatedAt) {
-        return false;
-      }
-
-      const ageMs = now - pair.pairCreatedAt;
-
-      // Must be at least 5 minutes old (avoid failed launches)
-      if (ageMs < minAgeMs) {
-        return false;
-      }
+  // MarketDataProvider implementation
 
-      // Must be less than 48 hours old (only new launches)
-      if (ageMs > maxAgeMs) {
-        return false;
-      }
+  async discoverLaunches(): Promise<TokenLaunch[]> {
+    const pairs = await this.fetchBasePairs();
+    // Pairs without a creation time can't be age-filtered, so they're skipped
+    return pairs.filter(pair => pair.pairCreatedAt).map(pair => this.pairToLaunch(pair));
+  }
 
-      // Check liquidity
-      const liquidity = pair.liquidity?.usd || 0;
-      if (liquidity < config.filters.minLiquidityUsd) {
-        return false;
-      }
+  async getTokenPairs(tokenAddress: string): Promise<MarketPair[]> {
+    const pairs = await this.fetchTokenPairs(tokenAddress);
+    return pairs.filter(pair => pair.chainId === 'base').map(pair => this.pairToLaunch(pair));
+  }
 
-      // Check volume
-      const volume = pair.volume?.h24 || 0;
-      if (volume < config.filters.minVolumeUsd) {
-        return false;
-      }
+  async getTokens(tokenAddresses: string[]): Promise<TokenLaunch[]> {
+    const pairs = await this.fetchMultipleTokens(tokenAddresses);
+    return pairs.filter(pair => pair.chainId === 'base').map(pair => this.pairToLaunch(pair));
+  }
 
-      // Check market cap - too high means established token, not a new launch
-      const marketCap = pair.marketCap || pair.fdv || 0;
-      if (marketCap > this.MAX_MCAP_FOR_NEW_LAUNCH) {
-        return false;
-      }
+  async getPair(pairAddress: string): Promise<TokenLaunch | null> {
+    const pair = await this.fetchPairByAddress(pairAddress);
+    return pair ? this.pairToLaunch(pair) : null;
+  }
 
-      return true;
-    });
+  async getBoostedTokens(): Promise<string[]> {
+    const boosts = await this.fetchLatestBoosts();
+    return boosts.map(boost => boost.tokenAddress.toLowerCase());
   }
 
-  pairToLaunch(pair: DexScreenerPair): TokenLaunch {
+  pairToLaunch(pair: DexScreenerPair): MarketPair {
     return {
       pairAddress: pair.pairAddress.toLowerCase(),
       tokenAddress: pair.baseToken.address.toLowerCase(),
@@ -353,8 +273,47 @@ export class DexScreenerService {
       pairCreatedAt: pair.pairCreatedAt || Date.now(),
       dexscreenerUrl: pair.url,
       lastUpdated: Date.now(),
+      quoteTokenAddress: pair.quoteToken?.address.toLowerCase(),
+      quoteTokenSymbol: pair.quoteToken?.symbol,
+      details: {
+        priceChange: { ...pair.priceChange },
+        volume: { ...pair.volume },
+        txns: { ...pair.txns },
+        liquidity: { base: pair.liquidity?.base, quote: pair.liquidity?.quote },
+        fdv: pair.fdv,
+        labels: pair.labels || [],
+        imageUrl: pair.info?.imageUrl,
+        websites: (pair.info?.websites || []).map(website => website.url),
+        socials: pair.info?.socials || [],
+        socialsKnown: true,
+      },
     };
   }
 }
 
+// e.g. "Discovery: 143 pairs (12 new) in 6.2s, 13 requests | profiles 4 (1 new), search 139 (11 new)"
+function logDiscoveryCycle(cycle: DiscoveryCycleResult<DexScreenerPair>): void {
+  const byStrategy = new Map<string, { found: number; newItems: number; failed: number }>();
+  for (const task of cycle.tasks) {
+    const totals = byStrategy.get(task.strategy) || { found: 0, newItems: 0, failed: 0 };
+    totals.found += task.found;
+    totals.newItems += task.newItems;
+    totals.failed += task.failed ? 1 : 0;
+    byStrategy.set(task.strategy, totals);
+  }
+
+  const strategies = Array.from(byStrategy.entries()).map(([strategy, totals]) =>
+    `${strategy} ${totals.found} (${totals.newItems} new${totals.failed > 0 ? `, ${totals.failed} failed` : ''})`
+  );
+  const newItems = cycle.tasks.reduce((sum, task) => sum + task.newItems, 0);
+  const unfinished = cycle.skipped + cycle.timedOut > 0
+    ? `, ${cycle.skipped} skipped and ${cycle.timedOut} timed out over budget`
+    : '';
+
+  console.log(
+    `Discovery: ${cycle.items.length} pairs (${newItems} new) in ${(cycle.durationMs / 1000).toFixed(1)}s, ` +
+    `${cycle.requests} requests${unfinished} | ${strategies.join(', ')}`
+  );
+}
+
 export const dexScreenerService = new DexScreenerService();
@@ -0,0 +1,172 @@
+export interface DiscoveryTask<T> {
+  strategy: string;
+  // What this run of the strategy looked for, e.g. the search term
+  label?: string;
+  // Requests the task is expected to make, counted against the cycle budget
+  cost: number;
+  run: () => Promise<T[]>;
+}
+
+export interface DiscoveryBudget {
+  timeMs: number;
+  maxRequests: number;
+  concurrency: number;
+}
+
+export interface DiscoveryTaskOutcome {
+  strategy: string;
+  label?: string;
+  found: number;
+  // Found for the first time by any strategy
+  newItems: number;
+  failed: boolean;
+}
+
+export interface DiscoveryCycleResult<T> {
+  items: T[];
+  tasks: DiscoveryTaskOutcome[];
+  requests: number;
+  // Tasks never started because the time or request budget ran out
+  skipped: number;
+  // Tasks still running when the time budget ran out; their results are discarded
+  timedOut: number;
+  durationMs: number;
+}
+
+export interface DiscoveryStrategyStats {
+  runs: number;
+  failures: number;
+  skipped: number;
+  found: number;
+  newItems: number;
+}
+
+// How long an item counts as already known after it was last found
+const KNOWN_ITEM_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Runs one discovery cycle's tasks within a time and request budget, a few
+ * at a time, and keeps per-strategy totals of what each one turned up.
+ * Tasks run in the order given, so the most valuable should come first.
+ */
+export class DiscoveryScheduler<T> {
+  private known = new Map<string, number>();
+  private stats = new Map<string, DiscoveryStrategyStats>();
+
+  constructor(private keyOf: (item: T) => string) {}
+
+  async runCycle(tasks: DiscoveryTask<T>[], budget: DiscoveryBudget): Promise<DiscoveryCycleResult<T>> {
+    const startedAt = Date.now();
+    const deadline = startedAt + budget.timeMs;
+    const items = new Map<string, T>();
+    const outcomes: DiscoveryTaskOutcome[] = [];
+    let next = 0;
+    let requests = 0;
+    let skipped = 0;
+    let running = 0;
+    let closed = false;
+
+    this.pruneKnown(startedAt);
+
+    const finishTask = (task: DiscoveryTask<T>, found: T[] | null) => {
+      running--;
+      // Tasks that outlived the cycle don't count
+      if (closed) {
+        return;
+      }
+
+      let newItems = 0;
+      for (const item of found || []) {
+        const key = this.keyOf(item);
+        if (!this.known.has(key)) {
+          newItems++;
+        }
+        this.known.set(key, Date.now());
+        items.set(key, item);
+      }
+
+      const outcome = { strategy: task.strategy, label: task.label, found: found?.length || 0, newItems, failed: !found };
+      outcomes.push(outcome);
+      this.recordOutcome(outcome);
+    };
+
+    const worker = async () => {
+      while (next < tasks.length) {
+        const task = tasks[next++];
+
+        if (Date.now() >= deadline || requests + task.cost > budget.maxRequests) {
+          skipped++;
+          this.strategyStats(task.strategy).skipped++;
+          continue;
+        }
+
+        requests += task.cost;
+        running++;
+        try {
+          finishTask(task, await task.run());
+        } catch (error: any) {
+          console.error(`Discovery ${task.strategy}${task.label ? ` "${task.label}"` : ''} failed:`, error.message);
+          finishTask(task, null);
+        }
+      }
+    };
+
+    let deadlineTimer: NodeJS.Timeout | undefined;
+    const timeUp = new Promise<void>(resolve => {
+      deadlineTimer = setTimeout(resolve, budget.timeMs);
+    });
+
+    const workers = Array.from({ length: Math.max(1, budget.concurrency) }, () => worker());
+    await Promise.race([Promise.all(workers), timeUp]);
+    clearTimeout(deadlineTimer);
+    closed = true;
+
+    // Anything not yet started is skipped too
+    const timedOut = running;
+    for (; next < tasks.length; next++) {
+      skipped++;
+      this.strategyStats(tasks[next].strategy).skipped++;
+    }
+
+    return {
+      items: Array.from(items.values()),
+      tasks: outcomes,
+      requests,
+      skipped,
+      timedOut,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  // Totals since startup, by strategy
+  getStats(): Record<string, DiscoveryStrategyStats> {
+    return Object.fromEntries(Array.from(this.stats.entries()).map(([strategy, stats]) => [strategy, { ...stats }]));
+  }
+
+  private recordOutcome(outcome: DiscoveryTaskOutcome): void {
+    const stats = this.strategyStats(outcome.strategy);
+    stats.runs++;
+    stats.found += outcome.found;
+    stats.newItems += outcome.newItems;
+    if (outcome.failed) {
+      stats.failures++;
+    }
+  }
+
+  private strategyStats(strategy: string): DiscoveryStrategyStats {
+    let stats = this.stats.get(strategy);
+    if (!stats) {
+      stats = { runs: 0, failures: 0, skipped: 0, found: 0, newItems: 0 };
+      this.stats.set(strategy, stats);
+    }
+    return stats;
+  }
+
+  private pruneKnown(now: number): void {
+    for (const [key, lastSeen] of this.known) {
+      if (now - lastSeen > KNOWN_ITEM_TTL_MS) {
+        this.known.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,243 @@
+import axios, { AxiosInstance } from 'axios';
+import { LaunchStore } from '../database/store';
+import { DiscoveredPair } from '../types';
+import { config } from '../utils/config';
+
+const CURSOR_NAME = 'base-factories';
+
+// Base produces a block every 2 seconds
+const BLOCKS_PER_MINUTE = 30;
+
+// Block ranges scanned per poll, so catching up after downtime happens gradually
+const MAX_RANGES_PER_POLL = 10;
+
+// keccak256 of the event signatures
+const PAIR_CREATED_V2 = '0x0d3648bd0f6ba80134a33ba9275ac585d9d315f0ad8355cddefde31afa28d0e9'; // PairCreated(address,address,address,uint256)
+const POOL_CREATED_V3 = '0x783cca1c0412dd0d695e784568c96da2e9c22ff989357a2e8b1d9b2b4e6b7118'; // PoolCreated(address,address,uint24,int24,address)
+const POOL_CREATED_AERODROME = '0x2128d88d14c80cb081c1252a5acff7a264671bf199ce226b53788fb26065005e'; // PoolCreated(address,address,bool,address,uint256)
+const POOL_CREATED_SLIPSTREAM = '0xab0d57f0df537bb25e80245ef7748fa62353808c54d6e528a9dd20887aed9ac2'; // PoolCreated(address,address,int24,address)
+
+interface FactoryConfig {
+  name: string;
+  topic: string;
+  // Which 32-byte word of the log data holds the new pair's address
+  pairWordIndex: number;
+}
+
+// token0 and token1 are always the first two indexed topics
+const FACTORIES: Record<string, FactoryConfig> = {
+  '0x8909dc15e40173ff4699343b6eb8132c65e18ec6': { name: 'uniswap-v2', topic: PAIR_CREATED_V2, pairWordIndex: 0 },
+  '0x33128a8fc17869897dce68ed026d694621f6fdfd': { name: 'uniswap-v3', topic: POOL_CREATED_V3, pairWordIndex: 1 },
+  '0x0bfbcf9fa4f9c56b0f40a671ad40e0805a091865': { name: 'pancakeswap-v3', topic: POOL_CREATED_V3, pairWordIndex: 1 },
+  '0x420dd381b31aef6683db6b902084cb0ffece40da': { name: 'aerodrome', topic: POOL_CREATED_AERODROME, pairWordIndex: 0 },
+  '0x5e7bb104d84c7cb9b682aac2f3d509f5f406809a': { name: 'aerodrome-slipstream', topic: POOL_CREATED_SLIPSTREAM, pairWordIndex: 0 },
+};
+
+// Tokens new launches are paired against; the other side of the pair is the launch
+const QUOTE_TOKENS = new Set([
+  '0x4200000000000000000000000000000000000006', // WETH
+  '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913', // USDC
+  '0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca', // USDbC
+  '0x50c5725949a6f0c72e6c4a641f24049a917db0cb', // DAI
+  '0xcbb7c0000ab88b473b1f5afd9ef808440eed33bf', // cbBTC
+]);
+
+interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+}
+
+/**
+ * Watches PairCreated/PoolCreated events on the major Base DEX factories over
+ * JSON-RPC and queues every new pair in the store. The token tracker looks
+ * queued pairs up on the market data provider, so launches are found even if
+ * no search term or boost ever surfaces them.
+ */
+export class FactoryLogPoller {
+  private store: LaunchStore;
+  private client: AxiosInstance | null = null;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling: boolean = false;
+  private isRunning: boolean = false;
+  private blockRange: number;
+  private requestId: number = 0;
+
+  constructor(store: LaunchStore) {
+    this.store = store;
+    this.blockRange = Math.max(1, config.chain.logBlockRange);
+  }
+
+  async startPolling(): Promise<void> {
+    if (this.isPolling) {
+      console.log('Factory log poller is already polling');
+      return;
+    }
+
+    if (!config.chain.rpcUrl) {
+      console.log('BASE_RPC_URL not set, on-chain pair discovery disabled');
+      return;
+    }
+
+    this.client = axios.create({
+      baseURL: config.chain.rpcUrl,
+      timeout: 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    this.isPolling = true;
+    console.log(`Starting factory log poller with ${config.chain.pollIntervalMs}ms interval`);
+
+    // Initial scan
+    await this.poll();
+
+    // Set up interval
+    this.pollInterval = setInterval(() => {
+      this.poll().catch(err => console.error('Factory log polling error:', err));
+    }, config.chain.pollIntervalMs);
+  }
+
+  stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.isPolling = false;
+    console.log('Factory log poller stopped');
+  }
+
+  private async poll(): Promise<void> {
+    // A slow RPC can make a scan outlast the interval
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    try {
+      const head = parseInt(await this.rpc<string>('eth_blockNumber', []), 16);
+      const safeHead = head - config.chain.confirmations;
+      let cursor = this.store.getChainCursor(CURSOR_NAME);
+
+      // First run starts at the chain head rather than backfilling history
+      if (cursor === undefined) {
+        this.store.setChainCursor(CURSOR_NAME, safeHead);
+        console.log(`Factory log poller starting at block ${safeHead}`);
+        return;
+      }
+
+      // Pairs older than the pending window would be dropped unseen, so skip straight past them
+      const oldestUseful = safeHead - config.chain.pendingPairMaxAgeMinutes * BLOCKS_PER_MINUTE;
+      if (cursor < oldestUseful) {
+        console.log(`Factory log poller skipping blocks ${cursor + 1}-${oldestUseful} (older than the pending window)`);
+        cursor = oldestUseful;
+      }
+
+      let discovered = 0;
+      for (let i = 0; i < MAX_RANGES_PER_POLL && cursor < safeHead; i++) {
+        const fromBlock = cursor + 1;
+        const toBlock = Math.min(cursor + this.blockRange, safeHead);
+
+        const logs = await this.getFactoryLogs(fromBlock, toBlock);
+        discovered += this.store.addDiscoveredPairs(this.decodeLogs(logs));
+
+        this.store.setChainCursor(CURSOR_NAME, toBlock);
+        cursor = toBlock;
+      }
+
+      if (discovered > 0) {
+        console.log(`Discovered ${discovered} new pairs on-chain (scanned to block ${cursor})`);
+      }
+    } catch (error: any) {
+      console.error('Error polling factory logs:', error.message);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private async getFactoryLogs(fromBlock: number, toBlock: number): Promise<RpcLog[]> {
+    const topics = Array.from(new Set(Object.values(FACTORIES).map(factory => factory.topic)));
+
+    try {
+      return await this.rpc<RpcLog[]>('eth_getLogs', [{
+        fromBlock: `0x${fromBlock.toString(16)}`,
+        toBlock: `0x${toBlock.toString(16)}`,
+        address: Object.keys(FACTORIES),
+        topics: [topics],
+      }]);
+    } catch (error) {
+      // Providers cap getLogs ranges differently; shrink the range and retry next poll
+      if (this.blockRange > 1) {
+        this.blockRange = Math.max(1, Math.floor(this.blockRange / 2));
+        console.log(`Reduced factory log block range to ${this.blockRange}`);
+      }
+      throw error;
+    }
+  }
+
+  private decodeLogs(logs: RpcLog[]): DiscoveredPair[] {
+    const pairs: DiscoveredPair[] = [];
+
+    for (const log of logs) {
+      const factory = FACTORIES[log.address.toLowerCase()];
+      if (!factory || log.topics[0]?.toLowerCase() !== factory.topic || log.topics.length < 3) {
+        continue;
+      }
+
+      const token0 = topicToAddress(log.topics[1]);
+      const token1 = topicToAddress(log.topics[2]);
+      const pairAddress = wordToAddress(log.data, factory.pairWordIndex);
+      if (!pairAddress) {
+        continue;
+      }
+
+      // Quote/quote pairs (e.g. WETH/USDC) aren't launches
+      const token0IsQuote = QUOTE_TOKENS.has(token0);
+      const token1IsQuote = QUOTE_TOKENS.has(token1);
+      if (token0IsQuote && token1IsQuote) {
+        continue;
+      }
+
+      pairs.push({
+        pairAddress,
+        tokenAddress: token0IsQuote ? token1 : token0,
+        quoteAddress: token0IsQuote ? token0 : token1,
+        factory: factory.name,
+        blockNumber: parseInt(log.blockNumber, 16),
+        discoveredAt: Date.now(),
+      });
+    }
+
+    return pairs;
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    if (!this.client) {
+      throw new Error('RPC client not initialized');
+    }
+
+    const response = await this.client.post('', {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params,
+    });
+
+    if (response.data.error) {
+      throw new Error(`RPC ${method} failed: ${response.data.error.message}`);
+    }
+    return response.data.result as T;
+  }
+}
+
+// Indexed address topics are left-padded to 32 bytes
+function topicToAddress(topic: string): string {
+  return `0x${topic.slice(-40)}`.toLowerCase();
+}
+
+function wordToAddress(data: string, wordIndex: number): string | null {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const word = hex.slice(wordIndex * 64, (wordIndex + 1) * 64);
+  return word.length === 64 ? `0x${word.slice(-40)}`.toLowerCase() : null;
+}
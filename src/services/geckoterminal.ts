@@ -0,0 +1,237 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  GeckoTerminalPool,
+  GeckoTerminalResponse,
+  GeckoTerminalToken,
+  MarketPair,
+  PairWindows,
+  TokenLaunch,
+} from '../types';
+import { config } from '../utils/config';
+import type { MarketDataProvider } from './marketData';
+import { RateLimiter } from './rateLimiter';
+
+// GeckoTerminal's tokens/multi endpoint takes at most 30 addresses
+const MAX_TOKENS_PER_REQUEST = 30;
+
+// Pages of new pools to scan per discovery run (20 pools per page)
+const NEW_POOL_PAGES = 3;
+
+/**
+ * Market data from GeckoTerminal's public pools API. It has no boosts or
+ * socials, but covers the same Base pools as DexScreener, which makes it a
+ * useful fallback.
+ */
+export class GeckoTerminalService implements MarketDataProvider {
+  readonly name = 'geckoterminal';
+  private client: AxiosInstance;
+
+  // The free tier allows 30 requests/minute across all endpoints
+  private rateLimiter = new RateLimiter({
+    name: 'geckoterminal',
+    buckets: { api: { requestsPerMinute: 30, burst: 2 } },
+  });
+
+  constructor() {
+    this.client = axios.create({
+      baseURL: config.geckoterminal.baseUrl,
+      timeout: 30000,
+      headers: {
+        'Accept': 'application/json;version=20230302',
+      },
+    });
+  }
+
+  private async get<T>(url: string, params?: Record<string, string | number>): Promise<GeckoTerminalResponse<T>> {
+    return this.rateLimiter.request('api', async () => {
+      const response = await this.client.get<GeckoTerminalResponse<T>>(url, { params });
+      return response.data;
+    });
+  }
+
+  async discoverLaunches(): Promise<TokenLaunch[]> {
+    const requests: [string, Record<string, string | number>][] = [
+      ...Array.from({ length: NEW_POOL_PAGES }, (_, i): [string, Record<string, string | number>] =>
+        ['/networks/base/new_pools', { include: 'base_token', page: i + 1 }]),
+      ['/networks/base/trending_pools', { include: 'base_token', page: 1 }],
+    ];
+
+    const launches = new Map<string, TokenLaunch>();
+    let lastError: unknown = null;
+    let failed = 0;
+
+    for (const [url, params] of requests) {
+      try {
+        const response = await this.get<GeckoTerminalPool[]>(url, params);
+        for (const launch of this.normalizePools(response)) {
+          launches.set(launch.pairAddress, launch);
+        }
+      } catch (error: any) {
+        console.error(`Error fetching ${url} from GeckoTerminal:`, error.message);
+        lastError = error;
+        failed++;
+      }
+    }
+
+    if (failed === requests.length) {
+      throw lastError;
+    }
+
+    // Pools without a creation time can't be age-filtered, so they're skipped
+    return Array.from(launches.values()).filter(launch => launch.pairCreatedAt > 0);
+  }
+
+  async getTokenPairs(tokenAddress: string): Promise<MarketPair[]> {
+    const response = await this.get<GeckoTerminalPool[]>(
+      `/networks/base/tokens/${tokenAddress.toLowerCase()}/pools`,
+      { include: 'base_token' }
+    );
+    const tokens = this.indexTokens(response.included);
+
+    return response.data.flatMap(pool => {
+      const token = tokens.get(pool.relationships.base_token.data.id);
+      return token ? [this.poolToLaunch(pool, token)] : [];
+    });
+  }
+
+  async getTokens(tokenAddresses: string[]): Promise<TokenLaunch[]> {
+    const launches: TokenLaunch[] = [];
+    let lastError: unknown = null;
+    let failedBatches = 0;
+    let batches = 0;
+
+    for (let i = 0; i < tokenAddresses.length; i += MAX_TOKENS_PER_REQUEST) {
+      const batch = tokenAddresses.slice(i, i + MAX_TOKENS_PER_REQUEST).map(address => address.toLowerCase());
+      batches++;
+
+      try {
+        // Tokens come back as data with their top pools included
+        const response = await this.get<GeckoTerminalToken[]>(
+          `/networks/base/tokens/multi/${batch.join(',')}`,
+          { include: 'top_pools' }
+        );
+        const tokens = this.indexTokens(response.data);
+        const pools = (response.included || []).filter((item): item is GeckoTerminalPool => item.type === 'pool');
+
+        for (const pool of pools) {
+          const token = tokens.get(pool.relationships.base_token.data.id);
+          if (token) {
+            launches.push(this.poolToLaunch(pool, token));
+          }
+        }
+      } catch (error: any) {
+        console.error('Error fetching token batch from GeckoTerminal:', error.message);
+        lastError = error;
+        failedBatches++;
+      }
+    }
+
+    if (batches > 0 && failedBatches === batches) {
+      throw lastError;
+    }
+
+    return launches;
+  }
+
+  async getPair(pairAddress: string): Promise<TokenLaunch | null> {
+    try {
+      const response = await this.get<GeckoTerminalPool>(
+        `/networks/base/pools/${pairAddress.toLowerCase()}`,
+        { include: 'base_token' }
+      );
+      const token = this.indexTokens(response.included).get(response.data.relationships.base_token.data.id);
+      return token ? this.poolToLaunch(response.data, token) : null;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // GeckoTerminal has no equivalent of DexScreener boosts
+  async getBoostedTokens(): Promise<string[]> {
+    return [];
+  }
+
+  private normalizePools(response: GeckoTerminalResponse<GeckoTerminalPool[]>): TokenLaunch[] {
+    const tokens = this.indexTokens(response.included);
+
+    return response.data.flatMap(pool => {
+      const token = tokens.get(pool.relationships.base_token.data.id);
+      return token ? [this.poolToLaunch(pool, token)] : [];
+    });
+  }
+
+  private indexTokens(items: (GeckoTerminalPool | GeckoTerminalToken)[] | undefined): Map<string, GeckoTerminalToken> {
+    const tokens = new Map<string, GeckoTerminalToken>();
+    for (const item of items || []) {
+      if (item.type === 'token') {
+        tokens.set(item.id, item);
+      }
+    }
+    return tokens;
+  }
+
+  poolToLaunch(pool: GeckoTerminalPool, token: GeckoTerminalToken): MarketPair {
+    const attributes = pool.attributes;
+    const pairAddress = attributes.address.toLowerCase();
+    const imageUrl = token.attributes.image_url;
+
+    return {
+      pairAddress,
+      tokenAddress: token.attributes.address.toLowerCase(),
+      name: token.attributes.name,
+      symbol: token.attributes.symbol,
+      dexId: normalizeDexId(pool.relationships.dex.data.id),
+      priceUsd: toNumber(attributes.base_token_price_usd),
+      marketCap: toNumber(attributes.market_cap_usd) || toNumber(attributes.fdv_usd),
+      volume24h: toNumber(attributes.volume_usd?.h24),
+      liquidityUsd: toNumber(attributes.reserve_in_usd),
+      priceChange24h: toNumber(attributes.price_change_percentage?.h24),
+      pairCreatedAt: attributes.pool_created_at ? Date.parse(attributes.pool_created_at) || 0 : 0,
+      dexscreenerUrl: `https://www.geckoterminal.com/base/pools/${pairAddress}`,
+      lastUpdated: Date.now(),
+      // Relationship IDs look like "base_0x4200..."
+      quoteTokenAddress: pool.relationships.quote_token?.data.id.replace(/^base_/, '').toLowerCase(),
+      details: {
+        priceChange: toWindows(attributes.price_change_percentage),
+        volume: toWindows(attributes.volume_usd),
+        txns: { ...attributes.transactions },
+        liquidity: {},
+        fdv: toOptionalNumber(attributes.fdv_usd),
+        labels: [],
+        // GeckoTerminal answers "missing.png" for tokens without an image
+        imageUrl: imageUrl && !imageUrl.endsWith('missing.png') ? imageUrl : undefined,
+        websites: [],
+        socials: [],
+        socialsKnown: false,
+      },
+    };
+  }
+}
+
+function toNumber(value: string | null | undefined): number {
+  const parsed = parseFloat(value || '0');
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+function toOptionalNumber(value: string | null | undefined): number | undefined {
+  return value === null || value === undefined ? undefined : toNumber(value);
+}
+
+function toWindows(values: PairWindows<string> | undefined): PairWindows<number> {
+  return {
+    m5: toOptionalNumber(values?.m5),
+    h1: toOptionalNumber(values?.h1),
+    h6: toOptionalNumber(values?.h6),
+    h24: toOptionalNumber(values?.h24),
+  };
+}
+
+// "uniswap_v3_base" / "aerodrome-slipstream" -> "uniswap" / "aerodrome", matching DexScreener's dex ids
+function normalizeDexId(dexId: string): string {
+  return dexId.split(/[-_]/)[0].toLowerCase();
+}
+
+export const geckoTerminalService = new GeckoTerminalService();
@@ -0,0 +1,162 @@
+import { Client, EmbedBuilder } from 'discord.js';
+import { LaunchStorage } from '../database/storage';
+import { formatRiskBadge, formatRiskFactors } from './riskScore';
+import { FeedSettings, TokenLaunch } from '../types';
+import { config } from '../utils/config';
+import { formatUsd, formatPrice, formatAge, formatPercent } from '../utils/formatters';
+
+// Posted pairs are remembered a little longer than the 7-day launch window
+const FEED_POST_RETENTION_HOURS = 8 * 24;
+
+/**
+ * Posts newly discovered launches into each guild's feed channel. Posts are
+ * queued per guild and drained at a fixed rate so a burst of discoveries
+ * doesn't flood the channel or hit Discord rate limits.
+ */
+export class LaunchFeed {
+  private storage: LaunchStorage;
+  private discordClient: Client;
+  private queues = new Map<string, TokenLaunch[]>();
+  private drainInterval: NodeJS.Timeout | null = null;
+
+  constructor(storage: LaunchStorage, discordClient: Client) {
+    this.storage = storage;
+    this.discordClient = discordClient;
+  }
+
+  start(): void {
+    const intervalMs = Math.ceil(60000 / Math.max(1, config.feed.maxPostsPerMinute));
+    console.log(`Starting launch feed (max ${config.feed.maxPostsPerMinute} posts/min per guild)`);
+
+    this.drainInterval = setInterval(() => {
+      this.drain().catch(err => console.error('Launch feed error:', err));
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.drainInterval) {
+      clearInterval(this.drainInterval);
+      this.drainInterval = null;
+    }
+    this.queues.clear();
+    console.log('Launch feed stopped');
+  }
+
+  // Called by the token tracker with pairs it has never stored before
+  async publish(launches: TokenLaunch[]): Promise<void> {
+    if (launches.length === 0) {
+      return;
+    }
+
+    for (const settings of await this.storage.getEnabledFeeds()) {
+      const matching = launches.filter(launch => matchesFeedFilter(settings, launch));
+      if (matching.length === 0) {
+        continue;
+      }
+
+      const queue = this.queues.get(settings.guildId) || [];
+      queue.push(...matching);
+      queue.sort((a, b) => a.pairCreatedAt - b.pairCreatedAt);
+
+      // Keep the youngest launches if a burst overflows the queue
+      const overflow = queue.length - config.feed.maxQueuedPerGuild;
+      if (overflow > 0) {
+        queue.splice(0, overflow);
+        console.log(`Launch feed for guild ${settings.guildId} dropped ${overflow} launches (queue full)`);
+      }
+
+      this.queues.set(settings.guildId, queue);
+    }
+  }
+
+  // Post at most one queued launch per guild
+  private async drain(): Promise<void> {
+    await this.storage.pruneFeedPosts(FEED_POST_RETENTION_HOURS);
+
+    for (const [guildId, queue] of this.queues) {
+      const settings = await this.storage.getFeedSettings(guildId);
+      if (!settings || !settings.enabled) {
+        this.queues.delete(guildId);
+        continue;
+      }
+
+      // Skip launches another instance or an earlier run already posted
+      let launch = queue.shift();
+      while (launch && !await this.storage.claimFeedPost(guildId, launch.pairAddress)) {
+        launch = queue.shift();
+      }
+
+      if (queue.length === 0) {
+        this.queues.delete(guildId);
+      }
+
+      if (launch) {
+        await this.post(settings, launch);
+      }
+    }
+  }
+
+  private async post(settings: FeedSettings, launch: TokenLaunch): Promise<void> {
+    try {
+      const channel = await this.discordClient.channels.fetch(settings.channelId);
+      if (!channel || !channel.isTextBased() || !('send' in channel)) {
+        console.log(`Launch feed channel ${settings.channelId} for guild ${settings.guildId} is unavailable`);
+        return;
+      }
+
+      await channel.send({ embeds: [buildFeedEmbed(launch)] });
+    } catch (error) {
+      console.error(`Error posting launch to feed for guild ${settings.guildId}:`, error);
+    }
+  }
+}
+
+export function matchesFeedFilter(settings: FeedSettings, launch: TokenLaunch): boolean {
+  if (launch.liquidityUsd < settings.minLiquidityUsd) {
+    return false;
+  }
+
+  if (launch.volume24h < settings.minVolumeUsd) {
+    return false;
+  }
+
+  if (settings.maxAgeMinutes !== null && Date.now() - launch.pairCreatedAt > settings.maxAgeMinutes * 60 * 1000) {
+    return false;
+  }
+
+  if (settings.dexIds && !settings.dexIds.includes(launch.dexId.toLowerCase())) {
+    return false;
+  }
+
+  return true;
+}
+
+function buildFeedEmbed(launch: TokenLaunch): EmbedBuilder {
+  const priceChangeEmoji = launch.priceChange24h >= 0 ? '📈' : '📉';
+
+  const embed = new EmbedBuilder()
+    .setTitle(`🆕 ${launch.name} (${launch.symbol})`)
+    .setURL(launch.dexscreenerUrl)
+    .setColor(0x0052FF) // Base chain blue
+    .addFields(
+      { name: '💵 Price', value: formatPrice(launch.priceUsd), inline: true },
+      { name: `${priceChangeEmoji} 24h Change`, value: formatPercent(launch.priceChange24h), inline: true },
+      { name: '⏰ Age', value: formatAge(launch.pairCreatedAt), inline: true },
+      { name: '💰 Market Cap', value: formatUsd(launch.marketCap), inline: true },
+      { name: '📊 24h Volume', value: formatUsd(launch.volume24h), inline: true },
+      { name: '💧 Liquidity', value: formatUsd(launch.liquidityUsd), inline: true },
+      { name: '📝 Contract', value: `\`${launch.tokenAddress}\``, inline: false }
+    )
+    .setFooter({ text: `DEX: ${launch.dexId} | Base Chain` })
+    .setTimestamp();
+
+  if (launch.riskScore !== undefined) {
+    embed.addFields({
+      name: `⚠️ ${formatRiskBadge(launch.riskScore)}`,
+      value: formatRiskFactors(launch.riskFactors || []),
+      inline: false,
+    });
+  }
+
+  return embed;
+}
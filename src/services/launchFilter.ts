@@ -0,0 +1,343 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { TokenLaunch } from '../types';
+import { config } from '../utils/config';
+
+// How often the rules file is checked for changes
+const WATCH_INTERVAL_MS = 2000;
+
+export interface FilterLists {
+  symbols?: string[];
+  names?: string[]; // Regexes; "/pattern/flags" for flags, otherwise case-insensitive
+  tokens?: string[];
+  dexes?: string[];
+  quoteTokens?: string[]; // Addresses or symbols
+}
+
+export interface FilterBounds {
+  minLiquidityUsd?: number;
+  minVolumeUsd?: number;
+  maxMarketCapUsd?: number;
+  minAgeMinutes?: number;
+  maxAgeHours?: number;
+}
+
+/**
+ * The contents of the rules file. Launches matching an allow list skip the
+ * deny lists, but still have to be within the bounds. Lists given in the
+ * file replace the built-in ones; bounds are overridden one by one.
+ */
+export interface FilterRules {
+  allow?: FilterLists;
+  deny?: FilterLists;
+  bounds?: FilterBounds;
+}
+
+export interface FilterDecision {
+  accepted: boolean;
+  rule: string; // e.g. "deny.symbols" or "bounds.minLiquidityUsd"
+  reason: string;
+}
+
+interface CompiledLists {
+  symbols: Set<string>;
+  names: RegExp[];
+  tokens: Set<string>;
+  dexes: Set<string>;
+  quoteTokens: Set<string>;
+}
+
+interface CompiledRules {
+  allow: CompiledLists;
+  deny: CompiledLists;
+  bounds: Required<FilterBounds>;
+}
+
+const LIST_KEYS: (keyof FilterLists)[] = ['symbols', 'names', 'tokens', 'dexes', 'quoteTokens'];
+const BOUND_KEYS: (keyof FilterBounds)[] = ['minLiquidityUsd', 'minVolumeUsd', 'maxMarketCapUsd', 'minAgeMinutes', 'maxAgeHours'];
+
+// Used for anything the rules file doesn't set
+const DEFAULT_RULES: FilterRules = {
+  allow: {},
+  deny: {
+    symbols: [
+      // Wrapped tokens
+      'WETH', 'WBTC', 'WSOL', 'WMATIC', 'WAVAX', 'WBNB', 'WFTM',
+      // Coinbase wrapped tokens
+      'CBETH', 'CBBTC', 'CBTC', 'CBLTC', 'CBXRP', 'CBSOL', 'CBDOGE',
+      // Other wrapped/bridged
+      'RETH', 'STETH', 'WSTETH', 'TBTC', 'RENBTC', 'HBTC',
+      // Stablecoins
+      'USDC', 'USDT', 'DAI', 'BUSD', 'TUSD', 'USDP', 'GUSD', 'FRAX', 'LUSD', 'SUSD', 'USDD', 'USDBC', 'EURC', 'PYUSD',
+      // Major tokens that aren't "new launches"
+      'ETH', 'BTC', 'SOL', 'MATIC', 'AVAX', 'BNB', 'FTM', 'OP', 'ARB', 'LTC', 'XRP', 'DOGE', 'ADA', 'DOT',
+      'LINK', 'UNI', 'AAVE', 'CRV', 'MKR', 'SNX', 'COMP', 'SUSHI', 'YFI', 'BAL',
+      'PEPE', 'SHIB', 'FLOKI', 'BONK', 'WIF', 'BRETT', 'TOSHI', 'DEGEN',
+    ],
+    names: [
+      '^wrapped\\s',
+      '^bridged\\s',
+      '\\bwrapped\\b',
+      '\\bbridge[d]?\\b',
+      '^coinbase\\s+wrapped',
+      '^USD\\s?Coin',
+      '^Tether',
+      '/^cb[A-Z]/', // Coinbase wrapped tokens like cbBTC, cbETH
+    ],
+  },
+  bounds: {
+    // Anything above this market cap is established, not a new launch
+    maxMarketCapUsd: 50_000_000,
+    maxAgeHours: 7 * 24,
+  },
+};
+
+/**
+ * Decides which launches are worth tracking, whichever provider discovered
+ * them. Rules come from FILTER_RULES_PATH (JSON or YAML) on top of the
+ * built-in defaults, and are reloaded whenever the file changes.
+ */
+export class LaunchFilter {
+  private rules: CompiledRules;
+  private loadedAt: number | null = null;
+  private watching: boolean = false;
+
+  constructor(private rulesPath: string) {
+    this.rules = compileRules({});
+  }
+
+  get path(): string {
+    return this.rulesPath;
+  }
+
+  // When the rules file was last loaded; null while running on the built-in rules
+  get lastLoadedAt(): number | null {
+    return this.loadedAt;
+  }
+
+  /**
+   * Load the rules file, falling back to the built-in rules if there is none.
+   * Throws on an invalid file, leaving the current rules in place.
+   */
+  load(): void {
+    if (!fs.existsSync(this.rulesPath)) {
+      this.rules = compileRules({});
+      this.loadedAt = null;
+      console.log(`No filter rules file at ${this.rulesPath}, using the built-in rules`);
+      return;
+    }
+
+    const raw = fs.readFileSync(this.rulesPath, 'utf8');
+    const parsed = path.extname(this.rulesPath).toLowerCase() === '.json' ? JSON.parse(raw) : YAML.parse(raw);
+    this.rules = compileRules(validateRules(parsed ?? {}));
+    this.loadedAt = Date.now();
+    console.log(`Loaded filter rules from ${this.rulesPath}`);
+  }
+
+  // Reload the rules whenever the file is created, edited or removed
+  watch(): void {
+    if (this.watching) {
+      return;
+    }
+    this.watching = true;
+
+    fs.watchFile(this.rulesPath, { interval: WATCH_INTERVAL_MS }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+
+      try {
+        this.load();
+      } catch (error: any) {
+        console.error(`Invalid filter rules in ${this.rulesPath}, keeping the previous rules:`, error.message);
+      }
+    });
+  }
+
+  stopWatching(): void {
+    if (this.watching) {
+      fs.unwatchFile(this.rulesPath);
+      this.watching = false;
+    }
+  }
+
+  filter(launches: TokenLaunch[]): TokenLaunch[] {
+    const now = Date.now();
+    return launches.filter(launch => this.evaluate(launch, now).accepted);
+  }
+
+  // Which rule accepts or rejects a launch, and why
+  evaluate(launch: TokenLaunch, now: number = Date.now()): FilterDecision {
+    const { allow, deny, bounds } = this.rules;
+
+    // Must have basic info
+    if (!launch.name || !launch.symbol) {
+      return reject('required', 'Missing name or symbol');
+    }
+
+    const allowed = matchLists(allow, launch);
+    if (!allowed) {
+      const denied = matchLists(deny, launch);
+      if (denied) {
+        return reject(`deny.${denied.list}`, `${denied.value} is on the deny list`);
+      }
+    }
+
+    const ageMs = now - launch.pairCreatedAt;
+
+    // Too young usually means a failed or not yet funded launch
+    if (ageMs < bounds.minAgeMinutes * 60 * 1000) {
+      return reject('bounds.minAgeMinutes', `Pair is ${Math.floor(ageMs / 60000)}m old, minimum is ${bounds.minAgeMinutes}m`);
+    }
+
+    if (ageMs > bounds.maxAgeHours * 60 * 60 * 1000) {
+      return reject('bounds.maxAgeHours', `Pair is ${Math.floor(ageMs / 3600000)}h old, maximum is ${bounds.maxAgeHours}h`);
+    }
+
+    if (launch.liquidityUsd < bounds.minLiquidityUsd) {
+      return reject('bounds.minLiquidityUsd', `Liquidity $${Math.round(launch.liquidityUsd)} is below $${bounds.minLiquidityUsd}`);
+    }
+
+    if (launch.volume24h < bounds.minVolumeUsd) {
+      return reject('bounds.minVolumeUsd', `24h volume $${Math.round(launch.volume24h)} is below $${bounds.minVolumeUsd}`);
+    }
+
+    // Too high means an established token, not a new launch
+    if (launch.marketCap > bounds.maxMarketCapUsd) {
+      return reject('bounds.maxMarketCapUsd', `Market cap $${Math.round(launch.marketCap)} is above $${bounds.maxMarketCapUsd}`);
+    }
+
+    return allowed
+      ? { accepted: true, rule: `allow.${allowed.list}`, reason: `${allowed.value} is on the allow list and within bounds` }
+      : { accepted: true, rule: 'bounds', reason: 'Not on any deny list and within bounds' };
+  }
+}
+
+function reject(rule: string, reason: string): FilterDecision {
+  return { accepted: false, rule, reason };
+}
+
+// The first list entry a launch matches, if any
+function matchLists(lists: CompiledLists, launch: TokenLaunch): { list: keyof FilterLists; value: string } | null {
+  if (lists.tokens.has(launch.tokenAddress.toLowerCase())) {
+    return { list: 'tokens', value: launch.tokenAddress };
+  }
+
+  if (lists.symbols.has(launch.symbol.toUpperCase())) {
+    return { list: 'symbols', value: launch.symbol };
+  }
+
+  const namePattern = lists.names.find(pattern => pattern.test(launch.name));
+  if (namePattern) {
+    return { list: 'names', value: `"${launch.name}" (${namePattern})` };
+  }
+
+  if (lists.dexes.has(launch.dexId.toLowerCase())) {
+    return { list: 'dexes', value: launch.dexId };
+  }
+
+  const quote = [launch.quoteTokenAddress, launch.quoteTokenSymbol?.toLowerCase()].find(value => value && lists.quoteTokens.has(value));
+  if (quote) {
+    return { list: 'quoteTokens', value: `Quote token ${launch.quoteTokenSymbol || quote}` };
+  }
+
+  return null;
+}
+
+function compileRules(rules: FilterRules): CompiledRules {
+  const compileLists = (lists: FilterLists | undefined, defaults: FilterLists | undefined): CompiledLists => {
+    const list = (key: keyof FilterLists) => lists?.[key] ?? defaults?.[key] ?? [];
+    return {
+      symbols: new Set(list('symbols').map(symbol => symbol.toUpperCase())),
+      names: list('names').map(compilePattern),
+      tokens: new Set(list('tokens').map(address => address.toLowerCase())),
+      dexes: new Set(list('dexes').map(dex => dex.toLowerCase())),
+      quoteTokens: new Set(list('quoteTokens').map(quote => quote.toLowerCase())),
+    };
+  };
+
+  return {
+    allow: compileLists(rules.allow, DEFAULT_RULES.allow),
+    deny: compileLists(rules.deny, DEFAULT_RULES.deny),
+    bounds: {
+      minLiquidityUsd: config.filters.minLiquidityUsd,
+      minVolumeUsd: config.filters.minVolumeUsd,
+      minAgeMinutes: config.filters.minPairAgeMinutes,
+      maxMarketCapUsd: Infinity,
+      maxAgeHours: Infinity,
+      ...DEFAULT_RULES.bounds,
+      ...rules.bounds,
+    },
+  };
+}
+
+// "/^cb[A-Z]/" keeps its own flags; a bare pattern is case-insensitive
+function compilePattern(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'i');
+}
+
+function validateRules(value: unknown): FilterRules {
+  if (!isObject(value)) {
+    throw new Error('Filter rules must be an object with allow, deny and/or bounds');
+  }
+
+  for (const section of ['allow', 'deny'] as const) {
+    const lists = value[section];
+    if (lists === undefined) continue;
+    if (!isObject(lists)) {
+      throw new Error(`${section} must be an object of lists`);
+    }
+
+    for (const [key, list] of Object.entries(lists)) {
+      if (!LIST_KEYS.includes(key as keyof FilterLists)) {
+        throw new Error(`Unknown list ${section}.${key} (expected one of ${LIST_KEYS.join(', ')})`);
+      }
+      if (!Array.isArray(list) || !list.every(item => typeof item === 'string')) {
+        throw new Error(`${section}.${key} must be a list of strings`);
+      }
+      if (key === 'names') {
+        for (const pattern of list) {
+          try {
+            compilePattern(pattern);
+          } catch {
+            throw new Error(`${section}.names has an invalid regex: ${pattern}`);
+          }
+        }
+      }
+    }
+  }
+
+  const bounds = value.bounds;
+  if (bounds !== undefined) {
+    if (!isObject(bounds)) {
+      throw new Error('bounds must be an object');
+    }
+
+    for (const [key, bound] of Object.entries(bounds)) {
+      if (!BOUND_KEYS.includes(key as keyof FilterBounds)) {
+        throw new Error(`Unknown bound bounds.${key} (expected one of ${BOUND_KEYS.join(', ')})`);
+      }
+      if (typeof bound !== 'number' || isNaN(bound)) {
+        throw new Error(`bounds.${key} must be a number`);
+      }
+    }
+  }
+
+  return value as FilterRules;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const launchFilter = new LaunchFilter(config.filters.rulesPath);
+
+/**
+ * Keep only launches that look like new tokens worth tracking, whichever
+ * provider discovered them
+ */
+export function filterValidLaunches(launches: TokenLaunch[]): TokenLaunch[] {
+  return launchFilter.filter(launches);
+}
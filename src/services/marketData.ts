@@ -0,0 +1,101 @@
+import { MarketDataProviderName, MarketPair, TokenLaunch } from '../types';
+import { config } from '../utils/config';
+import { dexScreenerService } from './dexscreener';
+import { geckoTerminalService } from './geckoterminal';
+
+/**
+ * A source of Base market data. Implementations normalize their API's
+ * responses into `TokenLaunch`, and throw when the API is unavailable so a
+ * fallback can take over.
+ */
+export interface MarketDataProvider {
+  readonly name: MarketDataProviderName;
+
+  // Recently created Base pairs (unfiltered)
+  discoverLaunches(): Promise<TokenLaunch[]>;
+
+  // Every Base pair trading a token, with extra detail for display
+  getTokenPairs(tokenAddress: string): Promise<MarketPair[]>;
+
+  // Every Base pair for many tokens at once
+  getTokens(tokenAddresses: string[]): Promise<TokenLaunch[]>;
+
+  getPair(pairAddress: string): Promise<TokenLaunch | null>;
+
+  // Lowercased addresses of Base tokens currently promoted on the provider
+  getBoostedTokens(): Promise<string[]>;
+}
+
+const PROVIDERS: Record<MarketDataProviderName, MarketDataProvider> = {
+  dexscreener: dexScreenerService,
+  geckoterminal: geckoTerminalService,
+};
+
+/**
+ * Serves every request from the primary provider and retries it on the
+ * fallback when the primary fails. After a failure the primary is skipped
+ * for a cooldown, so an API that is down or rate-limiting us isn't hit again
+ * on every request.
+ */
+export class FallbackMarketDataProvider implements MarketDataProvider {
+  private primaryDownUntil: number = 0;
+
+  constructor(
+    private primary: MarketDataProvider,
+    private fallback: MarketDataProvider,
+    private cooldownMs: number
+  ) {}
+
+  // Whichever provider is currently answering
+  get name(): MarketDataProviderName {
+    return Date.now() < this.primaryDownUntil ? this.fallback.name : this.primary.name;
+  }
+
+  discoverLaunches(): Promise<TokenLaunch[]> {
+    return this.withFallback('discovery', provider => provider.discoverLaunches());
+  }
+
+  getTokenPairs(tokenAddress: string): Promise<MarketPair[]> {
+    return this.withFallback('token pair lookup', provider => provider.getTokenPairs(tokenAddress));
+  }
+
+  getTokens(tokenAddresses: string[]): Promise<TokenLaunch[]> {
+    return this.withFallback('token lookup', provider => provider.getTokens(tokenAddresses));
+  }
+
+  getPair(pairAddress: string): Promise<TokenLaunch | null> {
+    return this.withFallback('pair lookup', provider => provider.getPair(pairAddress));
+  }
+
+  getBoostedTokens(): Promise<string[]> {
+    return this.withFallback('boosts', provider => provider.getBoostedTokens());
+  }
+
+  private async withFallback<T>(operation: string, request: (provider: MarketDataProvider) => Promise<T>): Promise<T> {
+    if (Date.now() >= this.primaryDownUntil) {
+      try {
+        return await request(this.primary);
+      } catch (error: any) {
+        this.primaryDownUntil = Date.now() + this.cooldownMs;
+        console.error(
+          `${this.primary.name} ${operation} failed (${error.message}), ` +
+          `using ${this.fallback.name} for the next ${Math.round(this.cooldownMs / 1000)}s`
+        );
+      }
+    }
+
+    return request(this.fallback);
+  }
+}
+
+export function createMarketDataProvider(): MarketDataProvider {
+  const { primary, fallback, failoverCooldownMs } = config.marketData;
+
+  if (!fallback || fallback === primary) {
+    return PROVIDERS[primary];
+  }
+
+  return new FallbackMarketDataProvider(PROVIDERS[primary], PROVIDERS[fallback], failoverCooldownMs);
+}
+
+export const marketData = createMarketDataProvider();
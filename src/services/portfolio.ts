@@ -0,0 +1,196 @@
+import { Client, EmbedBuilder } from 'discord.js';
+import { LaunchStorage } from '../database/storage';
+import { PortfolioPosition, TokenLaunch } from '../types';
+import { config } from '../utils/config';
+import { formatNumber, formatPercent, formatPnl, formatPrice, formatUsd, truncateAddress } from '../utils/formatters';
+
+// How often the reporter looks for summaries that are due
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Discord caps embed descriptions at 4096 characters
+const MAX_LISTED_POSITIONS = 15;
+
+export interface PositionValue {
+  position: PortfolioPosition;
+  // Missing while the token has no stored price yet
+  launch?: TokenLaunch;
+  value: number | null;
+  cost: number;
+  pnl: number | null;
+  pnlPercent: number | null;
+  // Share of the priced positions' total value, in percent
+  allocation: number | null;
+  // Change in value over the last 24h, or since the position was added if later
+  dayPnl: number | null;
+}
+
+export interface PortfolioValue {
+  positions: PositionValue[];
+  // Totals cover priced positions only, so PnL compares like with like
+  totalValue: number;
+  totalCost: number;
+  totalPnl: number;
+  totalPnlPercent: number | null;
+  dayPnl: number;
+}
+
+/**
+ * Values a user's positions at the latest stored price of each token.
+ */
+export async function valuePortfolio(
+  storage: LaunchStorage,
+  positions: PortfolioPosition[],
+  now: number = Date.now()
+): Promise<PortfolioValue> {
+  const valued: PositionValue[] = [];
+
+  for (const position of positions) {
+    const launch = await storage.getLatestTokenData(position.tokenAddress);
+    const cost = position.amount * position.entryPrice;
+
+    if (!launch || !(launch.priceUsd > 0)) {
+      valued.push({ position, launch, value: null, cost, pnl: null, pnlPercent: null, allocation: null, dayPnl: null });
+      continue;
+    }
+
+    const value = position.amount * launch.priceUsd;
+    const dayStartPrice = position.addedAt > now - DAY_MS
+      ? position.entryPrice
+      : launch.priceUsd / (1 + (launch.priceChange24h || 0) / 100);
+
+    valued.push({
+      position,
+      launch,
+      value,
+      cost,
+      pnl: value - cost,
+      pnlPercent: cost > 0 ? ((value - cost) / cost) * 100 : null,
+      allocation: null,
+      dayPnl: position.amount * (launch.priceUsd - dayStartPrice),
+    });
+  }
+
+  const priced = valued.filter(entry => entry.value !== null);
+  const totalValue = priced.reduce((sum, entry) => sum + (entry.value as number), 0);
+  const totalCost = priced.reduce((sum, entry) => sum + entry.cost, 0);
+
+  for (const entry of priced) {
+    entry.allocation = totalValue > 0 ? ((entry.value as number) / totalValue) * 100 : null;
+  }
+
+  // Largest holdings first, unpriced ones last
+  valued.sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+
+  return {
+    positions: valued,
+    totalValue,
+    totalCost,
+    totalPnl: totalValue - totalCost,
+    totalPnlPercent: totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : null,
+    dayPnl: priced.reduce((sum, entry) => sum + (entry.dayPnl as number), 0),
+  };
+}
+
+export function buildPortfolioEmbed(portfolio: PortfolioValue, title: string): EmbedBuilder {
+  const lines = portfolio.positions.slice(0, MAX_LISTED_POSITIONS).map(formatPosition);
+  const hidden = portfolio.positions.length - lines.length;
+  if (hidden > 0) {
+    lines.push(`*...and ${hidden} more*`);
+  }
+
+  return new EmbedBuilder()
+    .setTitle(title)
+    .setDescription(lines.join('\n\n'))
+    .setColor(portfolio.totalPnl >= 0 ? 0x00FF00 : 0xFF0000)
+    .addFields(
+      { name: '💰 Value', value: formatUsd(portfolio.totalValue), inline: true },
+      { name: '🧾 Cost Basis', value: formatUsd(portfolio.totalCost), inline: true },
+      { name: '📈 Unrealized PnL', value: `${formatPnl(portfolio.totalPnl)} (${formatPercent(portfolio.totalPnlPercent)})`, inline: true },
+      { name: '🕐 24h PnL', value: formatPnl(portfolio.dayPnl), inline: true }
+    )
+    .setFooter({ text: `${portfolio.positions.length} positions | Priced from the latest stored data` })
+    .setTimestamp();
+}
+
+function formatPosition(entry: PositionValue): string {
+  const { position, launch } = entry;
+  const label = launch ? `**${launch.name} (${launch.symbol})**` : '**Unknown Token**';
+  const holding = `${formatNumber(position.amount)} @ ${formatPrice(position.entryPrice)}`;
+
+  if (entry.value === null) {
+    return `${label}\n${holding} | No price yet\n\`${truncateAddress(position.tokenAddress)}\``;
+  }
+
+  const allocation = entry.allocation !== null ? ` (${entry.allocation.toFixed(1)}%)` : '';
+  return `${label}\n${holding} → ${formatPrice(launch?.priceUsd)}\n` +
+    `💵 ${formatUsd(entry.value)}${allocation} | ${formatPnl(entry.pnl)} (${formatPercent(entry.pnlPercent)})\n` +
+    `\`${truncateAddress(position.tokenAddress)}\``;
+}
+
+/**
+ * DMs a portfolio summary once a day, at PORTFOLIO_SUMMARY_HOUR_UTC, to
+ * users who turned it on with `!portfolio daily on`. Each send is claimed in
+ * storage first, so instances sharing it send one summary between them.
+ */
+export class PortfolioReporter {
+  private storage: LaunchStorage;
+  private discordClient: Client;
+  private checkInterval: NodeJS.Timeout | null = null;
+
+  constructor(storage: LaunchStorage, discordClient: Client) {
+    this.storage = storage;
+    this.discordClient = discordClient;
+  }
+
+  start(): void {
+    console.log(`Starting portfolio reporter; daily summaries at ${config.portfolio.summaryHourUtc}:00 UTC`);
+    this.checkInterval = setInterval(() => {
+      this.sendDueSummaries().catch(err => console.error('Portfolio summary error:', err));
+    }, CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  private async sendDueSummaries(): Promise<void> {
+    const now = Date.now();
+    const lastSlot = latestSummarySlot(now);
+
+    for (const subscriber of await this.storage.getDailySummarySubscribers()) {
+      if (subscriber.lastSummaryAt !== null && subscriber.lastSummaryAt >= lastSlot) {
+        continue;
+      }
+
+      const positions = await this.storage.getPortfolio(subscriber.userId);
+      if (positions.length === 0) {
+        continue;
+      }
+
+      // Another instance sharing the storage may have sent it since we read it
+      if (!await this.storage.claimDailySummary(subscriber.userId, subscriber.lastSummaryAt, now)) {
+        continue;
+      }
+
+      try {
+        const embed = buildPortfolioEmbed(await valuePortfolio(this.storage, positions, now), '📒 Daily Portfolio Summary');
+        const user = await this.discordClient.users.fetch(subscriber.userId);
+        await user.send({ embeds: [embed] });
+      } catch (error) {
+        console.error(`Error sending portfolio summary to user ${subscriber.userId}:`, error);
+      }
+    }
+  }
+}
+
+// The most recent summary time at or before `now`
+export function latestSummarySlot(now: number): number {
+  const slot = new Date(now);
+  slot.setUTCHours(config.portfolio.summaryHourUtc, 0, 0, 0);
+  return slot.getTime() > now ? slot.getTime() - DAY_MS : slot.getTime();
+}
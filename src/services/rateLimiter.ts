@@ -0,0 +1,226 @@
+export interface BucketLimit {
+  // The API's published limit
+  requestsPerMinute: number;
+  // Requests that may go out back to back before spacing kicks in
+  burst: number;
+}
+
+export interface RateLimiterOptions {
+  name: string;
+  // One bucket per endpoint group, keyed by a name the service picks
+  buckets: Record<string, BucketLimit>;
+  maxAttempts?: number;
+  // Requests that would wait longer than this for a slot are dropped instead
+  maxQueueMs?: number;
+}
+
+export interface RateLimiterStats {
+  requests: number;
+  // Requests that had to wait for a slot or a Retry-After pause
+  throttled: number;
+  // 429 responses received
+  rateLimited: number;
+  retries: number;
+  // Requests rejected without being sent because the queue was too long
+  dropped: number;
+}
+
+/**
+ * A request the limiter refused to queue, e.g. because the API asked us to
+ * back off for longer than `maxQueueMs`
+ */
+export class RateLimitDroppedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RateLimitDroppedError';
+  }
+}
+
+/**
+ * A token bucket that hands out slots by reservation. Each caller takes its
+ * slot synchronously and then sleeps until it's due, so concurrent callers
+ * are queued in order without ever exceeding the rate.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private pausedUntil: number = 0;
+  private refillPerMs: number;
+
+  constructor(private limit: BucketLimit) {
+    this.tokens = limit.burst;
+    // A full burst plus a minute of refills must stay within the published limit
+    this.refillPerMs = Math.max(1, limit.requestsPerMinute - limit.burst) / 60000;
+  }
+
+  // Takes a slot and returns how long until it may be used
+  reserve(): number {
+    const now = Date.now();
+    if (now > this.lastRefill) {
+      this.tokens = Math.min(this.limit.burst, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+      this.lastRefill = now;
+    }
+
+    this.tokens -= 1;
+    const refillWait = this.tokens >= 0 ? 0 : -this.tokens / this.refillPerMs;
+    return Math.max(0, this.lastRefill - now) + refillWait;
+  }
+
+  // Gives back a slot that was reserved but won't be used
+  release(): void {
+    this.tokens += 1;
+  }
+
+  // Stop handing out slots until the API's Retry-After has passed
+  pause(durationMs: number): void {
+    const until = Date.now() + durationMs;
+    if (until <= this.pausedUntil) {
+      return;
+    }
+
+    this.pausedUntil = until;
+    // Nothing refills while paused, and only one request goes out when it ends
+    this.tokens = Math.min(this.tokens, 1);
+    this.lastRefill = Math.max(this.lastRefill, until);
+  }
+
+  remainingPauseMs(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+}
+
+const limiters: RateLimiter[] = [];
+
+/**
+ * Rate limiting and retries for an HTTP API with per-endpoint limits. 429s
+ * pause the endpoint's bucket for the Retry-After duration, network errors
+ * and 5xx are retried with backoff, and other 4xx fail straight away.
+ */
+export class RateLimiter {
+  readonly name: string;
+  private buckets = new Map<string, TokenBucket>();
+  private maxAttempts: number;
+  private maxQueueMs: number;
+  private stats: RateLimiterStats = { requests: 0, throttled: 0, rateLimited: 0, retries: 0, dropped: 0 };
+
+  constructor(options: RateLimiterOptions) {
+    this.name = options.name;
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.maxQueueMs = options.maxQueueMs ?? 60000;
+
+    for (const [bucket, limit] of Object.entries(options.buckets)) {
+      this.buckets.set(bucket, new TokenBucket(limit));
+    }
+
+    limiters.push(this);
+  }
+
+  async request<T>(bucketName: string, fn: () => Promise<T>): Promise<T> {
+    const bucket = this.buckets.get(bucketName);
+    if (!bucket) {
+      throw new Error(`Unknown ${this.name} rate limit bucket: ${bucketName}`);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await this.acquire(bucket, bucketName);
+      this.stats.requests++;
+
+      try {
+        return await fn();
+      } catch (error: any) {
+        const status: number | undefined = error.response?.status;
+        const backoffMs = Math.pow(2, attempt - 1) * 1000;
+
+        if (status === 429) {
+          this.stats.rateLimited++;
+          // The pause also holds back every other request queued on this bucket
+          bucket.pause(parseRetryAfter(error.response.headers?.['retry-after']) ?? backoffMs);
+        }
+
+        if (!isRetryableError(error) || attempt >= this.maxAttempts) {
+          throw error;
+        }
+
+        this.stats.retries++;
+        console.error(`${this.name} request failed (attempt ${attempt}/${this.maxAttempts}):`, error.message);
+
+        if (status !== 429) {
+          await sleep(backoffMs);
+        }
+      }
+    }
+  }
+
+  getStats(): RateLimiterStats {
+    return { ...this.stats };
+  }
+
+  private async acquire(bucket: TokenBucket, bucketName: string): Promise<void> {
+    let waitMs = bucket.reserve();
+    let throttled = false;
+
+    // A 429 may pause the bucket while we wait, so check again after waking;
+    // the slot we hold is handed back before queueing behind the pause
+    while (waitMs > 0) {
+      if (waitMs > this.maxQueueMs) {
+        bucket.release();
+        this.stats.dropped++;
+        throw new RateLimitDroppedError(
+          `${this.name} ${bucketName} request dropped: next slot is ${Math.ceil(waitMs / 1000)}s away`
+        );
+      }
+
+      throttled = true;
+      await sleep(waitMs);
+      if (bucket.remainingPauseMs() > 0) {
+        bucket.release();
+        waitMs = bucket.reserve();
+      } else {
+        waitMs = 0;
+      }
+    }
+
+    if (throttled) {
+      this.stats.throttled++;
+    }
+  }
+}
+
+/**
+ * Network errors, timeouts, 429 and 5xx may succeed on a retry; any other
+ * 4xx means the request itself is wrong
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof RateLimitDroppedError) {
+    return false;
+  }
+
+  const status: number | undefined = error?.response?.status;
+  if (status === undefined) {
+    return true;
+  }
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+export function getRateLimiterStats(): { name: string; stats: RateLimiterStats }[] {
+  return limiters.map(limiter => ({ name: limiter.name, stats: limiter.getStats() }));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
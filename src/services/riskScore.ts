@@ -0,0 +1,176 @@
+import { LaunchSnapshot, RiskAssessment, RiskFactor, RiskLevel, TokenLaunch } from '../types';
+
+// How far back liquidity history is checked for a sudden drop
+export const LIQUIDITY_HISTORY_MS = 6 * 60 * 60 * 1000;
+
+// Peaks below this are too thin for a drop to mean anything
+const MIN_PEAK_LIQUIDITY_USD = 1000;
+
+// Fewer buys than this don't say much about whether selling works
+const MIN_BUYS_FOR_SELL_CHECK = 20;
+
+const LEVEL_THRESHOLDS: { level: RiskLevel; minScore: number }[] = [
+  { level: 'high', minScore: 50 },
+  { level: 'medium', minScore: 25 },
+  { level: 'low', minScore: 0 },
+];
+
+const LEVEL_BADGES: Record<RiskLevel, string> = {
+  high: '🔴 High risk',
+  medium: '🟠 Medium risk',
+  low: '🟢 Low risk',
+};
+
+/**
+ * Heuristic risk score for a launch, with the factors that make it up.
+ * Factors that need provider data (trade counts, FDV, socials) are skipped
+ * when the provider didn't report them. `history` is the pair's earlier
+ * snapshots, oldest first.
+ */
+export function assessRisk(launch: TokenLaunch, history: LaunchSnapshot[], now: number = Date.now()): RiskAssessment {
+  const factors = [
+    liquidityRatioFactor(launch),
+    sellStarvationFactor(launch),
+    fdvGapFactor(launch),
+    socialsFactor(launch),
+    ageFactor(launch, now),
+    liquidityDropFactor(launch, history),
+  ].filter((factor): factor is RiskFactor => factor !== null);
+
+  const score = Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0));
+  return { score, level: riskLevel(score), factors };
+}
+
+// Copy of the launch with its score and factors attached, ready to store
+export function applyRisk(launch: TokenLaunch, history: LaunchSnapshot[], now: number = Date.now()): TokenLaunch {
+  const { score, factors } = assessRisk(launch, history, now);
+  return { ...launch, riskScore: score, riskFactors: factors };
+}
+
+export function riskLevel(score: number): RiskLevel {
+  return LEVEL_THRESHOLDS.find(threshold => score >= threshold.minScore)!.level;
+}
+
+/**
+ * e.g. "🟠 Medium risk (35)"; empty for launches that haven't been scored
+ */
+export function formatRiskBadge(score: number | undefined): string {
+  if (score === undefined) {
+    return '';
+  }
+  return `${LEVEL_BADGES[riskLevel(score)]} (${score})`;
+}
+
+// The badge after a separator, for appending to a line; empty for unscored launches
+export function formatRiskSuffix(score: number | undefined, separator: string = ' '): string {
+  return score === undefined ? '' : `${separator}${formatRiskBadge(score)}`;
+}
+
+/**
+ * One line per factor, riskiest first, e.g. "• Pair is only 12m old (+15)"
+ */
+export function formatRiskFactors(factors: RiskFactor[]): string {
+  if (factors.length === 0) {
+    return 'No risk factors found';
+  }
+  return [...factors]
+    .sort((a, b) => b.points - a.points)
+    .map(factor => `• ${factor.description} (+${factor.points})`)
+    .join('\n');
+}
+
+// Thin liquidity behind a big market cap means a small sell moves the price a lot
+function liquidityRatioFactor(launch: TokenLaunch): RiskFactor | null {
+  if (launch.marketCap <= 0) {
+    return null;
+  }
+
+  const ratio = launch.liquidityUsd / launch.marketCap;
+  const description = `Liquidity is ${(ratio * 100).toFixed(1)}% of market cap`;
+  if (ratio < 0.02) {
+    return { id: 'liquidity-ratio', points: 25, description };
+  }
+  if (ratio < 0.05) {
+    return { id: 'liquidity-ratio', points: 10, description };
+  }
+  return null;
+}
+
+// Plenty of buys and (almost) no sells is what a honeypot looks like
+function sellStarvationFactor(launch: TokenLaunch): RiskFactor | null {
+  const windows = [
+    { label: '1h', counts: launch.details?.txns.h1 },
+    { label: '24h', counts: launch.details?.txns.h24 },
+  ];
+
+  let worst: RiskFactor | null = null;
+  for (const { label, counts } of windows) {
+    if (!counts || counts.buys < MIN_BUYS_FOR_SELL_CHECK) {
+      continue;
+    }
+
+    let factor: RiskFactor | null = null;
+    if (counts.sells === 0) {
+      factor = { id: 'sell-starvation', points: 35, description: `No sells against ${counts.buys} buys in ${label} (possible honeypot)` };
+    } else if (counts.sells / counts.buys < 0.1) {
+      factor = { id: 'sell-starvation', points: 20, description: `Only ${counts.sells} sells against ${counts.buys} buys in ${label}` };
+    }
+
+    if (factor && (!worst || factor.points > worst.points)) {
+      worst = factor;
+    }
+  }
+  return worst;
+}
+
+// Most of the supply isn't circulating yet and can be dumped later
+function fdvGapFactor(launch: TokenLaunch): RiskFactor | null {
+  const fdv = launch.details?.fdv;
+  if (!fdv || launch.marketCap <= 0) {
+    return null;
+  }
+
+  const multiple = fdv / launch.marketCap;
+  return multiple >= 5
+    ? { id: 'fdv-gap', points: 15, description: `FDV is ${multiple.toFixed(1)}x market cap` }
+    : null;
+}
+
+function socialsFactor(launch: TokenLaunch): RiskFactor | null {
+  const details = launch.details;
+  if (!details?.socialsKnown) {
+    return null;
+  }
+  return details.websites.length + details.socials.length === 0
+    ? { id: 'no-socials', points: 10, description: 'No website or socials listed' }
+    : null;
+}
+
+function ageFactor(launch: TokenLaunch, now: number): RiskFactor | null {
+  const ageMinutes = (now - launch.pairCreatedAt) / (60 * 1000);
+  if (ageMinutes < 60) {
+    return { id: 'young', points: 15, description: `Pair is only ${Math.max(0, Math.floor(ageMinutes))}m old` };
+  }
+  if (ageMinutes < 6 * 60) {
+    return { id: 'young', points: 5, description: 'Pair is under 6h old' };
+  }
+  return null;
+}
+
+// Liquidity well below its recent peak suggests it's being pulled
+function liquidityDropFactor(launch: TokenLaunch, history: LaunchSnapshot[]): RiskFactor | null {
+  const peak = Math.max(0, ...history.map(snapshot => snapshot.liquidityUsd || 0));
+  if (peak < MIN_PEAK_LIQUIDITY_USD) {
+    return null;
+  }
+
+  const drop = 1 - launch.liquidityUsd / peak;
+  const description = `Liquidity down ${Math.round(drop * 100)}% from its 6h high`;
+  if (drop >= 0.5) {
+    return { id: 'liquidity-drop', points: 30, description };
+  }
+  if (drop >= 0.25) {
+    return { id: 'liquidity-drop', points: 15, description };
+  }
+  return null;
+}
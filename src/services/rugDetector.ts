@@ -0,0 +1,148 @@
+import { Client, EmbedBuilder } from 'discord.js';
+import { LaunchStorage } from '../database/storage';
+import { LaunchStore } from '../database/store';
+import { LaunchSnapshot, RugEvent, RugEventKind, TokenLaunch } from '../types';
+import { config } from '../utils/config';
+import { formatMinutes, formatPrice, formatUsd, truncateAddress } from '../utils/formatters';
+
+// A pair isn't flagged again for the same kind of drop within this time
+const EVENT_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+// Events are kept as long as the snapshots they were measured against
+const EVENT_RETENTION_HOURS = 7 * 24;
+
+const KIND_LABELS: Record<RugEventKind, string> = {
+  liquidity: 'Liquidity pulled',
+  price: 'Price collapsed',
+};
+
+/**
+ * Flags pairs whose liquidity or price fell sharply from their peak over the
+ * last few snapshots, records the event and DMs everyone watching the token.
+ * Runs on every tracker poll with the freshly fetched pairs, including ones
+ * the launch filters rejected, since a pulled pair no longer passes them.
+ */
+export class RugDetector {
+  private storage: LaunchStorage;
+  private store: LaunchStore;
+  private discordClient: Client;
+
+  constructor(storage: LaunchStorage, store: LaunchStore, discordClient: Client) {
+    this.storage = storage;
+    this.store = store;
+    this.discordClient = discordClient;
+  }
+
+  // Returns the events recorded for these pairs; notifications go out in the background
+  async check(pairs: TokenLaunch[]): Promise<RugEvent[]> {
+    const { windowMinutes } = config.rugDetection;
+    const now = Date.now();
+    const events: RugEvent[] = [];
+
+    await this.storage.pruneRugEvents(EVENT_RETENTION_HOURS);
+
+    for (const pair of pairs) {
+      const history = this.store.getSnapshots(pair.pairAddress, windowMinutes * 60 * 1000);
+
+      for (const detected of detectDrops(pair, history)) {
+        // Not recorded while in cooldown, including when another instance
+        // sharing the storage flagged the same drop first
+        const event = await this.storage.recordRugEvent({
+          pairAddress: pair.pairAddress,
+          tokenAddress: pair.tokenAddress,
+          detectedAt: now,
+          ...detected,
+        }, now - EVENT_COOLDOWN_MS);
+        if (!event) {
+          continue;
+        }
+        events.push(event);
+
+        console.log(`Rug detector: ${KIND_LABELS[event.kind]} on ${pair.symbol} (${pair.pairAddress}), ${formatRugDrop(event)}`);
+        this.notifyWatchers(pair, event).catch(err => console.error('Error sending rug warnings:', err));
+      }
+    }
+
+    return events;
+  }
+
+  private async notifyWatchers(pair: TokenLaunch, event: RugEvent): Promise<void> {
+    const embed = buildRugEmbed(pair, event);
+
+    for (const userId of await this.storage.getTokenWatchers(pair.tokenAddress)) {
+      try {
+        const user = await this.discordClient.users.fetch(userId);
+        await user.send({ embeds: [embed] });
+      } catch (error) {
+        console.error(`Error sending rug warning to user ${userId}:`, error);
+      }
+    }
+  }
+}
+
+// Drops past the configured thresholds, measured from the highest snapshot in the window
+function detectDrops(
+  pair: TokenLaunch,
+  history: LaunchSnapshot[]
+): Pick<RugEvent, 'kind' | 'peakValue' | 'currentValue' | 'dropPercent'>[] {
+  const { liquidityDropPercent, priceDropPercent, minPeakLiquidityUsd } = config.rugDetection;
+
+  // Moves in pools this thin are noise, not rugs
+  const liquidityPeak = Math.max(0, ...history.map(snapshot => snapshot.liquidityUsd || 0));
+  if (liquidityPeak < minPeakLiquidityUsd) {
+    return [];
+  }
+
+  const drops: Pick<RugEvent, 'kind' | 'peakValue' | 'currentValue' | 'dropPercent'>[] = [];
+
+  const liquidityDrop = (1 - pair.liquidityUsd / liquidityPeak) * 100;
+  if (liquidityDrop >= liquidityDropPercent) {
+    drops.push({ kind: 'liquidity', peakValue: liquidityPeak, currentValue: pair.liquidityUsd, dropPercent: liquidityDrop });
+  }
+
+  // A missing price reads as 0, which isn't a collapse
+  const pricePeak = Math.max(0, ...history.map(snapshot => snapshot.priceUsd || 0));
+  if (pricePeak > 0 && pair.priceUsd > 0) {
+    const priceDrop = (1 - pair.priceUsd / pricePeak) * 100;
+    if (priceDrop >= priceDropPercent) {
+      drops.push({ kind: 'price', peakValue: pricePeak, currentValue: pair.priceUsd, dropPercent: priceDrop });
+    }
+  }
+
+  return drops;
+}
+
+/**
+ * e.g. "down 92% from $45.20K to $3.10K"
+ */
+export function formatRugDrop(event: RugEvent): string {
+  const format = event.kind === 'liquidity' ? formatUsd : formatPrice;
+  return `down ${Math.round(event.dropPercent)}% from ${format(event.peakValue)} to ${format(event.currentValue)}`;
+}
+
+/**
+ * e.g. "Liquidity pulled at 14:05" in the reader's timezone
+ */
+export function formatRugEventTime(event: RugEvent): string {
+  const seconds = Math.floor(event.detectedAt / 1000);
+  return `${KIND_LABELS[event.kind]} at <t:${seconds}:t> (<t:${seconds}:R>)`;
+}
+
+function buildRugEmbed(pair: TokenLaunch, event: RugEvent): EmbedBuilder {
+  return new EmbedBuilder()
+    .setTitle(`🚨 ${KIND_LABELS[event.kind]}: ${pair.name} (${pair.symbol})`)
+    .setURL(pair.dexscreenerUrl)
+    .setColor(0xFF0000)
+    .setDescription(
+      `${event.kind === 'liquidity' ? 'Liquidity' : 'Price'} is ${formatRugDrop(event)} within ${formatMinutes(config.rugDetection.windowMinutes)}.\n` +
+      'You are getting this because the token is on your watchlist.'
+    )
+    .addFields(
+      { name: '💧 Liquidity', value: formatUsd(pair.liquidityUsd), inline: true },
+      { name: '💵 Price', value: formatPrice(pair.priceUsd), inline: true },
+      { name: '🏛️ DEX', value: pair.dexId || 'Unknown', inline: true },
+      { name: '📝 Contract', value: `\`${pair.tokenAddress}\``, inline: false }
+    )
+    .setFooter({ text: `Pair: ${truncateAddress(pair.pairAddress)} | Base Chain` })
+    .setTimestamp(event.detectedAt);
+}
@@ -0,0 +1,136 @@
+import { LaunchStorage } from '../database/storage';
+import { LaunchStore } from '../database/store';
+import { SearchTerm, TokenLaunch } from '../types';
+import { DEFAULT_SEARCH_TERMS, SearchTermSource } from './dexscreener';
+import { DiscoveryTaskOutcome } from './discoveryScheduler';
+
+// Share of a term's weight carried over from earlier searches
+const WEIGHT_DECAY = 0.8;
+
+// Consecutive searches without a new Base pair before a term is dropped
+const MAX_EMPTY_RUNS = 12;
+
+// Keeps zero-weight terms in rotation, just rarely
+const EXPLORATION_WEIGHT = 0.1;
+
+// Never-searched terms are treated as idle this long, so they're tried soon
+const NEVER_USED_IDLE_HOURS = 24;
+
+// Learning: words shared by several of the top launches become terms
+const LEARN_INTERVAL_MS = 15 * 60 * 1000;
+const LEARN_FROM_TOP_LAUNCHES = 50;
+const MIN_LAUNCHES_PER_TERM = 2;
+const MAX_TERMS_LEARNED_PER_PASS = 5;
+const MAX_POOL_SIZE = 80;
+
+// Too generic to narrow a search down to new launches
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'base', 'official', 'finance', 'protocol', 'network', 'labs',
+]);
+
+/**
+ * The discovery search terms, kept as a weighted pool in the store. Terms
+ * are weighted by how many new Base pairs they find, learned from words that
+ * recur among recent high-volume launches, and dropped once they keep
+ * coming back empty. Admins can pin or ban terms with `!admin terms`.
+ */
+export class SearchTermPool implements SearchTermSource {
+  private storage: LaunchStorage;
+  private store: LaunchStore;
+  private lastLearnedAt: number = 0;
+
+  constructor(storage: LaunchStorage, store: LaunchStore) {
+    this.storage = storage;
+    this.store = store;
+    this.store.addSearchTerms(DEFAULT_SEARCH_TERMS, 'seed');
+  }
+
+  // Pinned terms first, then active ones by weight and time since last use
+  nextTerms(count: number): string[] {
+    const now = Date.now();
+    if (now - this.lastLearnedAt >= LEARN_INTERVAL_MS) {
+      this.lastLearnedAt = now;
+      // Learned terms join the pool in time for a later cycle
+      this.learn().catch(err => console.error('Error learning search terms:', err));
+    }
+
+    const byPriority = (a: SearchTerm, b: SearchTerm) => priority(b, now) - priority(a, now);
+    const pinned = this.store.getSearchTerms(['pinned']).sort(byPriority);
+    const active = this.store.getSearchTerms(['active']).sort(byPriority);
+
+    return [...pinned, ...active].slice(0, count).map(term => term.term);
+  }
+
+  recordResults(outcomes: DiscoveryTaskOutcome[]): void {
+    for (const outcome of outcomes) {
+      // A failed request says nothing about the term
+      if (outcome.strategy !== 'search' || !outcome.label || outcome.failed) {
+        continue;
+      }
+      this.store.recordSearchTermRun(outcome.label, outcome.newItems, WEIGHT_DECAY);
+    }
+
+    const dropped = this.store.dropEmptySearchTerms(MAX_EMPTY_RUNS);
+    if (dropped.length > 0) {
+      console.log(`Dropped search terms that stopped finding new pairs: ${dropped.join(', ')}`);
+    }
+  }
+
+  private async learn(): Promise<void> {
+    const launches = await this.storage.getLaunches(24, 'volume', LEARN_FROM_TOP_LAUNCHES);
+
+    const counts = new Map<string, number>();
+    for (const launch of launches) {
+      for (const word of extractWords(launch)) {
+        counts.set(word, (counts.get(word) || 0) + 1);
+      }
+    }
+
+    const pool = new Map(this.store.getSearchTerms().map(term => [term.term, term]));
+    const poolSize = Array.from(pool.values()).filter(term => term.status === 'active' || term.status === 'pinned').length;
+    const room = Math.min(MAX_TERMS_LEARNED_PER_PASS, MAX_POOL_SIZE - poolSize);
+    if (room <= 0) {
+      return;
+    }
+
+    // Dropped terms come back if they start showing up in launches again
+    const learned = Array.from(counts.entries())
+      .filter(([word, count]) => count >= MIN_LAUNCHES_PER_TERM && (!pool.has(word) || pool.get(word)!.status === 'dropped'))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, room)
+      .map(([word]) => word);
+
+    for (const word of learned) {
+      if (pool.has(word)) {
+        this.store.setSearchTermStatus(word, 'active');
+      } else {
+        this.store.addSearchTerms([word], 'learned');
+      }
+    }
+
+    if (learned.length > 0) {
+      console.log(`Learned search terms from recent launches: ${learned.join(', ')}`);
+    }
+  }
+}
+
+function priority(term: SearchTerm, now: number): number {
+  const idleHours = term.lastUsedAt === null ? NEVER_USED_IDLE_HOURS : (now - term.lastUsedAt) / (60 * 60 * 1000);
+  return (term.weight + EXPLORATION_WEIGHT) * (1 + idleHours);
+}
+
+// Distinct words of a launch's name and symbol, e.g. "Based Frog AI (BFROG)" -> based, frog, bfrog
+function extractWords(launch: TokenLaunch): Set<string> {
+  const words = `${launch.name} ${launch.symbol}`.toLowerCase().split(/[^a-z0-9]+/);
+  return new Set(words.filter(word =>
+    word.length >= 3 && word.length <= 20 && !/^\d+$/.test(word) && !STOPWORDS.has(word)
+  ));
+}
+
+/**
+ * Normalize a term typed by an admin; null if it can't be a search term
+ */
+export function normalizeSearchTerm(input: string): string | null {
+  const term = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  return term.length >= 2 && term.length <= 30 ? term : null;
+}
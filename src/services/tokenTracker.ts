@@ -1,16 +1,46 @@
-import { dexScreenerService } from './dexscreener';
+import { marketData } from './marketData';
+import { filterValidLaunches } from './launchFilter';
+import { getRateLimiterStats } from './rateLimiter';
+import { LIQUIDITY_HISTORY_MS, applyRisk } from './riskScore';
+import { MOMENTUM_HISTORY_MS, applyMomentum } from './trendingScore';
+import { LaunchStorage } from '../database/storage';
 import { LaunchStore } from '../database/store';
+import { DiscoveredPair, TokenLaunch } from '../types';
 import { config } from '../utils/config';
 
+type NewLaunchHandler = (launches: TokenLaunch[]) => void;
+type PollHandler = (pairs: TokenLaunch[]) => void;
+
+// On-chain pairs looked up per poll (one provider request per 30 tokens)
+const MAX_DISCOVERED_PAIRS_PER_POLL = 90;
+
+// Longest wait between lookups of an on-chain pair the provider doesn't list yet
+const DISCOVERED_PAIR_MAX_RETRY_MINUTES = 30;
+
 export class TokenTracker {
+  private storage: LaunchStorage;
   private store: LaunchStore;
   private pollInterval: NodeJS.Timeout | null = null;
   private isPolling: boolean = false;
+  private isRunning: boolean = false;
+  private newLaunchHandlers: NewLaunchHandler[] = [];
+  private pollHandlers: PollHandler[] = [];
 
-  constructor(store: LaunchStore) {
+  constructor(storage: LaunchStorage, store: LaunchStore) {
+    this.storage = storage;
     this.store = store;
   }
 
+  // Register a callback for pairs stored for the first time
+  onNewLaunches(handler: NewLaunchHandler): void {
+    this.newLaunchHandlers.push(handler);
+  }
+
+  // Register a callback for every pair fetched by a poll, including ones the filters rejected
+  onPoll(handler: PollHandler): void {
+    this.pollHandlers.push(handler);
+  }
+
   async startPolling(): Promise<void> {
     if (this.isPolling) {
       console.log('Token tracker is already polling');
@@ -39,35 +69,128 @@ export class TokenTracker {
   }
 
   private async poll(): Promise<void> {
+    // A slow discovery cycle can outlast the interval; skip rather than pile up
+    if (this.isRunning) {
+      console.log('Previous poll still running, skipping this one');
+      return;
+    }
+    this.isRunning = true;
+
     try {
-      console.log(`[${new Date().toISOString()}] Fetching Base pairs from DexScreener...`);
+      console.log(`[${new Date().toISOString()}] Fetching Base pairs from ${marketData.name}...`);
+
+      // Fetch pairs from the market data provider, plus pairs seen on-chain
+      const discovered = await marketData.discoverLaunches();
+      const pendingPairs = this.store.getDueDiscoveredPairs(MAX_DISCOVERED_PAIRS_PER_POLL);
+      const onChain = await this.lookupDiscoveredPairs(pendingPairs);
+      console.log(`Fetched ${discovered.length} Base pairs` + (pendingPairs.length > 0 ? `, ${onChain.length}/${pendingPairs.length} on-chain pairs listed` : ''));
+
+      // Filter valid pairs, score risk and momentum against their history and store
+      const fetched = dedupeByPair([...discovered, ...onChain]);
+
+      // Pairs past the retention window would be stored again only to be
+      // archived at the end of the poll; watched ones are refreshed separately
+      const retentionCutoff = Date.now() - config.retention.launchHours * 60 * 60 * 1000;
+      const launches = filterValidLaunches(fetched)
+        .filter(launch => launch.pairCreatedAt >= retentionCutoff)
+        .map(launch => {
+          const history = this.store.getSnapshots(launch.pairAddress, Math.max(LIQUIDITY_HISTORY_MS, MOMENTUM_HISTORY_MS));
+          return applyMomentum(applyRisk(launch, history), history);
+        });
+      console.log(`${launches.length} pairs pass filters and retention`);
+
+      // Stored pairs are done; the rest are retried with backoff until they expire
+      const stored = new Set(launches.map(launch => launch.pairAddress));
+      this.store.removeDiscoveredPairs(Array.from(stored));
+      this.store.rescheduleDiscoveredPairs(
+        pendingPairs.map(pair => pair.pairAddress).filter(address => !stored.has(address)),
+        DISCOVERED_PAIR_MAX_RETRY_MINUTES
+      );
+      this.store.pruneDiscoveredPairs(config.chain.pendingPairMaxAgeMinutes);
+
+      const newLaunches = await this.storage.upsertLaunches(launches);
+      if (newLaunches.length > 0) {
+        console.log(`${newLaunches.length} new pairs discovered`);
+        for (const handler of this.newLaunchHandlers) {
+          handler(newLaunches);
+        }
+      }
+
+      // Record this cycle's values in the snapshot history
+      this.store.insertSnapshots(launches);
 
-      // Fetch pairs from DexScreener
-      const pairs = await dexScreenerService.fetchBasePairs();
-      console.log(`Fetched ${pairs.length} Base pairs`);
+      for (const handler of this.pollHandlers) {
+        handler(fetched);
+      }
 
-      // Filter valid pairs
-      const validPairs = dexScreenerService.filterValidPairs(pairs);
-      console.log(`${validPairs.length} pairs pass filters`);
+      // Move old launches to the archive, and drop archived ones once they expire too
+      const archived = await this.storage.archiveOldLaunches(config.retention.launchHours);
+      if (archived > 0) {
+        console.log(`Archived ${archived} old launches`);
+      }
 
-      // Convert to launches and store
-      const launches = validPairs.map(pair => dexScreenerService.pairToLaunch(pair));
-      this.store.upsertLaunches(launches);
+      if (config.retention.archiveDays > 0) {
+        const prunedArchive = await this.storage.pruneArchive(config.retention.archiveDays);
+        if (prunedArchive > 0) {
+          console.log(`Pruned ${prunedArchive} archived launches`);
+        }
+      }
 
-      // Prune old data
-      const pruned = this.store.pruneOldLaunches(48);
-      if (pruned > 0) {
-        console.log(`Pruned ${pruned} old launches`);
+      const { retentionHours, fullResolutionHours, downsampleMinutes } = config.snapshots;
+      const prunedSnapshots = this.store.pruneSnapshots(retentionHours, fullResolutionHours, downsampleMinutes);
+      if (prunedSnapshots > 0) {
+        console.log(`Pruned ${prunedSnapshots} old snapshots`);
       }
 
       console.log(`[${new Date().toISOString()}] Poll complete. Stored ${launches.length} launches.`);
+      this.logRateLimitStats();
     } catch (error) {
       console.error('Error during polling:', error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // Market data for pairs found by the factory log poller; brand-new pairs
+  // often aren't listed yet, in which case they're simply missing here
+  private async lookupDiscoveredPairs(pairs: DiscoveredPair[]): Promise<TokenLaunch[]> {
+    if (pairs.length === 0) {
+      return [];
+    }
+
+    try {
+      const wanted = new Set(pairs.map(pair => pair.pairAddress));
+      const tokenAddresses = Array.from(new Set(pairs.map(pair => pair.tokenAddress)));
+      const launches = await marketData.getTokens(tokenAddresses);
+      return launches.filter(launch => wanted.has(launch.pairAddress));
+    } catch (error) {
+      console.error('Error looking up on-chain pairs:', error);
+      return [];
+    }
+  }
+
+  // Totals since startup, only for APIs that have had to slow down
+  private logRateLimitStats(): void {
+    for (const { name, stats } of getRateLimiterStats()) {
+      if (stats.throttled > 0 || stats.rateLimited > 0 || stats.dropped > 0) {
+        console.log(
+          `${name} rate limits: ${stats.requests} sent, ${stats.throttled} throttled, ` +
+          `${stats.rateLimited} 429s, ${stats.retries} retries, ${stats.dropped} dropped`
+        );
+      }
     }
   }
 
   async manualRefresh(): Promise<number> {
     await this.poll();
-    return this.store.getLaunches(24, 'volume', 1000).length;
+    return this.storage.countLaunches(24);
+  }
+}
+
+function dedupeByPair(launches: TokenLaunch[]): TokenLaunch[] {
+  const byPair = new Map<string, TokenLaunch>();
+  for (const launch of launches) {
+    byPair.set(launch.pairAddress, launch);
   }
+  return Array.from(byPair.values());
 }
@@ -0,0 +1,146 @@
+import { LaunchSnapshot, TokenLaunch, TrendingWeights } from '../types';
+import { config } from '../utils/config';
+import { formatUsd } from '../utils/formatters';
+
+// Snapshot history the activity growth signal looks back over
+export const MOMENTUM_HISTORY_MS = 60 * 60 * 1000;
+
+// Activity growth needs a snapshot at least this old to compare against
+const MIN_GROWTH_SPAN_MS = 10 * 60 * 1000;
+
+// Fewer trades than this in the last hour don't show real buy pressure
+const MIN_TRADES_FOR_BUY_PRESSURE = 10;
+
+// Reasons listed per token
+const MAX_REASONS = 3;
+
+interface Signal {
+  strength: number; // 0-1
+  reason: string;
+}
+
+export interface MomentumScore {
+  score: number;
+  reasons: string[]; // Strongest contributions first
+}
+
+/**
+ * Momentum score for a launch from short-window volume, price and trade
+ * data. Each signal contributes up to its weight in points, so the default
+ * weights add up to 100. Only gains count: a dump scores like a flat token.
+ * `history` is the pair's snapshots over at least the last hour.
+ */
+export function scoreMomentum(
+  launch: TokenLaunch,
+  history: LaunchSnapshot[],
+  weights: TrendingWeights = config.trending.weights,
+  now: number = Date.now()
+): MomentumScore {
+  const signals: [number, Signal | null][] = [
+    [weights.volume, volumeSignal(launch)],
+    [weights.acceleration, accelerationSignal(launch)],
+    [weights.recentVolume, recentVolumeSignal(launch)],
+    [weights.priceChange, priceChangeSignal(launch)],
+    [weights.buyPressure, buyPressureSignal(launch)],
+    [weights.activityGrowth, activityGrowthSignal(launch, history, now)],
+  ];
+
+  const contributions = signals
+    .filter((entry): entry is [number, Signal] => entry[1] !== null && entry[1].strength > 0)
+    .map(([weight, signal]) => ({ points: weight * signal.strength, reason: signal.reason }))
+    .sort((a, b) => b.points - a.points);
+
+  return {
+    score: Math.round(contributions.reduce((sum, contribution) => sum + contribution.points, 0) * 10) / 10,
+    reasons: contributions.slice(0, MAX_REASONS).map(contribution => contribution.reason),
+  };
+}
+
+// Copy of the launch with its momentum score attached, ready to store
+export function applyMomentum(launch: TokenLaunch, history: LaunchSnapshot[], now: number = Date.now()): TokenLaunch {
+  const { score, reasons } = scoreMomentum(launch, history, config.trending.weights, now);
+  return { ...launch, trendScore: score, trendReasons: reasons };
+}
+
+/**
+ * The stored score, halved for every half-life since the launch was last
+ * polled, so tokens that stop showing up fall down the ranking
+ */
+export function decayedTrendScore(launch: TokenLaunch, now: number = Date.now()): number {
+  const halfLifeMs = config.trending.halfLifeMinutes * 60 * 1000;
+  const elapsed = Math.max(0, now - launch.lastUpdated);
+  return (launch.trendScore || 0) * Math.pow(0.5, elapsed / halfLifeMs);
+}
+
+// $1K an hour counts for nothing, $1M for everything
+function volumeSignal(launch: TokenLaunch): Signal | null {
+  const volume1h = launch.details?.volume.h1;
+  if (!volume1h) {
+    return null;
+  }
+  return { strength: clamp(Math.log10(volume1h / 1000) / 3), reason: `vol 1h ${formatUsd(volume1h)}` };
+}
+
+// The last hour against the 24h hourly average; 8x is full strength
+function accelerationSignal(launch: TokenLaunch): Signal | null {
+  const volume1h = launch.details?.volume.h1;
+  if (!volume1h || launch.volume24h <= 0) {
+    return null;
+  }
+  const ratio = volume1h / (launch.volume24h / 24);
+  return { strength: clamp(Math.log2(ratio) / 3), reason: `vol 1h ${formatGain(ratio)}` };
+}
+
+// The last 5 minutes against the 1h average; 4x is full strength
+function recentVolumeSignal(launch: TokenLaunch): Signal | null {
+  const volume = launch.details?.volume;
+  if (!volume?.m5 || !volume.h1) {
+    return null;
+  }
+  const ratio = volume.m5 / (volume.h1 / 12);
+  return { strength: clamp(Math.log2(ratio) / 2), reason: `vol 5m ${formatGain(ratio)}` };
+}
+
+// +50% in an hour is full strength
+function priceChangeSignal(launch: TokenLaunch): Signal | null {
+  const change = launch.details?.priceChange.h1;
+  if (change === undefined) {
+    return null;
+  }
+  return { strength: clamp(change / 50), reason: `price 1h ${change >= 0 ? '+' : ''}${Math.round(change)}%` };
+}
+
+// 80% buys is full strength
+function buyPressureSignal(launch: TokenLaunch): Signal | null {
+  const trades = launch.details?.txns.h1;
+  const total = trades ? trades.buys + trades.sells : 0;
+  if (!trades || total < MIN_TRADES_FOR_BUY_PRESSURE) {
+    return null;
+  }
+  const buyShare = trades.buys / total;
+  return { strength: clamp((buyShare - 0.5) / 0.3), reason: `${Math.round(buyShare * 100)}% buys` };
+}
+
+// Rolling 24h volume rising between snapshots means the latest trading
+// outpaces what's dropping out of the window; +50% is full strength
+function activityGrowthSignal(launch: TokenLaunch, history: LaunchSnapshot[], now: number): Signal | null {
+  const baseline = history.find(snapshot =>
+    snapshot.timestamp >= now - MOMENTUM_HISTORY_MS && now - snapshot.timestamp >= MIN_GROWTH_SPAN_MS
+  );
+  if (!baseline || !baseline.volume24h) {
+    return null;
+  }
+  const growth = launch.volume24h / baseline.volume24h - 1;
+  const minutes = Math.round((now - baseline.timestamp) / 60000);
+  return { strength: clamp(growth / 0.5), reason: `24h vol ${formatGain(growth + 1)} in ${minutes}m` };
+}
+
+// A ratio as a percentage gain, e.g. 4.4 -> "+340%"
+function formatGain(ratio: number): string {
+  const percent = Math.round((ratio - 1) * 100);
+  return `${percent >= 0 ? '+' : ''}${percent}%`;
+}
+
+function clamp(value: number): number {
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
@@ -0,0 +1,112 @@
+import { marketData } from './marketData';
+import { LIQUIDITY_HISTORY_MS, applyRisk } from './riskScore';
+import { LaunchStorage } from '../database/storage';
+import { LaunchStore } from '../database/store';
+import { TokenLaunch } from '../types';
+import { config } from '../utils/config';
+
+type RefreshHandler = (launches: TokenLaunch[]) => void;
+
+/**
+ * Keeps alerted and watchlisted tokens up to date independently of the launch
+ * feed. Tokens that fail the launch filters, age out, or get pruned would
+ * otherwise stop updating and their alerts would never fire.
+ */
+export class WatchedTokenTracker {
+  private storage: LaunchStorage;
+  private store: LaunchStore;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling: boolean = false;
+  private refreshHandlers: RefreshHandler[] = [];
+
+  constructor(storage: LaunchStorage, store: LaunchStore) {
+    this.storage = storage;
+    this.store = store;
+  }
+
+  // Register a callback for the watched tokens' pairs after each refresh
+  onRefresh(handler: RefreshHandler): void {
+    this.refreshHandlers.push(handler);
+  }
+
+  async startPolling(): Promise<void> {
+    if (this.isPolling) {
+      console.log('Watched token tracker is already polling');
+      return;
+    }
+
+    this.isPolling = true;
+    console.log(`Starting watched token tracker with ${config.polling.watchedIntervalMs}ms interval`);
+
+    // Initial fetch
+    await this.poll();
+
+    // Set up interval
+    this.pollInterval = setInterval(() => {
+      this.poll().catch(err => console.error('Watched token polling error:', err));
+    }, config.polling.watchedIntervalMs);
+  }
+
+  stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    this.isPolling = false;
+    console.log('Watched token tracker stopped');
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      const pruned = await this.storage.pruneUnwatchedTokens();
+      if (pruned > 0) {
+        console.log(`Stopped tracking ${pruned} unwatched tokens`);
+      }
+
+      const tokenAddresses = await this.storage.getWatchedTokenAddresses();
+      if (tokenAddresses.length === 0) {
+        return;
+      }
+
+      // Providers batch requests 30 addresses at a time
+      const pairs = await marketData.getTokens(tokenAddresses);
+      const launches = this.pickBestPairs(tokenAddresses, pairs)
+        .map(launch => applyRisk(launch, this.store.getSnapshots(launch.pairAddress, LIQUIDITY_HISTORY_MS)));
+
+      await this.storage.upsertTrackedTokens(launches);
+      this.store.insertSnapshots(launches);
+
+      for (const handler of this.refreshHandlers) {
+        handler(launches);
+      }
+
+      const missing = tokenAddresses.length - launches.length;
+      console.log(
+        `[${new Date().toISOString()}] Refreshed ${launches.length} watched tokens` +
+        (missing > 0 ? ` (${missing} not found on ${marketData.name})` : '')
+      );
+    } catch (error) {
+      console.error('Error refreshing watched tokens:', error);
+    }
+  }
+
+  // Highest-volume Base pair per requested token, where it is the base token
+  private pickBestPairs(tokenAddresses: string[], pairs: TokenLaunch[]): TokenLaunch[] {
+    const wanted = new Set(tokenAddresses.map(address => address.toLowerCase()));
+    const best = new Map<string, TokenLaunch>();
+
+    for (const pair of pairs) {
+      const tokenAddress = pair.tokenAddress;
+      if (!wanted.has(tokenAddress)) {
+        continue;
+      }
+
+      const current = best.get(tokenAddress);
+      if (!current || pair.volume24h > current.volume24h) {
+        best.set(tokenAddress, pair);
+      }
+    }
+
+    return Array.from(best.values());
+  }
+}
@@ -1,4 +1,4 @@
-// Token launch data from DexScreener
+// Token launch data, normalized from whichever market data provider served it
 export interface TokenLaunch {
   pairAddress: string;
   tokenAddress: string;
@@ -11,8 +11,103 @@ export interface TokenLaunch {
   liquidityUsd: number;
   priceChange24h: number;
   pairCreatedAt: number; // Unix timestamp in ms
-  dexscreenerUrl: string;
+  dexscreenerUrl: string; // Chart page on the provider that served the data
   lastUpdated: number;
+  // What the token is paired against
+  quoteTokenAddress?: string;
+  quoteTokenSymbol?: string;
+  // Everything else the provider reported for the pair; missing on rows
+  // stored before it was kept
+  details?: PairDetails;
+  // Heuristic risk assessment, stored with the launch
+  riskScore?: number;
+  riskFactors?: RiskFactor[];
+  // Momentum score as of lastUpdated, and what drove it, e.g. "vol 1h +340%"
+  trendScore?: number;
+  trendReasons?: string[];
+}
+
+// A pair's final state, kept after the launch itself is pruned by retention
+export interface ArchivedLaunch extends Pick<TokenLaunch,
+  'pairAddress' | 'tokenAddress' | 'name' | 'symbol' | 'dexId' | 'priceUsd' | 'marketCap' |
+  'volume24h' | 'liquidityUsd' | 'priceChange24h' | 'pairCreatedAt' | 'dexscreenerUrl' |
+  'lastUpdated' | 'riskScore'> {
+  archivedAt: number;
+}
+
+export interface TradeCounts {
+  buys: number;
+  sells: number;
+}
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+// One reason a launch looks risky, e.g. "Liquidity is 1.2% of market cap"
+export interface RiskFactor {
+  id: string;
+  points: number;
+  description: string;
+}
+
+export interface RiskAssessment {
+  score: number; // 0-100, higher is riskier
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export type MarketDataProviderName = 'dexscreener' | 'geckoterminal';
+
+// Where launches, watchlists and alerts are kept
+export type StorageBackendName = 'sqlite' | 'postgres';
+
+// Per-window pair data, keyed like DexScreener's m5/h1/h6/h24 windows
+export interface PairWindows<T> {
+  m5?: T;
+  h1?: T;
+  h6?: T;
+  h24?: T;
+}
+
+// Extra per-pair detail kept with a launch; providers fill in what they have
+export interface PairDetails {
+  priceChange: PairWindows<number>;
+  volume: PairWindows<number>;
+  txns: PairWindows<TradeCounts>;
+  liquidity: { base?: number; quote?: number }; // Pooled amounts of each token
+  fdv?: number;
+  labels: string[]; // e.g. "v3"
+  imageUrl?: string;
+  websites: string[];
+  socials: { type: string; url: string }[];
+  // False when the provider doesn't report websites and socials at all
+  socialsKnown: boolean;
+}
+
+// A launch straight from the provider, which always has details
+export interface MarketPair extends TokenLaunch {
+  details: PairDetails;
+}
+
+// Point-in-time market data for a pair, recorded on every poll
+export interface LaunchSnapshot {
+  pairAddress: string;
+  timestamp: number; // Unix timestamp in ms
+  priceUsd: number;
+  marketCap: number;
+  volume24h: number;
+  liquidityUsd: number;
+}
+
+export type CandleInterval = '1m' | '5m' | '15m' | '1h';
+
+// One OHLC bar built from a pair's snapshots
+export interface Candle {
+  openTime: number; // Unix timestamp in ms, aligned to the interval
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // USD traded during the candle, estimated from the rolling 24h volume
 }
 
 // DexScreener API response types
@@ -84,6 +179,72 @@ export interface DexScreenerBoost {
   links?: { type: string; url: string }[];
 }
 
+// GeckoTerminal API response types (JSON:API; numbers arrive as strings)
+export interface GeckoTerminalPool {
+  id: string;
+  type: 'pool';
+  attributes: {
+    address: string;
+    name: string;
+    base_token_price_usd: string | null;
+    fdv_usd: string | null;
+    market_cap_usd: string | null;
+    reserve_in_usd: string | null;
+    pool_created_at: string | null;
+    price_change_percentage?: { m5?: string; h1?: string; h6?: string; h24?: string };
+    volume_usd?: { m5?: string; h1?: string; h6?: string; h24?: string };
+    transactions?: { m5?: TradeCounts; h1?: TradeCounts; h6?: TradeCounts; h24?: TradeCounts };
+  };
+  relationships: {
+    base_token: { data: { id: string; type: 'token' } };
+    quote_token: { data: { id: string; type: 'token' } };
+    dex: { data: { id: string; type: 'dex' } };
+  };
+}
+
+export interface GeckoTerminalToken {
+  id: string;
+  type: 'token';
+  attributes: {
+    address: string;
+    name: string;
+    symbol: string;
+    image_url: string | null;
+  };
+}
+
+export interface GeckoTerminalResponse<T> {
+  data: T;
+  included?: (GeckoTerminalPool | GeckoTerminalToken)[];
+}
+
+// liquidity: most of the pool's liquidity was removed
+// price: the price collapsed, e.g. supply dumped into the pool
+export type RugEventKind = 'liquidity' | 'price';
+
+// A sharp drop caught by the rug detector, relative to the pair's recent peak
+export interface RugEvent {
+  id: number;
+  pairAddress: string;
+  tokenAddress: string;
+  kind: RugEventKind;
+  detectedAt: number; // Unix timestamp in ms
+  peakValue: number; // Liquidity in USD, or price in USD
+  currentValue: number;
+  dropPercent: number;
+}
+
+// A pair seen in a factory's PairCreated/PoolCreated event, waiting for
+// market data before it can be stored as a launch
+export interface DiscoveredPair {
+  pairAddress: string;
+  tokenAddress: string; // The side that isn't a known quote token
+  quoteAddress: string;
+  factory: string;
+  blockNumber: number;
+  discoveredAt: number;
+}
+
 // Watchlist entry
 export interface WatchlistEntry {
   id: number;
@@ -92,21 +253,148 @@ export interface WatchlistEntry {
   addedAt: number;
 }
 
+// A holding recorded with !portfolio add; adding more of a token averages its entry price
+export interface PortfolioPosition {
+  id: number;
+  userId: string;
+  tokenAddress: string;
+  amount: number;
+  entryPrice: number; // USD per token
+  addedAt: number;
+}
+
+// A user who opted into the daily PnL summary DM
+export interface PortfolioSubscriber {
+  userId: string;
+  lastSummaryAt: number | null;
+}
+
 // Alert configuration
-export interface Alert {
+export type AlertConditionType = 'price' | 'volume' | 'mcap' | 'liquidity';
+export type AlertOperator = '>' | '<' | '=';
+
+// absolute: compare the value itself
+// since: % change from the baseline captured when the alert was created
+// window: % change over a rolling window, measured against snapshot history
+export type AlertKind = 'absolute' | 'since' | 'window';
+
+// A single comparison, e.g. "price > 0.001" or "liquidity down 30% in 15m"
+export interface AlertCondition {
+  conditionType: AlertConditionType;
+  operator: AlertOperator;
+  threshold: number; // Absolute value, or signed % change for relative kinds
+  kind: AlertKind;
+  windowMinutes: number | null;
+  baselineValue: number | null;
+}
+
+// Expression tree of conditions joined by AND/OR, stored as JSON
+export type AlertExpression =
+  | { type: 'condition'; condition: AlertCondition }
+  | { type: 'and' | 'or'; children: AlertExpression[] };
+
+// once: fire a single time, then deactivate
+// repeat: fire whenever the expression holds, at most once per cooldown
+// cross: fire on the crossing, then re-arm only after the value moves back
+//        past the threshold by the hysteresis band
+export type AlertMode = 'once' | 'repeat' | 'cross';
+
+// Where a fired alert is sent: the creator's DMs, a guild channel (target is
+// the channel id) or an HTTP webhook (target is the URL)
+export type AlertDeliveryType = 'dm' | 'channel' | 'webhook';
+
+export interface AlertDelivery {
+  type: AlertDeliveryType;
+  target: string | null;
+}
+
+// Everything the user chooses when creating an alert
+export interface AlertSettings {
+  expression: AlertExpression;
+  mode: AlertMode;
+  cooldownMinutes: number | null;
+  hysteresisPercent: number | null;
+  delivery: AlertDelivery;
+}
+
+export interface Alert extends AlertSettings {
   id: number;
   userId: string;
   tokenAddress: string;
-  conditionType: 'price' | 'volume' | 'mcap';
-  operator: '>' | '<' | '=';
-  threshold: number;
+  armed: boolean;
+  deliveryFailures: number; // Consecutive failed deliveries
   triggered: boolean;
+  triggerCount: number;
+  lastTriggeredAt: number | null;
+  createdAt: number;
+}
+
+// A condition's value at the moment an alert fired
+export interface AlertConditionValue {
+  condition: AlertCondition;
+  value: number;
+  changePercent: number | null; // Only for relative kinds
+}
+
+// Record of one alert fire and whether the notification got through
+export interface AlertEvent {
+  id: number;
+  alertId: number;
+  userId: string;
+  tokenAddress: string;
+  firedAt: number;
+  expression: AlertExpression;
+  values: AlertConditionValue[];
+  snapshot: TokenLaunch;
+  sink: AlertDeliveryType;
+  attempts: number;
+  delivered: boolean;
+  failureReason: string | null;
+}
+
+// Per-guild auto-posting feed of new launches
+export interface FeedSettings {
+  guildId: string;
+  channelId: string;
+  enabled: boolean;
+  minLiquidityUsd: number;
+  minVolumeUsd: number;
+  maxAgeMinutes: number | null;
+  dexIds: string[] | null; // null = any DEX
+}
+
+// Discovery search terms: pinned terms are searched every cycle, banned
+// ones never, and dropped ones stopped finding anything new
+export type SearchTermStatus = 'active' | 'pinned' | 'banned' | 'dropped';
+export type SearchTermOrigin = 'seed' | 'learned' | 'admin';
+
+export interface SearchTerm {
+  term: string;
+  status: SearchTermStatus;
+  origin: SearchTermOrigin;
+  weight: number; // Moving average of new Base pairs per search
+  runs: number;
+  emptyRuns: number; // Consecutive searches without a new pair
+  newPairs: number;
+  lastUsedAt: number | null;
   createdAt: number;
 }
 
 // Command types
 export type SortOption = 'volume' | 'mcap' | 'age';
 
+export type TrendingSort = 'score' | 'volume' | 'change';
+
+// Points each momentum signal adds to the trending score at full strength
+export interface TrendingWeights {
+  volume: number; // 1h volume
+  acceleration: number; // 1h volume against the 24h hourly average
+  recentVolume: number; // 5m volume against the 1h average
+  priceChange: number; // 1h price gain; drops add nothing
+  buyPressure: number; // Share of buys in the last hour's trades
+  activityGrowth: number; // Growth of 24h volume across the last hour of snapshots
+}
+
 export interface LaunchesQuery {
   timeframeHours: number;
   sortBy: SortOption;
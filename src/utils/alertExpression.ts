@@ -0,0 +1,363 @@
+import {
+  Alert,
+  AlertCondition,
+  AlertConditionType,
+  AlertDelivery,
+  AlertExpression,
+  AlertMode,
+  AlertOperator,
+  AlertSettings,
+  LaunchSnapshot,
+} from '../types';
+import { config } from './config';
+import { formatAlertCondition, formatMinutes } from './formatters';
+
+const METRIC_ALIASES: Record<string, AlertConditionType> = {
+  'price': 'price',
+  'mcap': 'mcap',
+  'marketcap': 'mcap',
+  'vol': 'volume',
+  'volume': 'volume',
+  'liq': 'liquidity',
+  'liquidity': 'liquidity',
+};
+
+const AMOUNT_SUFFIXES: Record<string, number> = {
+  'k': 1_000,
+  'm': 1_000_000,
+  'b': 1_000_000_000,
+};
+
+/**
+ * Parse amounts like "5000", "1,500", "$10k" or "2.5m". Every command that
+ * takes an amount uses this, so they all accept a leading `$`, commas between
+ * groups of thousands and a k/m/b suffix.
+ */
+export function parseAmount(input: string): number | null {
+  const match = input.toLowerCase().match(/^\$?(\d{1,3}(?:,\d{3})+|\d+)(\.\d*)?([kmb])?$/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1].replace(/,/g, '') + (match[2] ?? ''));
+  return value * (match[3] ? AMOUNT_SUFFIXES[match[3]] : 1);
+}
+
+const AND_KEYWORDS = new Set(['and', '&&', '&']);
+const OR_KEYWORDS = new Set(['or', '||', '|']);
+const MODE_KEYWORDS = new Set<string>(['once', 'repeat', 'cross']);
+
+/**
+ * Thrown when an alert expression can't be parsed. `start`/`end` are character
+ * offsets into `input` covering the offending token.
+ */
+export class AlertParseError extends Error {
+  constructor(message: string, public readonly input: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'AlertParseError';
+  }
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse the full `!alert` condition input: an expression optionally followed
+ * by a mode and a destination, e.g. "price>0.001 and liq>20000 repeat 30m" or
+ * "mcap>1m cross 5% to <#123>". Without a duration/band, repeat and cross use
+ * the configured defaults; without a destination the alert goes to DMs.
+ */
+export function parseAlertInput(input: string): AlertSettings {
+  let words = splitWords(input);
+  let delivery: AlertDelivery = { type: 'dm', target: null };
+
+  const toIndex = words.findIndex(word => word.text.toLowerCase() === 'to');
+  if (toIndex !== -1) {
+    delivery = parseDeliveryWords(input, words[toIndex], words.slice(toIndex + 1));
+    words = words.slice(0, toIndex);
+  }
+
+  return { ...parseModeWords(input, words), delivery };
+}
+
+function parseDeliveryWords(input: string, toWord: Word, words: Word[]): AlertDelivery {
+  const [target, extra] = words;
+
+  if (!target) {
+    throw new AlertParseError('Expected `dm`, a #channel or a webhook URL after `to`', input, toWord.start, toWord.end);
+  }
+  if (extra) {
+    throw new AlertParseError(`Unexpected \`${extra.text}\` after the destination`, input, extra.start, extra.end);
+  }
+
+  if (target.text.toLowerCase() === 'dm') {
+    return { type: 'dm', target: null };
+  }
+
+  // Discord sends #channel mentions as <#id>
+  const channel = target.text.match(/^(?:<#(\d+)>|(\d{17,20}))$/);
+  if (channel) {
+    return { type: 'channel', target: channel[1] || channel[2] };
+  }
+
+  if (/^https?:\/\//i.test(target.text)) {
+    return { type: 'webhook', target: target.text };
+  }
+
+  throw new AlertParseError('Destination must be `dm`, a #channel or a webhook URL', input, target.start, target.end);
+}
+
+function parseModeWords(input: string, words: Word[]): Omit<AlertSettings, 'delivery'> {
+  const modeIndex = words.findIndex(word => MODE_KEYWORDS.has(word.text.toLowerCase()));
+
+  if (modeIndex === -1) {
+    return { expression: parseExpressionWords(input, words), mode: 'once', cooldownMinutes: null, hysteresisPercent: null };
+  }
+
+  const expression = parseExpressionWords(input, words.slice(0, modeIndex));
+  const modeWord = words[modeIndex];
+  const mode = modeWord.text.toLowerCase() as AlertMode;
+  const [argument, extra] = words.slice(modeIndex + 1);
+
+  if (extra) {
+    throw new AlertParseError(`Unexpected \`${extra.text}\` after the alert mode`, input, extra.start, extra.end);
+  }
+
+  switch (mode) {
+    case 'once': {
+      if (argument) {
+        throw new AlertParseError('`once` takes no argument', input, argument.start, argument.end);
+      }
+      return { expression, mode, cooldownMinutes: null, hysteresisPercent: null };
+    }
+
+    case 'repeat': {
+      const match = argument?.text.toLowerCase().match(/^(\d+)(m|h|d)$/);
+      if (argument && !match) {
+        throw new AlertParseError('Cooldown must be a duration like `30m` or `4h`', input, argument.start, argument.end);
+      }
+      const cooldownMinutes = match
+        ? parseInt(match[1], 10) * (match[2] === 'd' ? 1440 : match[2] === 'h' ? 60 : 1)
+        : config.alerts.defaultCooldownMinutes;
+      return { expression, mode, cooldownMinutes, hysteresisPercent: null };
+    }
+
+    case 'cross':
+    default: {
+      const match = argument?.text.match(/^(\d+\.?\d*)%$/);
+      if (argument && !match) {
+        throw new AlertParseError('Hysteresis band must be a percentage like `5%`', input, argument.start, argument.end);
+      }
+      const hysteresisPercent = match ? parseFloat(match[1]) : config.alerts.defaultHysteresisPercent;
+      return { expression, mode: 'cross', cooldownMinutes: null, hysteresisPercent };
+    }
+  }
+}
+
+/**
+ * Parse an expression like "price>0.001 and liq>20000 or mcap>1m".
+ * AND binds tighter than OR, so the example means
+ * (price>0.001 AND liq>20000) OR mcap>1m.
+ */
+export function parseAlertExpression(input: string): AlertExpression {
+  return parseExpressionWords(input, splitWords(input));
+}
+
+function splitWords(input: string): Word[] {
+  const words: Word[] = [];
+  for (const match of input.matchAll(/\S+/g)) {
+    words.push({ text: match[0], start: match.index!, end: match.index! + match[0].length });
+  }
+  return words;
+}
+
+function parseExpressionWords(input: string, words: Word[]): AlertExpression {
+  if (words.length === 0) {
+    const at = input.search(/\S/);
+    const position = at === -1 ? input.length : at;
+    throw new AlertParseError('Expected a condition', input, position, position);
+  }
+
+  // Split into OR groups of AND groups of condition words
+  const orGroups: AlertExpression[] = [];
+  let andGroup: AlertExpression[] = [];
+  let conditionWords: Word[] = [];
+  let lastKeyword: Word | null = null;
+
+  const closeCondition = (keyword: Word | null) => {
+    if (conditionWords.length === 0) {
+      const at = keyword || lastKeyword!;
+      const message = keyword
+        ? `Expected a condition before \`${keyword.text}\``
+        : `Expected a condition after \`${at.text}\``;
+      throw new AlertParseError(message, input, at.start, at.end);
+    }
+    andGroup.push({ type: 'condition', condition: parseConditionWords(input, conditionWords) });
+    conditionWords = [];
+  };
+
+  const closeAndGroup = () => {
+    orGroups.push(andGroup.length === 1 ? andGroup[0] : { type: 'and', children: andGroup });
+    andGroup = [];
+  };
+
+  for (const word of words) {
+    const keyword = word.text.toLowerCase();
+
+    if (AND_KEYWORDS.has(keyword)) {
+      closeCondition(word);
+      lastKeyword = word;
+    } else if (OR_KEYWORDS.has(keyword)) {
+      closeCondition(word);
+      closeAndGroup();
+      lastKeyword = word;
+    } else {
+      conditionWords.push(word);
+    }
+  }
+
+  closeCondition(null);
+  closeAndGroup();
+
+  return orGroups.length === 1 ? orGroups[0] : { type: 'or', children: orGroups };
+}
+
+function parseConditionWords(input: string, words: Word[]): AlertCondition {
+  const start = words[0].start;
+  const end = words[words.length - 1].end;
+  const condition = parseCondition(words.map(w => w.text).join(''));
+
+  if (!condition) {
+    throw new AlertParseError(`Unrecognized condition \`${input.slice(start, end)}\``, input, start, end);
+  }
+
+  return condition;
+}
+
+function parseCondition(input: string): AlertCondition | null {
+  // Remove spaces and lowercase
+  const cleaned = input.replace(/\s/g, '').toLowerCase();
+
+  // Absolute thresholds like "price>0.001", "mcap<1,000,000", "vol>$50k"
+  const absolute = cleaned.match(/^([a-z]+)([><]=?)(.+)$/);
+  if (absolute) {
+    const conditionType = METRIC_ALIASES[absolute[1]];
+    const threshold = parseAmount(absolute[3]);
+    if (!conditionType || threshold === null) {
+      return null;
+    }
+
+    const operator: AlertOperator = absolute[2].startsWith('>') ? '>' : '<';
+    return { conditionType, operator, threshold, kind: 'absolute', windowMinutes: null, baselineValue: null };
+  }
+
+  // Percent moves like "price+50%", "liqdown30%", "priceup50%in15m"
+  const relative = cleaned.match(/^([a-z]+?)(up|down|\+|-)(\d+\.?\d*)%(?:in)?(?:(\d+)(m|h))?$/);
+  if (!relative) {
+    return null;
+  }
+
+  const conditionType = METRIC_ALIASES[relative[1]];
+  const percent = parseFloat(relative[3]);
+  if (!conditionType || isNaN(percent) || percent <= 0) {
+    return null;
+  }
+
+  const isUp = relative[2] === 'up' || relative[2] === '+';
+  const operator: AlertOperator = isUp ? '>' : '<';
+  const threshold = isUp ? percent : -percent;
+
+  if (!relative[4]) {
+    return { conditionType, operator, threshold, kind: 'since', windowMinutes: null, baselineValue: null };
+  }
+
+  const windowMinutes = parseInt(relative[4], 10) * (relative[5] === 'h' ? 60 : 1);
+  const maxWindowMinutes = config.snapshots.retentionHours * 60;
+  if (windowMinutes <= 0 || windowMinutes > maxWindowMinutes) {
+    return null;
+  }
+
+  return { conditionType, operator, threshold, kind: 'window', windowMinutes, baselineValue: null };
+}
+
+/**
+ * Read an alert metric from a launch or snapshot (they share field names)
+ */
+export function getMetricValue(
+  type: AlertConditionType,
+  source: Pick<LaunchSnapshot, 'priceUsd' | 'marketCap' | 'volume24h' | 'liquidityUsd'>
+): number {
+  switch (type) {
+    case 'price':
+      return source.priceUsd;
+    case 'mcap':
+      return source.marketCap;
+    case 'liquidity':
+      return source.liquidityUsd;
+    case 'volume':
+    default:
+      return source.volume24h;
+  }
+}
+
+/**
+ * All leaf conditions of an expression, in order
+ */
+export function getExpressionConditions(expression: AlertExpression): AlertCondition[] {
+  if (expression.type === 'condition') {
+    return [expression.condition];
+  }
+  return expression.children.flatMap(getExpressionConditions);
+}
+
+/**
+ * Format an expression, parenthesizing AND groups nested under OR
+ */
+export function formatAlertExpression(expression: AlertExpression, nested: boolean = false): string {
+  if (expression.type === 'condition') {
+    return formatAlertCondition(expression.condition);
+  }
+
+  const joined = expression.children
+    .map(child => formatAlertExpression(child, true))
+    .join(expression.type === 'and' ? ' AND ' : ' OR ');
+
+  return nested ? `(${joined})` : joined;
+}
+
+/**
+ * Format an alert's re-arm mode, e.g. "Repeat (every 30m)" or "Cross (5% band)"
+ */
+export function formatAlertMode(alert: Pick<Alert, 'mode' | 'cooldownMinutes' | 'hysteresisPercent'>): string {
+  switch (alert.mode) {
+    case 'repeat':
+      return `Repeat (every ${formatMinutes(alert.cooldownMinutes ?? config.alerts.defaultCooldownMinutes)})`;
+    case 'cross':
+      return `Cross (${alert.hysteresisPercent ?? config.alerts.defaultHysteresisPercent}% band)`;
+    case 'once':
+    default:
+      return 'Once';
+  }
+}
+
+/**
+ * Format an alert's destination; webhook URLs are reduced to their host since
+ * they often embed secrets
+ */
+export function formatAlertDelivery(delivery: AlertDelivery): string {
+  switch (delivery.type) {
+    case 'channel':
+      return `<#${delivery.target}>`;
+    case 'webhook': {
+      try {
+        return `Webhook (${new URL(delivery.target || '').host})`;
+      } catch {
+        return 'Webhook';
+      }
+    }
+    case 'dm':
+    default:
+      return 'DM';
+  }
+}
@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { MarketDataProviderName, StorageBackendName, TrendingWeights } from '../types';
 
 dotenv.config();
 
@@ -7,21 +8,81 @@ export interface Config {
   discord: {
     token: string;
     channelId?: string;
+    guildId?: string;
+    prefixCommands: boolean;
+    adminUserIds: string[];
+  };
+  marketData: {
+    primary: MarketDataProviderName;
+    fallback: MarketDataProviderName | null;
+    failoverCooldownMs: number;
   };
   dexscreener: {
     apiKey?: string;
     baseUrl: string;
   };
+  geckoterminal: {
+    baseUrl: string;
+  };
+  discovery: {
+    budgetMs: number;
+    maxRequests: number;
+    concurrency: number;
+    searchTermsPerCycle: number;
+  };
+  chain: {
+    rpcUrl?: string;
+    pollIntervalMs: number;
+    confirmations: number;
+    logBlockRange: number;
+    pendingPairMaxAgeMinutes: number;
+  };
   database: {
     path: string;
+    backend: StorageBackendName;
+    url?: string;
+  };
+  retention: {
+    launchHours: number;
+    archiveDays: number;
   };
   polling: {
     intervalMs: number;
+    watchedIntervalMs: number;
+  };
+  snapshots: {
+    retentionHours: number;
+    fullResolutionHours: number;
+    downsampleMinutes: number;
+  };
+  alerts: {
+    defaultCooldownMinutes: number;
+    defaultHysteresisPercent: number;
+    deliveryMaxAttempts: number;
+    webhookSecret?: string;
+  };
+  feed: {
+    maxPostsPerMinute: number;
+    maxQueuedPerGuild: number;
+  };
+  portfolio: {
+    summaryHourUtc: number;
+  };
+  trending: {
+    halfLifeMinutes: number;
+    weights: TrendingWeights;
+  };
+  rugDetection: {
+    windowMinutes: number;
+    liquidityDropPercent: number;
+    priceDropPercent: number;
+    minPeakLiquidityUsd: number;
   };
   filters: {
     minLiquidityUsd: number;
     minVolumeUsd: number;
     minPairAgeMinutes: number;
+    rulesPath: string;
   };
 }
 
@@ -40,26 +101,125 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+function getEnvBoolean(key: string, defaultValue: boolean): boolean {
+  const value = process.env[key]?.toLowerCase();
+  if (!value) return defaultValue;
+  return value === 'true' || value === '1' || value === 'yes';
+}
+
+function getEnvList(key: string): string[] {
+  return (process.env[key] || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+const MARKET_DATA_PROVIDERS: MarketDataProviderName[] = ['dexscreener', 'geckoterminal'];
+
+function getEnvProvider(key: string, defaultValue: MarketDataProviderName): MarketDataProviderName {
+  const value = (process.env[key] || defaultValue).toLowerCase() as MarketDataProviderName;
+  if (!MARKET_DATA_PROVIDERS.includes(value)) {
+    throw new Error(`Invalid ${key}: ${value} (expected one of ${MARKET_DATA_PROVIDERS.join(', ')})`);
+  }
+  return value;
+}
+
+const STORAGE_BACKENDS: StorageBackendName[] = ['sqlite', 'postgres'];
+
+function getEnvStorageBackend(key: string, defaultValue: StorageBackendName): StorageBackendName {
+  const value = (process.env[key] || defaultValue).toLowerCase() as StorageBackendName;
+  if (!STORAGE_BACKENDS.includes(value)) {
+    throw new Error(`Invalid ${key}: ${value} (expected one of ${STORAGE_BACKENDS.join(', ')})`);
+  }
+  return value;
+}
+
 export function loadConfig(): Config {
   return {
     discord: {
       token: getEnvVar('DISCORD_BOT_TOKEN', true)!,
       channelId: getEnvVar('DISCORD_CHANNEL_ID'),
+      guildId: getEnvVar('DISCORD_GUILD_ID'),
+      prefixCommands: getEnvBoolean('ENABLE_PREFIX_COMMANDS', true),
+      adminUserIds: getEnvList('BOT_ADMIN_IDS'),
+    },
+    marketData: {
+      primary: getEnvProvider('MARKET_DATA_PROVIDER', 'dexscreener'),
+      fallback: process.env.MARKET_DATA_FALLBACK?.toLowerCase() === 'none'
+        ? null
+        : getEnvProvider('MARKET_DATA_FALLBACK', 'geckoterminal'),
+      failoverCooldownMs: getEnvNumber('MARKET_DATA_FAILOVER_COOLDOWN_MS', 120000),
     },
     dexscreener: {
       apiKey: getEnvVar('DEXSCREENER_API_KEY'),
       baseUrl: 'https://api.dexscreener.com',
     },
+    geckoterminal: {
+      baseUrl: 'https://api.geckoterminal.com/api/v2',
+    },
+    discovery: {
+      budgetMs: getEnvNumber('DISCOVERY_BUDGET_MS', 20000),
+      maxRequests: getEnvNumber('DISCOVERY_MAX_REQUESTS', 40),
+      concurrency: getEnvNumber('DISCOVERY_CONCURRENCY', 4),
+      searchTermsPerCycle: getEnvNumber('DISCOVERY_SEARCH_TERMS_PER_CYCLE', 8),
+    },
+    chain: {
+      rpcUrl: getEnvVar('BASE_RPC_URL'),
+      pollIntervalMs: getEnvNumber('CHAIN_POLL_INTERVAL_MS', 15000),
+      confirmations: getEnvNumber('CHAIN_CONFIRMATIONS', 3),
+      logBlockRange: getEnvNumber('CHAIN_LOG_BLOCK_RANGE', 500),
+      pendingPairMaxAgeMinutes: getEnvNumber('CHAIN_PENDING_PAIR_MAX_AGE_MINUTES', 360),
+    },
     database: {
       path: getEnvVar('DATABASE_PATH') || './data/launches.db',
+      backend: getEnvStorageBackend('STORAGE_BACKEND', 'sqlite'),
+      url: getEnvVar('DATABASE_URL'),
+    },
+    retention: {
+      launchHours: getEnvNumber('LAUNCH_RETENTION_HOURS', 168),
+      archiveDays: getEnvNumber('ARCHIVE_RETENTION_DAYS', 0),
     },
     polling: {
       intervalMs: getEnvNumber('POLL_INTERVAL_MS', 30000),
+      watchedIntervalMs: getEnvNumber('WATCHED_POLL_INTERVAL_MS', 60000),
+    },
+    snapshots: {
+      retentionHours: getEnvNumber('SNAPSHOT_RETENTION_HOURS', 168),
+      fullResolutionHours: getEnvNumber('SNAPSHOT_FULL_RESOLUTION_HOURS', 6),
+      downsampleMinutes: getEnvNumber('SNAPSHOT_DOWNSAMPLE_MINUTES', 5),
+    },
+    alerts: {
+      defaultCooldownMinutes: getEnvNumber('ALERT_DEFAULT_COOLDOWN_MINUTES', 60),
+      defaultHysteresisPercent: getEnvNumber('ALERT_DEFAULT_HYSTERESIS_PERCENT', 5),
+      deliveryMaxAttempts: getEnvNumber('ALERT_DELIVERY_MAX_ATTEMPTS', 3),
+      webhookSecret: getEnvVar('ALERT_WEBHOOK_SECRET'),
+    },
+    feed: {
+      maxPostsPerMinute: getEnvNumber('FEED_MAX_POSTS_PER_MINUTE', 6),
+      maxQueuedPerGuild: getEnvNumber('FEED_MAX_QUEUED_PER_GUILD', 20),
+    },
+    portfolio: {
+      summaryHourUtc: getEnvNumber('PORTFOLIO_SUMMARY_HOUR_UTC', 0),
+    },
+    trending: {
+      halfLifeMinutes: getEnvNumber('TRENDING_HALF_LIFE_MINUTES', 30),
+      weights: {
+        volume: getEnvNumber('TRENDING_WEIGHT_VOLUME', 20),
+        acceleration: getEnvNumber('TRENDING_WEIGHT_ACCELERATION', 25),
+        recentVolume: getEnvNumber('TRENDING_WEIGHT_RECENT_VOLUME', 10),
+        priceChange: getEnvNumber('TRENDING_WEIGHT_PRICE_CHANGE', 20),
+        buyPressure: getEnvNumber('TRENDING_WEIGHT_BUY_PRESSURE', 15),
+        activityGrowth: getEnvNumber('TRENDING_WEIGHT_ACTIVITY_GROWTH', 10),
+      },
+    },
+    rugDetection: {
+      windowMinutes: getEnvNumber('RUG_WINDOW_MINUTES', 30),
+      liquidityDropPercent: getEnvNumber('RUG_LIQUIDITY_DROP_PERCENT', 70),
+      priceDropPercent: getEnvNumber('RUG_PRICE_DROP_PERCENT', 80),
+      minPeakLiquidityUsd: getEnvNumber('RUG_MIN_PEAK_LIQUIDITY_USD', 5000),
     },
     filters: {
       minLiquidityUsd: getEnvNumber('MIN_LIQUIDITY_USD', 1000),
       minVolumeUsd: getEnvNumber('MIN_VOLUME_USD', 500),
       minPairAgeMinutes: getEnvNumber('MIN_PAIR_AGE_MINUTES', 5),
+      rulesPath: getEnvVar('FILTER_RULES_PATH') || './filter-rules.yaml',
     },
   };
 }
@@ -1,4 +1,5 @@
 import { formatDistanceToNow } from 'date-fns';
+import { AlertCondition, AlertConditionType } from '../types';
 
 /**
  * Format USD amount with appropriate suffix (K, M, B)
@@ -27,6 +28,14 @@ export function formatUsd(amount: number | null | undefined): string {
   return `$${amount.toFixed(6)}`;
 }
 
+/**
+ * Format a USD gain or loss with its sign, e.g. "+$1.20K" or "-$35.00"
+ */
+export function formatPnl(amount: number | null | undefined): string {
+  const value = amount || 0;
+  return `${value >= 0 ? '+' : '-'}${formatUsd(Math.abs(value))}`;
+}
+
 /**
  * Format price with appropriate decimal places
  */
@@ -111,3 +120,60 @@ export function formatNumber(num: number | null | undefined): string {
   }
   return num.toLocaleString('en-US');
 }
+
+/**
+ * Human-readable name of an alert metric
+ */
+export function formatMetricName(type: AlertConditionType): string {
+  switch (type) {
+    case 'price': return 'Price';
+    case 'mcap': return 'Market Cap';
+    case 'liquidity': return 'Liquidity';
+    case 'volume':
+    default: return '24h Volume';
+  }
+}
+
+/**
+ * Format a metric value (price precision for price, USD suffixes otherwise)
+ */
+export function formatMetricValue(type: AlertConditionType, value: number | null | undefined): string {
+  return type === 'price' ? formatPrice(value) : formatUsd(value);
+}
+
+/**
+ * Format an alert condition, e.g. "Price > $0.001000" or "Liquidity -30.00% in 15m"
+ */
+export function formatAlertCondition(
+  condition: Pick<AlertCondition, 'conditionType' | 'operator' | 'threshold' | 'kind' | 'windowMinutes'>
+): string {
+  const name = formatMetricName(condition.conditionType);
+
+  if (condition.kind === 'absolute') {
+    return `${name} ${condition.operator} ${formatMetricValue(condition.conditionType, condition.threshold)}`;
+  }
+
+  const span = condition.kind === 'window' && condition.windowMinutes
+    ? `in ${formatMinutes(condition.windowMinutes)}`
+    : 'since alert set';
+  return `${name} ${formatPercent(condition.threshold)} ${span}`;
+}
+
+/**
+ * Format a minute count as "15m", "4h" or "1h 30m"
+ */
+export function formatMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
+}
+
+/**
+ * Name of the chart site a launch links to, for link labels
+ */
+export function formatChartSite(url: string): string {
+  return url.includes('geckoterminal.com') ? 'GeckoTerminal' : 'DexScreener';
+}
@@ -0,0 +1,2 @@
+// Imported before anything from src: loading the config requires a bot token
+process.env.DISCORD_BOT_TOKEN ??= 'test-token';
@@ -0,0 +1,598 @@
+import { StorageBackend, postgresBackend, sqliteBackend } from './backends';
+import assert from 'assert/strict';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import { LaunchStorage } from '../src/database/storage';
+import { AlertCondition, AlertEvent, AlertExpression, AlertSettings, ArchivedLaunch, RugEvent, TokenLaunch } from '../src/types';
+
+/**
+ * The `LaunchStorage` contract: every backend must store and return the same
+ * data, so each case runs unchanged against SQLite and PostgreSQL.
+ */
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.now();
+
+const tokenAddress = (n: number) => '0x' + n.toString(16).padStart(40, 'a');
+const pairAddress = (n: number) => '0x' + n.toString(16).padStart(40, 'b');
+
+function launch(n: number, overrides: Partial<TokenLaunch> = {}): TokenLaunch {
+  return {
+    pairAddress: pairAddress(n),
+    tokenAddress: tokenAddress(n),
+    name: `Token ${n}`,
+    symbol: `TOK${n}`,
+    dexId: 'uniswap',
+    priceUsd: 0.001 * n,
+    marketCap: 10_000 * n,
+    volume24h: 1_000 * n,
+    liquidityUsd: 5_000 * n,
+    priceChange24h: n,
+    pairCreatedAt: NOW - n * HOUR,
+    dexscreenerUrl: `https://dexscreener.com/base/${pairAddress(n)}`,
+    lastUpdated: NOW,
+    ...overrides,
+  };
+}
+
+function priceAbove(threshold: number): AlertCondition {
+  return { conditionType: 'price', operator: '>', threshold, kind: 'absolute', windowMinutes: null, baselineValue: null };
+}
+
+function condition(threshold: number): AlertExpression {
+  return { type: 'condition', condition: priceAbove(threshold) };
+}
+
+// Past the 8h retention the archive tests use, a moment older for each n
+function oldLaunch(n: number, overrides: Partial<TokenLaunch> = {}): TokenLaunch {
+  return launch(n, { pairCreatedAt: NOW - 10 * HOUR - n, ...overrides });
+}
+
+function alertSettings(overrides: Partial<AlertSettings> = {}): AlertSettings {
+  return {
+    expression: condition(1),
+    mode: 'once',
+    cooldownMinutes: null,
+    hysteresisPercent: null,
+    delivery: { type: 'dm', target: null },
+    ...overrides,
+  };
+}
+
+function alertEvent(alertId: number, firedAt: number, overrides: Partial<AlertEvent> = {}): Omit<AlertEvent, 'id'> {
+  return {
+    alertId,
+    userId: 'alice',
+    tokenAddress: tokenAddress(1),
+    firedAt,
+    expression: condition(1),
+    values: [],
+    snapshot: launch(1),
+    sink: 'dm',
+    attempts: 1,
+    delivered: true,
+    failureReason: null,
+    ...overrides,
+  };
+}
+
+function rugEvent(n: number, overrides: Partial<RugEvent> = {}): Omit<RugEvent, 'id'> {
+  return {
+    pairAddress: pairAddress(n),
+    tokenAddress: tokenAddress(n),
+    kind: 'liquidity',
+    detectedAt: NOW,
+    peakValue: 50_000,
+    currentValue: 5_000,
+    dropPercent: 90,
+    ...overrides,
+  };
+}
+
+const symbols = (launches: { symbol: string }[]) => launches.map(entry => entry.symbol);
+const upper = (address: string) => '0x' + address.slice(2).toUpperCase();
+
+// Stored launches come back with every optional field present, unset ones as undefined
+const defined = <T extends object>(value: T): T => JSON.parse(JSON.stringify(value));
+
+function archivedFields(launch: TokenLaunch): Omit<ArchivedLaunch, 'archivedAt'> {
+  const { quoteTokenAddress, quoteTokenSymbol, details, riskFactors, trendScore, trendReasons, ...kept } = launch;
+  return kept;
+}
+
+for (const backend of [sqliteBackend(), postgresBackend()]) {
+  describeStorage(backend);
+}
+
+function describeStorage(backend: StorageBackend): void {
+  describe(backend.name, () => {
+    let storage: LaunchStorage;
+
+    before(() => backend.start());
+    after(() => backend.stop());
+    beforeEach(async () => {
+      storage = await backend.create();
+    });
+    afterEach(() => storage.close());
+
+    describe('launches', () => {
+      it('returns only the pairs it inserted, in the order given', async () => {
+        assert.deepEqual(symbols(await storage.upsertLaunches([launch(3), launch(1)])), ['TOK3', 'TOK1']);
+
+        const inserted = await storage.upsertLaunches([launch(2), launch(3, { priceUsd: 9 }), launch(4), launch(1)]);
+        assert.deepEqual(symbols(inserted), ['TOK2', 'TOK4']);
+        assert.equal((await storage.getLaunchByToken(tokenAddress(3)))?.priceUsd, 9);
+        assert.equal(await storage.countLaunches(24), 4);
+      });
+
+      it('keeps stored details and scores when an update has none', async () => {
+        const scored = launch(1, {
+          quoteTokenSymbol: 'WETH',
+          riskScore: 40,
+          riskFactors: [{ id: 'thin-liquidity', points: 40, description: 'Thin liquidity' }],
+          trendScore: 12,
+          trendReasons: ['vol 1h +340%'],
+        });
+        await storage.upsertLaunch(scored);
+        await storage.upsertLaunch(launch(1, { priceUsd: 2, lastUpdated: NOW + 1 }));
+
+        assert.deepEqual(defined((await storage.getLaunchByToken(tokenAddress(1)))!), { ...scored, priceUsd: 2, lastUpdated: NOW + 1 });
+      });
+
+      it('finds a token by address in any case, preferring its busiest pair', async () => {
+        await storage.upsertLaunches([
+          launch(1),
+          launch(2, { tokenAddress: tokenAddress(1), symbol: 'BUSY', volume24h: 99_000 }),
+        ]);
+
+        assert.equal((await storage.getLaunchByToken(upper(tokenAddress(1))))?.symbol, 'BUSY');
+        assert.equal(await storage.getLaunchByToken(tokenAddress(9)), undefined);
+      });
+
+      it('lists launches within the timeframe, sorted and paged', async () => {
+        await storage.upsertLaunches([
+          launch(1, { volume24h: 300, marketCap: 100 }),
+          launch(2, { volume24h: 100, marketCap: 300 }),
+          launch(3, { volume24h: 200, marketCap: 200 }),
+          launch(5, { pairCreatedAt: NOW - 30 * HOUR }),
+        ]);
+
+        assert.deepEqual(symbols(await storage.getLaunches(24, 'volume')), ['TOK1', 'TOK3', 'TOK2']);
+        assert.deepEqual(symbols(await storage.getLaunches(24, 'mcap')), ['TOK2', 'TOK3', 'TOK1']);
+        assert.deepEqual(symbols(await storage.getLaunches(24, 'age', 2, 1)), ['TOK2', 'TOK3']);
+        assert.deepEqual(symbols(await storage.getLaunches(48, 'age')), ['TOK1', 'TOK2', 'TOK3', 'TOK5']);
+        assert.equal(await storage.countLaunches(24), 3);
+        assert.equal(await storage.countLaunches(48), 4);
+      });
+
+      it('ranks trending launches by decayed score, skipping untraded pairs', async () => {
+        await storage.upsertLaunches([
+          // Two half-lives old, so 100 decays to 25
+          launch(1, { trendScore: 100, lastUpdated: NOW - HOUR, priceChange24h: 50 }),
+          launch(2, { trendScore: 40, priceChange24h: -10 }),
+          launch(3, { trendScore: 10, volume24h: 9_000, priceChange24h: 5 }),
+          launch(4, { trendScore: 500, volume24h: 0 }),
+          launch(5, { trendScore: 500, liquidityUsd: 0 }),
+        ]);
+
+        assert.deepEqual(symbols(await storage.getTrendingLaunches(24, 'score', 10, 0, 30)), ['TOK2', 'TOK1', 'TOK3']);
+        assert.deepEqual(symbols(await storage.getTrendingLaunches(24, 'volume')), ['TOK3', 'TOK2', 'TOK1']);
+        assert.deepEqual(symbols(await storage.getTrendingLaunches(24, 'change', 2)), ['TOK1', 'TOK3']);
+        // Ranking decays the score without changing the stored one
+        const [top] = await storage.getTrendingLaunches(24, 'score', 1, 0, 30);
+        assert.equal(top.trendScore, 40);
+        assert.equal((await storage.getLaunchByToken(tokenAddress(1)))?.trendScore, 100);
+        assert.equal(await storage.countTrendingLaunches(24), 3);
+      });
+    });
+
+    describe('archive', () => {
+      it('archives old pairs except those of watched, alerted or held tokens', async () => {
+        await storage.upsertLaunches([
+          launch(1),
+          oldLaunch(2, { riskScore: 55 }),
+          oldLaunch(3),
+          oldLaunch(4),
+          oldLaunch(5),
+          oldLaunch(6),
+        ]);
+        await storage.addToWatchlist('alice', tokenAddress(3));
+        await storage.createAlert('alice', tokenAddress(4), alertSettings());
+        await storage.addPosition('alice', tokenAddress(5), 10, 1);
+        const fired = await storage.createAlert('alice', tokenAddress(6), alertSettings());
+        await storage.markAlertTriggered(fired, 'once', null);
+
+        assert.equal(await storage.archiveOldLaunches(8), 2);
+        assert.deepEqual(symbols(await storage.getLaunches(24, 'age')), ['TOK1', 'TOK3', 'TOK4', 'TOK5']);
+
+        const [{ archivedAt, ...kept }] = await storage.getArchivedLaunches(tokenAddress(2));
+        assert.ok(archivedAt >= NOW);
+        assert.deepEqual(kept, archivedFields(oldLaunch(2, { riskScore: 55 })));
+        assert.deepEqual(symbols(await storage.getArchivedLaunches(tokenAddress(6))), ['TOK6']);
+
+        assert.equal(await storage.archiveOldLaunches(8), 0);
+      });
+
+      it('archives a re-stored pair again with its newer state', async () => {
+        await storage.upsertLaunch(oldLaunch(1));
+        await storage.archiveOldLaunches(8);
+        await storage.upsertLaunch(oldLaunch(1, { priceUsd: 7, lastUpdated: NOW + 1 }));
+        await storage.archiveOldLaunches(8);
+
+        const archived = await storage.getArchivedLaunches(pairAddress(1));
+        assert.deepEqual(archived.map(entry => entry.priceUsd), [7]);
+      });
+
+      it('looks up archived pairs by address, symbol or name', async () => {
+        await storage.upsertLaunches([
+          oldLaunch(1, { name: 'Based Cat', symbol: 'CAT', lastUpdated: NOW - 2 }),
+          oldLaunch(2, { name: 'Cat 100%', symbol: 'CAT2', lastUpdated: NOW - 1 }),
+          oldLaunch(3, { name: 'Dog', symbol: 'DOG' }),
+        ]);
+        await storage.archiveOldLaunches(8);
+
+        assert.deepEqual(symbols(await storage.getArchivedLaunches(tokenAddress(3))), ['DOG']);
+        assert.deepEqual(symbols(await storage.getArchivedLaunches(upper(pairAddress(3)))), ['DOG']);
+        assert.deepEqual(symbols(await storage.getArchivedLaunches('cat')), ['CAT2', 'CAT']);
+        assert.deepEqual(symbols(await storage.getArchivedLaunches('cat', 1)), ['CAT2']);
+        assert.deepEqual(symbols(await storage.getArchivedLaunches(' Cat ')), ['CAT2', 'CAT']);
+        // LIKE wildcards in the query match literally
+        assert.deepEqual(symbols(await storage.getArchivedLaunches('100%')), ['CAT2']);
+        assert.deepEqual(await storage.getArchivedLaunches('c_t'), []);
+      });
+
+      it('prunes archived pairs older than the archive retention', async () => {
+        await storage.upsertLaunches([oldLaunch(1), oldLaunch(2)]);
+        await storage.archiveOldLaunches(8);
+
+        assert.equal(await storage.pruneArchive(1), 0);
+        // A negative age puts the cutoff in the future, so everything is old enough
+        assert.equal(await storage.pruneArchive(-1), 2);
+        assert.deepEqual(await storage.getArchivedLaunches('token'), []);
+      });
+    });
+
+    describe('tracked tokens', () => {
+      it('replaces a tracked token with its latest data', async () => {
+        await storage.upsertTrackedTokens([launch(1), launch(2)]);
+        await storage.upsertTrackedTokens([launch(1, { priceUsd: 5 })]);
+
+        assert.deepEqual(defined((await storage.getTrackedToken(tokenAddress(1)))!), launch(1, { priceUsd: 5 }));
+        assert.equal((await storage.getTrackedToken(tokenAddress(2)))?.symbol, 'TOK2');
+        assert.equal(await storage.getTrackedToken(tokenAddress(3)), undefined);
+      });
+
+      it('returns the fresher of the launch and the tracked token', async () => {
+        await storage.upsertLaunch(launch(1, { priceUsd: 1, lastUpdated: NOW }));
+        await storage.upsertTrackedTokens([launch(1, { priceUsd: 2, lastUpdated: NOW + 10 })]);
+        await storage.upsertLaunch(launch(2, { priceUsd: 3, lastUpdated: NOW + 10 }));
+        await storage.upsertTrackedTokens([launch(2, { priceUsd: 4, lastUpdated: NOW })]);
+        await storage.upsertTrackedTokens([launch(3)]);
+
+        assert.equal((await storage.getLatestTokenData(tokenAddress(1)))?.priceUsd, 2);
+        assert.equal((await storage.getLatestTokenData(tokenAddress(2)))?.priceUsd, 3);
+        assert.equal((await storage.getLatestTokenData(tokenAddress(3)))?.symbol, 'TOK3');
+        assert.equal(await storage.getLatestTokenData(tokenAddress(4)), undefined);
+      });
+
+      it('searches launched and tracked tokens once each, exact symbols first', async () => {
+        await storage.upsertLaunches([
+          launch(1, { name: 'Pepe Base', symbol: 'PEPE2', volume24h: 900 }),
+          launch(2, { name: 'Based Pepe', symbol: 'BPEPE', volume24h: 500 }),
+          launch(3, { name: 'Fifty_Fifty', symbol: 'FIFTY', volume24h: 100 }),
+        ]);
+        await storage.upsertTrackedTokens([
+          launch(4, { name: 'Pepe', symbol: 'PEPE', volume24h: 10 }),
+          launch(1, { name: 'Pepe Base', symbol: 'PEPE2', volume24h: 800 }),
+        ]);
+
+        assert.deepEqual(symbols(await storage.searchTokens('pepe')), ['PEPE', 'PEPE2', 'BPEPE']);
+        assert.deepEqual(symbols(await storage.searchTokens('pepe', 2)), ['PEPE', 'PEPE2']);
+        assert.deepEqual(await storage.searchTokens(upper(tokenAddress(3))), [
+          { tokenAddress: tokenAddress(3), name: 'Fifty_Fifty', symbol: 'FIFTY' },
+        ]);
+        // LIKE wildcards in the query match literally
+        assert.deepEqual(symbols(await storage.searchTokens('_fifty')), ['FIFTY']);
+        assert.deepEqual(await storage.searchTokens('p_pe'), []);
+      });
+
+      it('lists the tokens with an active alert, a watcher or a holder, and prunes the rest', async () => {
+        await storage.upsertTrackedTokens([launch(1), launch(2), launch(3), launch(4), launch(5)]);
+        await storage.addToWatchlist('alice', tokenAddress(1));
+        await storage.addToWatchlist('bob', tokenAddress(1));
+        await storage.createAlert('alice', tokenAddress(2), alertSettings());
+        await storage.addPosition('bob', tokenAddress(3), 1, 1);
+        const fired = await storage.createAlert('alice', tokenAddress(4), alertSettings());
+        await storage.markAlertTriggered(fired, 'once', null);
+
+        assert.deepEqual((await storage.getWatchedTokenAddresses()).sort(), [tokenAddress(1), tokenAddress(2), tokenAddress(3)]);
+        assert.equal(await storage.pruneUnwatchedTokens(), 2);
+        assert.equal(await storage.getTrackedToken(tokenAddress(4)), undefined);
+        assert.equal(await storage.getTrackedToken(tokenAddress(5)), undefined);
+        assert.equal(await storage.pruneUnwatchedTokens(), 0);
+      });
+    });
+
+    describe('watchlists', () => {
+      it('adds a token once per user and lists it by address in lower case', async () => {
+        assert.equal(await storage.addToWatchlist('alice', upper(tokenAddress(1))), true);
+        assert.equal(await storage.addToWatchlist('alice', tokenAddress(1)), false);
+        assert.equal(await storage.addToWatchlist('bob', tokenAddress(1)), true);
+        assert.equal(await storage.addToWatchlist('alice', tokenAddress(2)), true);
+
+        const watchlist = await storage.getWatchlist('alice');
+        assert.deepEqual(watchlist.map(entry => [entry.userId, entry.tokenAddress]).sort(), [
+          ['alice', tokenAddress(1)],
+          ['alice', tokenAddress(2)],
+        ]);
+        assert.ok(watchlist.every(entry => typeof entry.id === 'number' && entry.addedAt >= NOW));
+        assert.deepEqual((await storage.getTokenWatchers(tokenAddress(1))).sort(), ['alice', 'bob']);
+      });
+
+      it('removes a token from one user only', async () => {
+        await storage.addToWatchlist('alice', tokenAddress(1));
+        await storage.addToWatchlist('bob', tokenAddress(1));
+
+        assert.equal(await storage.removeFromWatchlist('alice', tokenAddress(1)), true);
+        assert.equal(await storage.removeFromWatchlist('alice', tokenAddress(1)), false);
+        assert.deepEqual(await storage.getWatchlist('alice'), []);
+        assert.deepEqual(await storage.getTokenWatchers(tokenAddress(1)), ['bob']);
+      });
+    });
+
+    describe('portfolios', () => {
+      it('merges additions into one position at the amount-weighted entry price', async () => {
+        const first = await storage.addPosition('alice', tokenAddress(1), 100, 1);
+        assert.deepEqual({ ...first, id: 0, addedAt: 0 }, { id: 0, userId: 'alice', tokenAddress: tokenAddress(1), amount: 100, entryPrice: 1, addedAt: 0 });
+
+        const merged = await storage.addPosition('alice', upper(tokenAddress(1)), 300, 2);
+        assert.equal(merged.id, first.id);
+        assert.equal(merged.addedAt, first.addedAt);
+        assert.equal(merged.amount, 400);
+        assert.equal(merged.entryPrice, 1.75);
+
+        await storage.addPosition('bob', tokenAddress(1), 5, 10);
+        assert.deepEqual(await storage.getPortfolio('alice'), [merged]);
+        assert.equal((await storage.getPortfolio('bob'))[0].entryPrice, 10);
+      });
+
+      it('lists positions oldest first and removes them one at a time', async () => {
+        await storage.addPosition('alice', tokenAddress(1), 1, 1);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await storage.addPosition('alice', tokenAddress(2), 2, 2);
+
+        assert.deepEqual((await storage.getPortfolio('alice')).map(position => position.tokenAddress), [tokenAddress(1), tokenAddress(2)]);
+        assert.equal(await storage.removePosition('alice', tokenAddress(1)), true);
+        assert.equal(await storage.removePosition('alice', tokenAddress(1)), false);
+        assert.equal(await storage.removePosition('bob', tokenAddress(2)), false);
+        assert.deepEqual((await storage.getPortfolio('alice')).map(position => position.tokenAddress), [tokenAddress(2)]);
+      });
+    });
+
+    describe('daily summaries', () => {
+      it('counts turning the daily summary on as summarised up to then', async () => {
+        assert.equal(await storage.getDailySummaryEnabled('alice'), false);
+
+        await storage.setDailySummary('alice', true, 1_000);
+        await storage.setDailySummary('bob', true, 1_000);
+        await storage.setDailySummary('bob', false, 0);
+        assert.equal(await storage.getDailySummaryEnabled('alice'), true);
+        assert.equal(await storage.getDailySummaryEnabled('bob'), false);
+        assert.deepEqual(await storage.getDailySummarySubscribers(), [{ userId: 'alice', lastSummaryAt: 1_000 }]);
+
+        // Re-enabling never moves the last summary back
+        await storage.claimDailySummary('alice', 1_000, 5_000);
+        await storage.setDailySummary('alice', false, 0);
+        await storage.setDailySummary('alice', true, 2_000);
+        assert.deepEqual(await storage.getDailySummarySubscribers(), [{ userId: 'alice', lastSummaryAt: 5_000 }]);
+        await storage.setDailySummary('alice', true, 9_000);
+        assert.deepEqual(await storage.getDailySummarySubscribers(), [{ userId: 'alice', lastSummaryAt: 9_000 }]);
+      });
+
+      it('claims each daily summary once, against the last summary time read', async () => {
+        await storage.setDailySummary('alice', true, 1_000);
+
+        assert.equal(await storage.claimDailySummary('alice', null, 2_000), false);
+        assert.equal(await storage.claimDailySummary('alice', 1_000, 2_000), true);
+        assert.equal(await storage.claimDailySummary('alice', 1_000, 3_000), false);
+        assert.equal(await storage.claimDailySummary('bob', null, 2_000), false);
+
+        const claims = await Promise.all([0, 1, 2, 3].map(() => storage.claimDailySummary('alice', 2_000, 4_000)));
+        assert.equal(claims.filter(Boolean).length, 1);
+        assert.deepEqual(await storage.getDailySummarySubscribers(), [{ userId: 'alice', lastSummaryAt: 4_000 }]);
+      });
+    });
+
+    describe('alerts', () => {
+      it('stores alerts with their expression, mode and delivery', async () => {
+        const expression: AlertExpression = { type: 'or', children: [condition(1), condition(2)] };
+        const id = await storage.createAlert('alice', upper(tokenAddress(1)), alertSettings({
+          expression,
+          mode: 'repeat',
+          cooldownMinutes: 15,
+          hysteresisPercent: 5,
+          delivery: { type: 'webhook', target: 'https://example.com/hook' },
+        }));
+
+        const [alert] = await storage.getUserAlerts('alice');
+        assert.ok(alert.createdAt >= NOW);
+        assert.deepEqual({ ...alert, createdAt: 0 }, {
+          id,
+          userId: 'alice',
+          tokenAddress: tokenAddress(1),
+          expression,
+          mode: 'repeat',
+          cooldownMinutes: 15,
+          hysteresisPercent: 5,
+          armed: true,
+          delivery: { type: 'webhook', target: 'https://example.com/hook' },
+          deliveryFailures: 0,
+          triggered: false,
+          triggerCount: 0,
+          lastTriggeredAt: null,
+          createdAt: 0,
+        });
+        assert.deepEqual(await storage.getActiveAlerts(), [alert]);
+        assert.deepEqual(await storage.getUserAlerts('bob'), []);
+      });
+
+      it('records a fire only against the last fire time read', async () => {
+        const once = await storage.createAlert('alice', tokenAddress(1), alertSettings());
+        const repeat = await storage.createAlert('alice', tokenAddress(2), alertSettings({ mode: 'repeat' }));
+        const cross = await storage.createAlert('alice', tokenAddress(3), alertSettings({ mode: 'cross' }));
+
+        assert.equal(await storage.markAlertTriggered(once, 'once', null), true);
+        assert.equal(await storage.markAlertTriggered(once, 'once', null), false);
+
+        const claims = await Promise.all([0, 1, 2, 3].map(() => storage.markAlertTriggered(repeat, 'repeat', null)));
+        assert.equal(claims.filter(Boolean).length, 1);
+        assert.equal(await storage.markAlertTriggered(cross, 'cross', null), true);
+
+        const alerts = new Map((await storage.getUserAlerts('alice')).map(alert => [alert.id, alert]));
+        const firedRepeat = alerts.get(repeat)!;
+        assert.deepEqual([alerts.get(once)!.triggered, alerts.get(once)!.triggerCount], [true, 1]);
+        assert.deepEqual([firedRepeat.triggered, firedRepeat.armed, firedRepeat.triggerCount], [false, true, 1]);
+        assert.deepEqual([alerts.get(cross)!.triggered, alerts.get(cross)!.armed], [false, false]);
+        assert.ok(firedRepeat.lastTriggeredAt !== null && firedRepeat.lastTriggeredAt >= NOW);
+
+        // The next fire has to name the fire it follows
+        assert.equal(await storage.markAlertTriggered(repeat, 'repeat', null), false);
+        assert.equal(await storage.markAlertTriggered(repeat, 'repeat', firedRepeat.lastTriggeredAt), true);
+        assert.deepEqual((await storage.getActiveAlerts()).map(alert => alert.id).sort(), [repeat, cross].sort());
+      });
+
+      it('updates expressions, arming and consecutive delivery failures', async () => {
+        const id = await storage.createAlert('alice', tokenAddress(1), alertSettings({ mode: 'cross' }));
+
+        await storage.updateAlertExpression(id, condition(7));
+        await storage.setAlertArmed(id, false);
+        await storage.recordAlertDelivery(id, false);
+        await storage.recordAlertDelivery(id, false);
+        let [alert] = await storage.getUserAlerts('alice');
+        assert.deepEqual([alert.expression, alert.armed, alert.deliveryFailures], [condition(7), false, 2]);
+
+        await storage.setAlertArmed(id, true);
+        await storage.recordAlertDelivery(id, true);
+        [alert] = await storage.getUserAlerts('alice');
+        assert.deepEqual([alert.armed, alert.deliveryFailures], [true, 0]);
+      });
+
+      it('deletes an alert only for its owner', async () => {
+        const id = await storage.createAlert('alice', tokenAddress(1), alertSettings());
+
+        assert.equal(await storage.deleteAlert(id, 'bob'), false);
+        assert.equal(await storage.deleteAlert(id, 'alice'), true);
+        assert.equal(await storage.deleteAlert(id, 'alice'), false);
+        assert.deepEqual(await storage.getUserAlerts('alice'), []);
+      });
+
+      it('keeps alert events newest first, past the alert itself', async () => {
+        const first = await storage.createAlert('alice', tokenAddress(1), alertSettings());
+        const second = await storage.createAlert('alice', tokenAddress(1), alertSettings());
+        const failed = alertEvent(first, NOW - 2, {
+          tokenAddress: upper(tokenAddress(1)),
+          values: [{ condition: priceAbove(1), value: 2, changePercent: null }],
+          sink: 'webhook',
+          attempts: 3,
+          delivered: false,
+          failureReason: 'Webhook responded with HTTP 500',
+        });
+
+        const failedId = await storage.recordAlertEvent(failed);
+        await storage.recordAlertEvent(alertEvent(second, NOW - 1));
+        await storage.recordAlertEvent(alertEvent(first, NOW));
+        await storage.recordAlertEvent(alertEvent(first, NOW + 1, { userId: 'bob' }));
+        await storage.deleteAlert(first, 'alice');
+
+        const events = await storage.getAlertEvents('alice');
+        assert.deepEqual(events.map(event => [event.alertId, event.firedAt]), [[first, NOW], [second, NOW - 1], [first, NOW - 2]]);
+        assert.deepEqual(events[2], { ...failed, id: failedId, tokenAddress: tokenAddress(1) });
+        assert.deepEqual((await storage.getAlertEvents('alice', first)).map(event => event.firedAt), [NOW, NOW - 2]);
+        assert.deepEqual((await storage.getAlertEvents('alice', undefined, 1)).map(event => event.firedAt), [NOW]);
+      });
+    });
+
+    describe('launch feeds', () => {
+      it('saves one feed per guild and lists the enabled ones', async () => {
+        assert.equal(await storage.getFeedSettings('guild-1'), undefined);
+
+        const feed = { guildId: 'guild-1', channelId: 'channel-1', enabled: true, minLiquidityUsd: 0, minVolumeUsd: 0, maxAgeMinutes: null, dexIds: null };
+        await storage.saveFeedSettings(feed);
+        await storage.saveFeedSettings({ ...feed, channelId: 'channel-2', minLiquidityUsd: 5_000, minVolumeUsd: 1_000, maxAgeMinutes: 30, dexIds: ['uniswap', 'aerodrome'] });
+        await storage.saveFeedSettings({ ...feed, guildId: 'guild-2', enabled: false });
+
+        assert.deepEqual(await storage.getFeedSettings('guild-1'), {
+          guildId: 'guild-1',
+          channelId: 'channel-2',
+          enabled: true,
+          minLiquidityUsd: 5_000,
+          minVolumeUsd: 1_000,
+          maxAgeMinutes: 30,
+          dexIds: ['uniswap', 'aerodrome'],
+        });
+        assert.equal((await storage.getFeedSettings('guild-2'))?.enabled, false);
+        assert.deepEqual((await storage.getEnabledFeeds()).map(settings => settings.guildId), ['guild-1']);
+      });
+
+      it('claims each pair once per guild', async () => {
+        assert.equal(await storage.claimFeedPost('guild-1', pairAddress(1)), true);
+        assert.equal(await storage.claimFeedPost('guild-1', upper(pairAddress(1))), false);
+        assert.equal(await storage.claimFeedPost('guild-2', pairAddress(1)), true);
+
+        const claims = await Promise.all([0, 1, 2, 3].map(() => storage.claimFeedPost('guild-1', pairAddress(2))));
+        assert.equal(claims.filter(Boolean).length, 1);
+      });
+
+      it('forgets posts past their retention', async () => {
+        await storage.claimFeedPost('guild-1', pairAddress(1));
+        await storage.claimFeedPost('guild-2', pairAddress(1));
+
+        assert.equal(await storage.pruneFeedPosts(1), 0);
+        assert.equal(await storage.pruneFeedPosts(-1), 2);
+        assert.equal(await storage.claimFeedPost('guild-1', pairAddress(1)), true);
+      });
+    });
+
+    describe('rug events', () => {
+      it('records a drop once per pair and kind within the cooldown', async () => {
+        const recorded = await storage.recordRugEvent(rugEvent(1), NOW - HOUR);
+        assert.ok(recorded);
+        assert.deepEqual(recorded, { ...rugEvent(1), id: recorded.id });
+        assert.deepEqual(await storage.getRugEvents(tokenAddress(1)), [recorded]);
+
+        assert.equal(await storage.recordRugEvent(rugEvent(1, { pairAddress: upper(pairAddress(1)), detectedAt: NOW + 1 }), NOW - HOUR), undefined);
+        assert.ok(await storage.recordRugEvent(rugEvent(1, { kind: 'price' }), NOW - HOUR));
+        assert.ok(await storage.recordRugEvent(rugEvent(2), NOW - HOUR));
+        // Past the cooldown the same drop is flagged again
+        assert.ok(await storage.recordRugEvent(rugEvent(1, { detectedAt: NOW + 2 * HOUR }), NOW + HOUR));
+
+        const concurrent = await Promise.all([0, 1, 2, 3].map(() => storage.recordRugEvent(rugEvent(3), NOW - HOUR)));
+        assert.equal(concurrent.filter(Boolean).length, 1);
+      });
+
+      it('lists a token\'s events across its pairs, newest first', async () => {
+        await storage.recordRugEvent(rugEvent(1, { detectedAt: NOW - 2 }), NOW - HOUR);
+        await storage.recordRugEvent(rugEvent(2, { tokenAddress: tokenAddress(1), detectedAt: NOW - 1 }), NOW - HOUR);
+        await storage.recordRugEvent(rugEvent(1, { kind: 'price', detectedAt: NOW }), NOW - HOUR);
+        await storage.recordRugEvent(rugEvent(3), NOW - HOUR);
+
+        const events = await storage.getRugEvents(upper(tokenAddress(1)));
+        assert.deepEqual(events.map(event => [event.pairAddress, event.kind, event.detectedAt]), [
+          [pairAddress(1), 'price', NOW],
+          [pairAddress(2), 'liquidity', NOW - 1],
+          [pairAddress(1), 'liquidity', NOW - 2],
+        ]);
+        assert.equal((await storage.getRugEvents(tokenAddress(1), 1)).length, 1);
+        assert.deepEqual(await storage.getRugEvents(tokenAddress(9)), []);
+      });
+
+      it('prunes events past their retention', async () => {
+        await storage.recordRugEvent(rugEvent(1, { detectedAt: NOW - 3 * HOUR }), NOW - 4 * HOUR);
+        await storage.recordRugEvent(rugEvent(2), NOW - HOUR);
+
+        assert.equal(await storage.pruneRugEvents(2), 1);
+        assert.deepEqual((await storage.getRugEvents(tokenAddress(2))).length, 1);
+        assert.deepEqual(await storage.getRugEvents(tokenAddress(1)), []);
+      });
+    });
+  });
+}